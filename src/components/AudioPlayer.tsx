@@ -1,10 +1,15 @@
-import { useState, useRef, useEffect, useCallback } from "react";
+import { Fragment, useState, useRef, useEffect, useCallback, useMemo } from "react";
 import {
-  Play, Pause, Square, Download, Loader2, RotateCcw, Settings2
+  Play, Pause, Square, Download, Loader2, RotateCcw, Settings2, FileText, FileAudio, X, ListOrdered
 } from "lucide-react";
 import { AudiobookEntry, savePlaybackState, getPlaybackState } from "@/lib/audiobookStore";
 import { useAuth } from "@/contexts/AuthContext";
-import { synthesizeOffline, stopTTS, pauseTTS, resumeTTS, getLangCode, getBrowserVoices } from "@/lib/ttsEngine";
+import { useOnlineStatus } from "@/hooks/useOnlineStatus";
+import { getEngine, getLangCode, getBrowserVoices, CLOUD_VOICES, TTSEngineId } from "@/lib/ttsEngine";
+import { exportAudiobook, countRenderedParagraphs, ExportFormat } from "@/lib/audioExport";
+import { chapterRanges, chapterAt } from "@/lib/chapters";
+import { splitSentences, findRange, wordAt } from "@/lib/textSegments";
+import { stripSsml } from "@/lib/ssml";
 
 interface AudioPlayerProps {
   book: AudiobookEntry;
@@ -12,26 +17,96 @@ interface AudioPlayerProps {
 
 type PlayState = "idle" | "loading" | "playing" | "paused" | "ended";
 
+// `engine` measured `seconds`; offsets hold for any engine
+type ResumePoint = { paragraph: number; seconds: number; charOffset: number; engine: TTSEngineId | null };
+type StartAt = Omit<ResumePoint, "paragraph">;
+
+// How often the position is saved while playing
+const SAVE_INTERVAL_MS = 10000;
+
 const RATE_OPTIONS = [0.75, 1, 1.25, 1.5, 2];
 
+function fmtTime(s: number) {
+  if (!Number.isFinite(s)) return "0:00";
+  return `${Math.floor(s / 60)}:${String(Math.floor(s % 60)).padStart(2, "0")}`;
+}
+
+type Boundary = { index: number; length?: number };
+
+// Full paragraph text with the current sentence and word highlighted, kept in view
+function ReadAlongText({ text, boundary }: { text: string; boundary: Boundary | null }) {
+  const sentences = useMemo(() => splitSentences(text), [text]);
+  const activeRef = useRef<HTMLSpanElement>(null);
+  const sentenceIdx = boundary ? findRange(sentences, boundary.index) : -1;
+  const word = boundary ? wordAt(text, boundary.index, boundary.length) : null;
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [sentenceIdx]);
+
+  return (
+    <>
+      {sentences.map((r, si) => {
+        if (si !== sentenceIdx) {
+          return <span key={si} className="text-foreground/70">{text.slice(r.start, r.end)}</span>;
+        }
+        const wStart = word ? Math.max(word.start, r.start) : r.end;
+        const wEnd = word ? Math.min(word.end, r.end) : r.end;
+        return (
+          <span key={si} ref={activeRef} className="bg-primary/15 text-foreground rounded px-0.5">
+            {text.slice(r.start, wStart)}
+            {wEnd > wStart && <mark className="bg-primary text-primary-foreground rounded px-0.5">{text.slice(wStart, wEnd)}</mark>}
+            {text.slice(wEnd, r.end)}
+          </span>
+        );
+      })}
+    </>
+  );
+}
+
 export default function AudioPlayer({ book }: AudioPlayerProps) {
   const { user } = useAuth();
+  const isOnline = useOnlineStatus();
 
   const [state, setState] = useState<PlayState>("idle");
   const [selectedParagraphs, setSelectedParagraphs] = useState<Set<number>>(new Set());
   const [currentParagraph, setCurrentParagraph] = useState<number>(-1);
   const [rate, setRate] = useState(1);
   const [voiceIndex, setVoiceIndex] = useState<number>(0);
+  const [engineId, setEngineId] = useState<TTSEngineId>("browser");
+  const [cloudVoice, setCloudVoice] = useState(CLOUD_VOICES[0].id);
+  const [position, setPosition] = useState({ current: 0, duration: NaN });
+  const [boundary, setBoundary] = useState<Boundary | null>(null);
+  const [resumePoint, setResumePoint] = useState<ResumePoint | null>(null);
   const [showSettings, setShowSettings] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showChapters, setShowChapters] = useState(false);
+  const [exportProgress, setExportProgress] = useState<{ format: ExportFormat; done: number; total: number } | null>(null);
+  const [exportError, setExportError] = useState("");
+  const [renderedCount, setRenderedCount] = useState(0);
   const [browserVoices, setBrowserVoices] = useState<{ id: string; label: string }[]>([]);
 
   const playQueueRef = useRef<number[]>([]);
   const queueIndexRef = useRef(0);
   const abortRef = useRef(false);
-
-  const paragraphs = book.paragraphs?.length > 0
+  const exportAbortRef = useRef<AbortController | null>(null);
+  // Incremented on every new playback request so stale paragraph chains stop themselves
+  const sessionRef = useRef(0);
+  // Latest position inside the current paragraph, saved on pause/stop/unmount and periodically
+  const positionRef = useRef<ResumePoint>({ paragraph: -1, seconds: 0, charOffset: 0, engine: null });
+  const lastSaveRef = useRef(0);
+
+  // The cloud engine needs the network; fall back to the browser voice when offline
+  const activeEngineId: TTSEngineId = engineId === "cloud" && !isOnline ? "browser" : engineId;
+  const engine = getEngine(activeEngineId);
+
+  const paragraphs = useMemo(() => book.paragraphs?.length > 0
     ? book.paragraphs
-    : book.translatedText.split(/\n\n+/).filter(Boolean);
+    : book.translatedText.split(/\n\n+/).filter(Boolean), [book]);
+  const chapters = useMemo(() => chapterRanges(book.chapters, paragraphs.length), [book.chapters, paragraphs.length]);
+  const currentChapter = chapterAt(chapters, currentParagraph);
+  // Chapter progress follows the paragraph being played, or the saved position before playback starts
+  const reachedParagraph = currentParagraph >= 0 ? currentParagraph : resumePoint?.paragraph ?? -1;
 
   // Load browser voices
   useEffect(() => {
@@ -49,16 +124,25 @@ export default function AudioPlayer({ book }: AudioPlayerProps) {
         setRate(ps.speed);
         if (ps.chunkIndex >= 0 && ps.chunkIndex < paragraphs.length) {
           setCurrentParagraph(ps.chunkIndex);
+          if (ps.chunkIndex > 0 || ps.positionSeconds > 0 || ps.charOffset > 0) {
+            setResumePoint({ paragraph: ps.chunkIndex, seconds: ps.positionSeconds, charOffset: ps.charOffset, engine: ps.engine });
+          }
         }
       }
     });
   }, [user, book.id]);
 
-  const saveState = useCallback((paraIdx: number) => {
+  const saveState = useCallback((paraIdx: number, seconds = 0, charOffset = 0, positionEngine: TTSEngineId | null = null) => {
     if (!user) return;
-    savePlaybackState(user.id, book.id, 0, paraIdx, rate);
+    lastSaveRef.current = Date.now();
+    savePlaybackState(user.id, book.id, seconds, paraIdx, rate, charOffset, positionEngine);
   }, [user, book.id, rate]);
 
+  const savePosition = useCallback(() => {
+    const { paragraph, seconds, charOffset, engine: positionEngine } = positionRef.current;
+    if (paragraph >= 0) saveState(paragraph, seconds, charOffset, positionEngine);
+  }, [saveState]);
+
   const toggleParagraph = (index: number) => {
     setSelectedParagraphs(prev => {
       const next = new Set(prev);
@@ -68,92 +152,200 @@ export default function AudioPlayer({ book }: AudioPlayerProps) {
     });
   };
 
-  // Play a single paragraph using browser TTS
-  const playParagraph = async (index: number) => {
+  // Play a single paragraph with the active engine
+  const playParagraph = async (index: number, session: number, startAt?: StartAt) => {
     if (index < 0 || index >= paragraphs.length) {
       setState("ended");
       return;
     }
 
+    // Seconds measured by the other engine don't carry over to this one's clock
+    const seconds = startAt?.engine === activeEngineId ? startAt.seconds : 0;
     setCurrentParagraph(index);
-    setState("playing");
-    saveState(index);
+    setPosition({ current: seconds, duration: NaN });
+    setBoundary(null);
+    setResumePoint(null);
+    setState(activeEngineId === "cloud" ? "loading" : "playing");
+    positionRef.current = { paragraph: index, seconds, charOffset: startAt?.charOffset ?? 0, engine: activeEngineId };
+    savePosition();
 
     const text = paragraphs[index];
+    const voice = activeEngineId === "cloud" ? cloudVoice : String(voiceIndex);
+    const lang = getLangCode(book.language);
 
     try {
-      await synthesizeOffline(text, getLangCode(book.language), rate, voiceIndex);
-      if (abortRef.current) return;
+      await engine.speak(text, {
+        lang,
+        rate,
+        voice,
+        chunk: { audiobookId: book.id, paragraphIndex: index },
+        startAt,
+        onStart: () => {
+          if (sessionRef.current !== session) return;
+          setState("playing");
+          // Generate the next queued paragraph while this one plays
+          const next = playQueueRef.current[queueIndexRef.current + 1];
+          if (next !== undefined) {
+            engine.prefetch?.(paragraphs[next], { lang, rate, voice, chunk: { audiobookId: book.id, paragraphIndex: next } });
+          }
+        },
+        onProgress: (current, duration) => {
+          if (sessionRef.current !== session) return;
+          setPosition({ current, duration });
+          positionRef.current.seconds = current;
+          if (Date.now() - lastSaveRef.current > SAVE_INTERVAL_MS) savePosition();
+        },
+        onBoundary: (charIndex, length) => {
+          if (sessionRef.current !== session) return;
+          setBoundary({ index: charIndex, length });
+          positionRef.current.charOffset = charIndex;
+        },
+      });
+      if (abortRef.current || sessionRef.current !== session) return;
 
       queueIndexRef.current++;
       if (queueIndexRef.current < playQueueRef.current.length && !abortRef.current) {
-        playParagraph(playQueueRef.current[queueIndexRef.current]);
+        playParagraph(playQueueRef.current[queueIndexRef.current], session);
       } else {
         setState("ended");
       }
     } catch (err) {
+      if (sessionRef.current !== session) return;
       console.error("TTS error:", err);
       setState("idle");
     }
   };
 
-  const handlePlayAll = () => {
+  const startQueue = (queue: number[], startAt?: StartAt) => {
+    engine.stop();
     abortRef.current = false;
+    playQueueRef.current = queue;
+    queueIndexRef.current = 0;
+    playParagraph(queue[0], ++sessionRef.current, startAt);
+  };
+
+  const handleResumeFrom = (point: ResumePoint) => {
+    const queue = paragraphs.map((_, i) => i).slice(point.paragraph);
+    startQueue(queue, { seconds: point.seconds, charOffset: point.charOffset, engine: point.engine });
+  };
+
+  const handlePlayAll = () => {
     const queue = selectedParagraphs.size > 0
       ? Array.from(selectedParagraphs).sort((a, b) => a - b)
       : paragraphs.map((_, i) => i);
 
-    playQueueRef.current = queue;
-    queueIndexRef.current = 0;
-    playParagraph(queue[0]);
+    startQueue(queue);
   };
 
   const handlePlaySingle = (index: number) => {
-    abortRef.current = false;
-    playQueueRef.current = [index];
-    queueIndexRef.current = 0;
-    playParagraph(index);
+    startQueue([index]);
+  };
+
+  const handlePlayChapter = (index: number) => {
+    const { start, end } = chapters[index];
+    startQueue(Array.from({ length: end - start }, (_, i) => start + i));
   };
 
   const handlePause = () => {
-    pauseTTS();
+    engine.pause();
     setState("paused");
+    savePosition();
   };
 
   const handleResume = () => {
-    resumeTTS();
+    engine.resume();
     setState("playing");
   };
 
   const handleStop = () => {
+    savePosition();
+    positionRef.current = { paragraph: -1, seconds: 0, charOffset: 0, engine: null };
     abortRef.current = true;
-    stopTTS();
+    sessionRef.current++;
+    engine.stop();
     setState("idle");
     setCurrentParagraph(-1);
+    setPosition({ current: 0, duration: NaN });
+    setBoundary(null);
   };
 
   const handleRepeat = () => {
-    if (currentParagraph >= 0) {
-      abortRef.current = false;
-      playQueueRef.current = [currentParagraph];
-      queueIndexRef.current = 0;
-      playParagraph(currentParagraph);
-    }
+    if (currentParagraph >= 0) startQueue([currentParagraph]);
   };
 
-  const handleDownload = () => {
-    const blob = new Blob([book.translatedText || book.originalText], { type: "text/plain" });
+  const handleRateChange = (r: number) => {
+    setRate(r);
+    engine.setRate(r);
+  };
+
+  const handleEngineChange = (id: TTSEngineId) => {
+    if (id === engineId) return;
+    handleStop();
+    setEngineId(id);
+  };
+
+  const downloadBlob = (blob: Blob, filename: string) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
-    a.href = url; a.download = `${book.title}.txt`; a.click();
+    a.href = url; a.download = filename; a.click();
     URL.revokeObjectURL(url);
   };
 
+  const handleDownload = () => {
+    downloadBlob(new Blob([stripSsml(book.translatedText) || book.originalText], { type: "text/plain" }), `${book.title}.txt`);
+  };
+
+  // How much of the book is already rendered for the selected cloud voice
+  useEffect(() => {
+    if (!showExport || exportProgress) return;
+    countRenderedParagraphs({ ...book, paragraphs }, cloudVoice)
+      .then(setRenderedCount)
+      .catch(() => setRenderedCount(0));
+  }, [showExport, exportProgress, book, paragraphs, cloudVoice]);
+
+  const handleExport = async (format: ExportFormat) => {
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    setExportError("");
+    setExportProgress({ format, done: 0, total: paragraphs.length });
+
+    try {
+      const blob = await exportAudiobook({ ...book, paragraphs }, format, {
+        voiceId: cloudVoice,
+        signal: controller.signal,
+        onProgress: (done, total) => setExportProgress({ format, done, total }),
+      });
+      downloadBlob(blob, `${book.title}.${format}`);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error("Export failed:", err);
+        setExportError(err instanceof Error ? err.message : "Export failed");
+      }
+    } finally {
+      exportAbortRef.current = null;
+      setExportProgress(null);
+    }
+  };
+
+  const handleCancelExport = () => {
+    exportAbortRef.current?.abort();
+  };
+
+  // Save the position when the player closes
+  const savePositionRef = useRef(savePosition);
+  savePositionRef.current = savePosition;
+  useEffect(() => {
+    const save = savePositionRef;
+    return () => save.current();
+  }, []);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
       abortRef.current = true;
-      stopTTS();
+      exportAbortRef.current?.abort();
+      getEngine("browser").stop();
+      getEngine("cloud").stop();
     };
   }, []);
 
@@ -176,8 +368,15 @@ export default function AudioPlayer({ book }: AudioPlayerProps) {
           </span>
 
           <span className="text-xs flex items-center gap-1 text-muted-foreground">
-            🔊 Browser TTS
+            {activeEngineId === "cloud" ? "☁️" : "🔊"} {engine.label}
+            {engineId === "cloud" && !isOnline && " (offline fallback)"}
           </span>
+
+          {currentChapter >= 0 && (
+            <span className="text-xs text-foreground font-medium truncate max-w-[12rem]" title={chapters[currentChapter].title}>
+              {chapters[currentChapter].title}
+            </span>
+          )}
         </div>
 
         {selectedParagraphs.size > 0 && (
@@ -187,6 +386,27 @@ export default function AudioPlayer({ book }: AudioPlayerProps) {
         )}
       </div>
 
+      {/* Resume prompt */}
+      {resumePoint && state === "idle" && (
+        <div className="flex items-center justify-between gap-3 bg-primary/5 border border-primary/20 rounded-xl px-3 py-2 animate-fade-up">
+          <span className="text-xs text-foreground">
+            {resumePoint.seconds > 0 || resumePoint.charOffset > 0
+              ? `Resume from ${fmtTime(resumePoint.seconds)} in paragraph ${resumePoint.paragraph + 1}`
+              : `Resume at paragraph ${resumePoint.paragraph + 1}`}
+          </span>
+          <div className="flex items-center gap-2 shrink-0">
+            <button onClick={() => handleResumeFrom(resumePoint)}
+              className="text-xs px-2.5 py-1 rounded-lg font-semibold bg-primary text-primary-foreground hover:bg-primary/90">
+              Resume
+            </button>
+            <button onClick={() => setResumePoint(null)}
+              className="text-xs text-muted-foreground hover:text-foreground underline">
+              Start over
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Main controls */}
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-2">
@@ -221,7 +441,7 @@ export default function AudioPlayer({ book }: AudioPlayerProps) {
         {/* Speed buttons */}
         <div className="flex gap-0.5">
           {RATE_OPTIONS.map(r => (
-            <button key={r} onClick={() => setRate(r)}
+            <button key={r} onClick={() => handleRateChange(r)}
               className={`text-xs px-2 py-1 rounded-lg font-medium transition-all ${
                 rate === r ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:bg-muted"
               }`}
@@ -231,8 +451,18 @@ export default function AudioPlayer({ book }: AudioPlayerProps) {
 
         {/* Right controls */}
         <div className="flex items-center gap-1">
-          <button onClick={handleDownload} title="Download text"
-            className="w-8 h-8 rounded-lg flex items-center justify-center text-muted-foreground hover:text-foreground hover:bg-muted transition-all">
+          {chapters.length > 0 && (
+            <button onClick={() => setShowChapters(s => !s)} title="Chapters"
+              className={`w-8 h-8 rounded-lg flex items-center justify-center transition-all ${
+                showChapters ? "bg-primary/10 text-primary" : "text-muted-foreground hover:text-foreground hover:bg-muted"
+              }`}>
+              <ListOrdered className="w-3.5 h-3.5" />
+            </button>
+          )}
+          <button onClick={() => setShowExport(s => !s)} title="Download"
+            className={`w-8 h-8 rounded-lg flex items-center justify-center transition-all ${
+              showExport ? "bg-primary/10 text-primary" : "text-muted-foreground hover:text-foreground hover:bg-muted"
+            }`}>
             <Download className="w-3.5 h-3.5" />
           </button>
           <button onClick={() => setShowSettings(s => !s)} title="Settings"
@@ -244,25 +474,165 @@ export default function AudioPlayer({ book }: AudioPlayerProps) {
         </div>
       </div>
 
+      {/* Seek bar (audio-file engines only) */}
+      {activeEngineId === "cloud" && currentParagraph >= 0 && engine.seek && (
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground font-mono w-10 text-right">{fmtTime(position.current)}</span>
+          <input
+            type="range"
+            min={0}
+            max={Number.isFinite(position.duration) ? position.duration : 0}
+            step={0.1}
+            value={position.current}
+            disabled={!Number.isFinite(position.duration)}
+            onChange={e => engine.seek?.(Number(e.target.value))}
+            className="flex-1 accent-primary"
+          />
+          <span className="text-xs text-muted-foreground font-mono w-10">{fmtTime(position.duration)}</span>
+        </div>
+      )}
+
+      {/* Chapter navigator */}
+      {showChapters && chapters.length > 0 && (
+        <div className="bg-muted/60 rounded-xl p-4 space-y-2 animate-fade-up border border-border">
+          <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+            Chapters ({chapters.length})
+          </p>
+          <div className="space-y-1 max-h-60 overflow-y-auto pr-1">
+            {chapters.map((c, i) => {
+              const count = c.end - c.start;
+              const progress = reachedParagraph >= c.end ? 1
+                : reachedParagraph < c.start ? 0
+                : (reachedParagraph - c.start) / count;
+              const isCurrent = i === currentChapter;
+              return (
+                <div key={i} className={`group flex items-center gap-2 px-2.5 py-2 rounded-lg transition-all ${
+                  isCurrent ? "bg-primary/10 border border-primary/30" : "bg-card border border-border"
+                }`}>
+                  <span className="text-xs text-muted-foreground font-mono w-5 text-right shrink-0">{i + 1}</span>
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className={`text-xs truncate ${isCurrent ? "text-primary font-medium" : "text-foreground"}`}>{c.title}</p>
+                      <span className="text-xs text-muted-foreground shrink-0">
+                        {count} ¶ · {Math.round(progress * 100)}%
+                      </span>
+                    </div>
+                    <div className="h-1 bg-border rounded-full overflow-hidden">
+                      <div className="h-full bg-primary rounded-full transition-all" style={{ width: `${progress * 100}%` }} />
+                    </div>
+                  </div>
+                  <button onClick={() => handlePlayChapter(i)} title={`Play chapter ${i + 1}`}
+                    className="shrink-0 w-7 h-7 rounded-lg flex items-center justify-center bg-primary/10 text-primary hover:bg-primary/20 transition-all">
+                    <Play className="w-3 h-3" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Export panel */}
+      {showExport && (
+        <div className="bg-muted/60 rounded-xl p-4 space-y-3 animate-fade-up border border-border">
+          <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Download</p>
+
+          {exportProgress ? (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-foreground flex items-center gap-1.5">
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                  Rendering {exportProgress.format.toUpperCase()}… {exportProgress.done} / {exportProgress.total} paragraphs
+                </span>
+                <button onClick={handleCancelExport}
+                  className="text-xs text-muted-foreground hover:text-destructive flex items-center gap-1">
+                  <X className="w-3 h-3" />Cancel
+                </button>
+              </div>
+              <div className="h-1.5 bg-border rounded-full overflow-hidden">
+                <div className="h-full bg-primary rounded-full transition-all"
+                  style={{ width: `${exportProgress.total ? (exportProgress.done / exportProgress.total) * 100 : 0}%` }} />
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="flex gap-1">
+                <button onClick={handleDownload}
+                  className="flex-1 text-xs px-2 py-1.5 rounded-lg font-medium bg-card text-foreground hover:bg-muted border border-border flex items-center justify-center gap-1.5">
+                  <FileText className="w-3 h-3" />Text (.txt)
+                </button>
+                {(["mp3", "m4b"] as ExportFormat[]).map(f => (
+                  <button key={f} onClick={() => handleExport(f)} disabled={!isOnline}
+                    className="flex-1 text-xs px-2 py-1.5 rounded-lg font-medium bg-card text-foreground hover:bg-muted border border-border flex items-center justify-center gap-1.5 disabled:opacity-50">
+                    <FileAudio className="w-3 h-3" />{f === "mp3" ? "Audio (.mp3)" : "Audiobook (.m4b)"}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {!isOnline
+                  ? "Audio export needs a connection to the cloud voice."
+                  : renderedCount > 0 && renderedCount < paragraphs.length
+                    ? `${renderedCount} of ${paragraphs.length} paragraphs already rendered — export will resume from there.`
+                    : chapters.length > 0
+                      ? "Audio is rendered with the selected ElevenLabs voice, with a chapter marker for each chapter."
+                      : "Audio is rendered with the selected ElevenLabs voice, with one chapter marker per paragraph."}
+              </p>
+            </>
+          )}
+
+          {exportError && <p className="text-xs text-destructive">{exportError}</p>}
+        </div>
+      )}
+
       {/* Settings panel */}
       {showSettings && (
         <div className="bg-muted/60 rounded-xl p-4 space-y-3 animate-fade-up border border-border">
           <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Settings</p>
 
-          {/* Browser voice selection */}
+          {/* Engine selection */}
+          <div className="space-y-1">
+            <label className="text-xs font-medium text-foreground">Engine</label>
+            <div className="flex gap-1">
+              {([
+                { id: "browser" as TTSEngineId, label: "🔊 Browser (offline)" },
+                { id: "cloud"   as TTSEngineId, label: "☁️ ElevenLabs" },
+              ]).map(({ id, label }) => (
+                <button key={id} onClick={() => handleEngineChange(id)}
+                  disabled={id === "cloud" && !isOnline}
+                  className={`flex-1 text-xs px-2 py-1.5 rounded-lg font-medium transition-all disabled:opacity-50 ${
+                    engineId === id ? "bg-primary text-primary-foreground" : "bg-card text-muted-foreground hover:bg-muted border border-border"
+                  }`}
+                >{label}</button>
+              ))}
+            </div>
+          </div>
+
+          {/* Voice selection */}
           <div className="space-y-1">
             <label className="text-xs font-medium text-foreground">Voice</label>
-            <select
-              className="input-field text-xs py-2"
-              value={voiceIndex}
-              onChange={e => setVoiceIndex(Number(e.target.value))}
-            >
-              {browserVoices.length > 0 ? browserVoices.map((v, i) => (
-                <option key={i} value={i}>{v.label}</option>
-              )) : (
-                <option value={0}>Default</option>
-              )}
-            </select>
+            {activeEngineId === "cloud" ? (
+              <select
+                className="input-field text-xs py-2"
+                value={cloudVoice}
+                onChange={e => setCloudVoice(e.target.value)}
+              >
+                {CLOUD_VOICES.map(v => (
+                  <option key={v.id} value={v.id}>{v.label}</option>
+                ))}
+              </select>
+            ) : (
+              <select
+                className="input-field text-xs py-2"
+                value={voiceIndex}
+                onChange={e => setVoiceIndex(Number(e.target.value))}
+              >
+                {browserVoices.length > 0 ? browserVoices.map((v, i) => (
+                  <option key={i} value={i}>{v.label}</option>
+                )) : (
+                  <option value={0}>Default</option>
+                )}
+              </select>
+            )}
           </div>
         </div>
       )}
@@ -281,44 +651,54 @@ export default function AudioPlayer({ book }: AudioPlayerProps) {
           )}
         </div>
 
-        {paragraphs.map((p, i) => {
+        {paragraphs.map((paragraph, i) => {
+          // Shown without markup; engine offsets refer to this text
+          const p = stripSsml(paragraph);
           const isActive = currentParagraph === i && (state === "playing" || state === "loading");
+          const isReading = currentParagraph === i && (state === "playing" || state === "paused");
           const isSelected = selectedParagraphs.has(i);
+          const chapterIndex = chapters.findIndex((c) => c.start === i);
 
           return (
-            <div
-              key={i}
-              className={`group flex items-start gap-2 p-2.5 rounded-xl cursor-pointer transition-all ${
-                isActive
-                  ? "bg-primary/10 border border-primary/30 shadow-sm"
-                  : isSelected
-                    ? "bg-accent border border-primary/20"
-                    : "hover:bg-muted border border-transparent"
-              }`}
-              onClick={() => toggleParagraph(i)}
-            >
-              <span className="text-xs text-muted-foreground font-mono mt-0.5 w-5 text-right shrink-0">
-                {i + 1}
-              </span>
-
-              <p className={`text-xs leading-relaxed flex-1 ${
-                isActive ? "text-primary font-medium" : "text-foreground"
-              }`}>
-                {p.length > 200 ? p.substring(0, 200) + "…" : p}
-              </p>
-
-              <button
-                onClick={(e) => { e.stopPropagation(); handlePlaySingle(i); }}
-                className={`shrink-0 w-7 h-7 rounded-lg flex items-center justify-center transition-all ${
+            <Fragment key={i}>
+              {chapterIndex >= 0 && (
+                <p className="text-xs font-semibold text-foreground pt-2 pb-1 px-1 truncate">{chapters[chapterIndex].title}</p>
+              )}
+              <div
+                className={`group flex items-start gap-2 p-2.5 rounded-xl cursor-pointer transition-all ${
                   isActive
-                    ? "bg-primary text-primary-foreground"
-                    : "opacity-0 group-hover:opacity-100 bg-primary/10 text-primary hover:bg-primary/20"
+                    ? "bg-primary/10 border border-primary/30 shadow-sm"
+                    : isSelected
+                      ? "bg-accent border border-primary/20"
+                      : "hover:bg-muted border border-transparent"
                 }`}
-                title={`Play paragraph ${i + 1}`}
+                onClick={() => toggleParagraph(i)}
               >
-                <Play className="w-3 h-3" />
-              </button>
-            </div>
+                <span className="text-xs text-muted-foreground font-mono mt-0.5 w-5 text-right shrink-0">
+                  {i + 1}
+                </span>
+
+                <p className={`text-xs leading-relaxed flex-1 ${
+                  isActive && !isReading ? "text-primary font-medium" : "text-foreground"
+                }`}>
+                  {isReading
+                    ? <ReadAlongText text={p} boundary={boundary} />
+                    : p.length > 200 ? p.substring(0, 200) + "…" : p}
+                </p>
+
+                <button
+                  onClick={(e) => { e.stopPropagation(); handlePlaySingle(i); }}
+                  className={`shrink-0 w-7 h-7 rounded-lg flex items-center justify-center transition-all ${
+                    isActive
+                      ? "bg-primary text-primary-foreground"
+                      : "opacity-0 group-hover:opacity-100 bg-primary/10 text-primary hover:bg-primary/20"
+                  }`}
+                  title={`Play paragraph ${i + 1}`}
+                >
+                  <Play className="w-3 h-3" />
+                </button>
+              </div>
+            </Fragment>
           );
         })}
       </div>
@@ -1,27 +1,40 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import {
   BookOpen, Headphones, Trash2, Calendar, Languages,
   FileText, Play, ChevronDown, ChevronUp, Search,
-  StickyNote, BarChart2, Clock, TrendingUp, CheckCircle2
+  StickyNote, BarChart2, Clock, TrendingUp, CheckCircle2, AudioLines, Pencil, History
 } from "lucide-react";
-import { AudiobookEntry, deleteBook } from "@/lib/audiobookStore";
+import { useAuth } from "@/contexts/AuthContext";
+import { AudiobookEntry, deleteBook, getRenderedParagraphs } from "@/lib/audiobookStore";
 import AudioPlayer from "@/components/AudioPlayer";
+import RevisionHistory from "@/components/dashboard/RevisionHistory";
 
 interface AudioLibraryProps {
   books: AudiobookEntry[];
   onDelete: (id: string) => void;
+  onEdit: (book: AudiobookEntry) => void;
+  onUpdate: (book: AudiobookEntry) => void;
 }
 
 function fmt(s: number) {
   return `${Math.floor(s / 60)}:${String(Math.floor(s % 60)).padStart(2, "0")}`;
 }
 
-export default function AudioLibrary({ books, onDelete }: AudioLibraryProps) {
+export default function AudioLibrary({ books, onDelete, onEdit, onUpdate }: AudioLibraryProps) {
+  const { user } = useAuth();
   const [activePlayer, setActivePlayer] = useState<string | null>(null);
+  const [rendered, setRendered] = useState<Record<string, number[]>>({});
   const [search, setSearch] = useState("");
   const [expanded, setExpanded] = useState<string | null>(null);
+  const [history, setHistory] = useState<string | null>(null);
   const [showStats, setShowStats] = useState(false);
 
+  // Refresh when a player closes, since listening renders more paragraphs
+  useEffect(() => {
+    if (!user) return;
+    getRenderedParagraphs(user.id).then(setRendered);
+  }, [user, books, activePlayer]);
+
   const filtered = books.filter(
     b =>
       b.title.toLowerCase().includes(search.toLowerCase()) ||
@@ -34,6 +47,7 @@ export default function AudioLibrary({ books, onDelete }: AudioLibraryProps) {
       onDelete(id);
       if (activePlayer === id) setActivePlayer(null);
       if (expanded === id) setExpanded(null);
+      if (history === id) setHistory(null);
     } catch (e) {
       console.error("Delete failed:", e);
     }
@@ -146,6 +160,17 @@ export default function AudioLibrary({ books, onDelete }: AudioLibraryProps) {
                     <span className="flex items-center gap-1 text-xs text-muted-foreground">
                       {book.paragraphs.length} paragraphs
                     </span>
+                    {(rendered[book.id]?.length ?? 0) > 0 && (
+                      rendered[book.id].length >= book.paragraphs.length ? (
+                        <span className="flex items-center gap-1 text-xs text-success font-medium">
+                          <CheckCircle2 className="w-3 h-3" />Audio rendered
+                        </span>
+                      ) : (
+                        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <AudioLines className="w-3 h-3" />{rendered[book.id].length}/{book.paragraphs.length} rendered
+                        </span>
+                      )
+                    )}
                   </div>
                 </div>
 
@@ -169,6 +194,24 @@ export default function AudioLibrary({ books, onDelete }: AudioLibraryProps) {
                     {expanded === book.id ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
                   </button>
 
+                  <button
+                    onClick={() => setHistory(history === book.id ? null : book.id)}
+                    title="History"
+                    className={`w-8 h-8 rounded-lg flex items-center justify-center transition-all ${
+                      history === book.id ? "bg-primary/10 text-primary" : "text-muted-foreground hover:text-foreground hover:bg-muted"
+                    }`}
+                  >
+                    <History className="w-4 h-4" />
+                  </button>
+
+                  <button
+                    onClick={() => onEdit(book)}
+                    title="Edit"
+                    className="w-8 h-8 rounded-lg flex items-center justify-center text-muted-foreground hover:text-foreground hover:bg-muted transition-all"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+
                   <button
                     onClick={() => handleDelete(book.id)}
                     className="w-8 h-8 rounded-lg flex items-center justify-center text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-all"
@@ -185,6 +228,13 @@ export default function AudioLibrary({ books, onDelete }: AudioLibraryProps) {
                 </div>
               )}
 
+              {/* Revision history */}
+              {history === book.id && (
+                <div className="border-t border-border p-4 animate-fade-up">
+                  <RevisionHistory book={book} onRestored={onUpdate} />
+                </div>
+              )}
+
               {/* Expanded text */}
               {expanded === book.id && (
                 <div className="border-t border-border p-4 animate-fade-up">
@@ -0,0 +1,231 @@
+import { useState, useRef, useEffect, useCallback } from "react";
+import {
+  Upload, FolderOpen, Loader2, CheckCircle2, AlertCircle, Clock,
+  RotateCcw, X, ChevronDown, Languages
+} from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  AudiobookEntry, saveBook, getPronunciationEntries, pronunciationDictionary
+} from "@/lib/audiobookStore";
+import { detectFormat, extractText, ACCEPTED_TYPES, ACCEPTED_MIME } from "@/lib/textExtractor";
+import { buildBook, draftFromDocument } from "@/lib/bookPipeline";
+import { LANGUAGES } from "@/lib/languages";
+
+type ItemStatus = "queued" | "extracting" | "converting" | "saving" | "done" | "error";
+
+interface QueueItem {
+  id: string;
+  file: File;
+  status: ItemStatus;
+  progress: string;
+  error?: string;
+}
+
+interface BatchImportProps {
+  onBookCreated: (book: AudiobookEntry) => void;
+}
+
+const STATUS_LABELS: Record<ItemStatus, string> = {
+  queued: "Queued",
+  extracting: "Extracting",
+  converting: "Converting",
+  saving: "Saving",
+  done: "Added to library",
+  error: "Failed",
+};
+
+export default function BatchImport({ onBookCreated }: BatchImportProps) {
+  const { user } = useAuth();
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [language, setLanguage] = useState("en");
+  const [sourceLanguage, setSourceLanguage] = useState("auto");
+  const [skipped, setSkipped] = useState(0);
+  const [dragOver, setDragOver] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const folderRef = useRef<HTMLInputElement>(null);
+  // One file is processed at a time; set while an item is in flight
+  const runningRef = useRef(false);
+
+  const enqueue = (files: File[]) => {
+    const supported = files.filter((f) => detectFormat(f));
+    setSkipped(files.length - supported.length);
+    setItems(prev => [
+      ...prev,
+      ...supported.map((file) => ({ id: crypto.randomUUID(), file, status: "queued" as const, progress: "" })),
+    ]);
+  };
+
+  const updateItem = useCallback((id: string, patch: Partial<QueueItem>) => {
+    setItems(prev => prev.map((item) => item.id === id ? { ...item, ...patch } : item));
+  }, []);
+
+  // Work through the queue in the background with the default settings
+  useEffect(() => {
+    if (!user || runningRef.current) return;
+    const item = items.find((i) => i.status === "queued");
+    if (!item) return;
+    runningRef.current = true;
+
+    const run = async (): Promise<Partial<QueueItem>> => {
+      try {
+        const format = detectFormat(item.file)!;
+        updateItem(item.id, { status: "extracting", progress: "" });
+        const doc = await extractText(item.file, format, {
+          onProgress: (done, total, stage) =>
+            updateItem(item.id, { progress: `${stage === "ocr" ? "OCR page" : "Page"} ${done} of ${total}` }),
+        });
+
+        const draft = draftFromDocument(doc, item.file);
+        if (draft.paragraphs.length === 0) throw new Error("No text found");
+
+        updateItem(item.id, { status: "converting", progress: "" });
+        const detected = doc.ocrLanguages?.length === 1 ? doc.ocrLanguages[0] : undefined;
+        // Read per file so entries added in Profile mid-queue apply to the rest
+        const dictionary = pronunciationDictionary(await getPronunciationEntries(user.id));
+        const book = await buildBook(draft, {
+          userId: user.id,
+          language,
+          sourceLanguage: sourceLanguage === "auto" && detected ? detected : sourceLanguage,
+          dictionary,
+          onProgress: (done, total) => updateItem(item.id, { progress: `${done} of ${total} batches` }),
+        });
+
+        updateItem(item.id, { status: "saving", progress: "" });
+        await saveBook(book);
+        onBookCreated(book);
+        return { status: "done", progress: "" };
+      } catch (err) {
+        return { status: "error", progress: "", error: err instanceof Error ? err.message : "Import failed" };
+      }
+    };
+
+    run().then((result) => {
+      runningRef.current = false;
+      updateItem(item.id, result);
+    });
+  }, [items, user, language, sourceLanguage, onBookCreated, updateItem]);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragOver(false);
+    enqueue(Array.from(e.dataTransfer.files));
+  };
+
+  const retry = (id: string) => updateItem(id, { status: "queued", progress: "", error: undefined });
+  const remove = (id: string) => setItems(prev => prev.filter((i) => i.id !== id));
+  const clearFinished = () => setItems(prev => prev.filter((i) => i.status !== "done"));
+
+  const doneCount = items.filter((i) => i.status === "done").length;
+  const failedCount = items.filter((i) => i.status === "error").length;
+
+  return (
+    <div className="space-y-4 animate-fade-up">
+      <div className="glass-card p-4 grid sm:grid-cols-2 gap-4">
+        <div className="space-y-1.5">
+          <label className="text-sm font-medium text-foreground">Document language</label>
+          <div className="relative">
+            <select className="input-field appearance-none pr-10" value={sourceLanguage} onChange={(e) => setSourceLanguage(e.target.value)}>
+              <option value="auto">Detect automatically</option>
+              {LANGUAGES.map((l) => <option key={l.code} value={l.code}>{l.label}</option>)}
+            </select>
+            <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground pointer-events-none" />
+          </div>
+        </div>
+        <div className="space-y-1.5">
+          <label className="text-sm font-medium text-foreground flex items-center gap-2">
+            <Languages className="w-4 h-4 text-primary" />
+            Audio language
+          </label>
+          <div className="relative">
+            <select className="input-field appearance-none pr-10" value={language} onChange={(e) => setLanguage(e.target.value)}>
+              {LANGUAGES.map((l) => <option key={l.code} value={l.code}>{l.label}</option>)}
+            </select>
+            <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground pointer-events-none" />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground sm:col-span-2">
+          Applied to each file as it starts. Every file becomes its own book using your pronunciation dictionary.
+        </p>
+      </div>
+
+      <div
+        onDrop={handleDrop}
+        onDragOver={(e) => { e.preventDefault(); setDragOver(true); }}
+        onDragLeave={() => setDragOver(false)}
+        className={`glass-card p-8 flex flex-col items-center text-center transition-all duration-200 border-2 border-dashed ${
+          dragOver ? "border-primary bg-primary/5" : "border-border"
+        }`}
+      >
+        <div className="w-14 h-14 rounded-2xl flex items-center justify-center mb-3 bg-muted text-muted-foreground">
+          <Upload className="w-6 h-6" />
+        </div>
+        <h3 className="text-base font-semibold text-foreground mb-1">Queue documents for import</h3>
+        <p className="text-sm text-muted-foreground mb-4">Drop PDF, DOCX, EPUB or TXT files, or pick a whole folder</p>
+        <div className="flex gap-2">
+          <button onClick={() => fileRef.current?.click()} className="btn-primary px-4 py-2 rounded-xl text-xs font-semibold flex items-center gap-1.5">
+            <Upload className="w-3.5 h-3.5" /> Choose files
+          </button>
+          <button onClick={() => folderRef.current?.click()}
+            className="px-4 py-2 rounded-xl text-xs font-semibold flex items-center gap-1.5 border border-border text-foreground hover:bg-accent transition-colors">
+            <FolderOpen className="w-3.5 h-3.5" /> Choose folder
+          </button>
+        </div>
+        <input ref={fileRef} type="file" multiple accept={`${ACCEPTED_TYPES},${ACCEPTED_MIME}`} className="hidden"
+          onChange={(e) => { enqueue(Array.from(e.target.files ?? [])); e.target.value = ""; }} />
+        <input ref={folderRef} type="file" multiple {...{ webkitdirectory: "" }} className="hidden"
+          onChange={(e) => { enqueue(Array.from(e.target.files ?? [])); e.target.value = ""; }} />
+        {skipped > 0 && (
+          <p className="text-xs text-muted-foreground mt-3">Skipped {skipped} unsupported file{skipped !== 1 ? "s" : ""}</p>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <div className="glass-card p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-semibold text-foreground">
+              {doneCount} of {items.length} imported{failedCount > 0 && ` · ${failedCount} failed`}
+            </p>
+            {doneCount > 0 && (
+              <button onClick={clearFinished} className="text-xs text-muted-foreground hover:text-foreground underline">
+                Clear finished
+              </button>
+            )}
+          </div>
+
+          <div className="space-y-2 max-h-96 overflow-y-auto pr-1">
+            {items.map((item) => {
+              const busy = item.status === "extracting" || item.status === "converting" || item.status === "saving";
+              return (
+                <div key={item.id} className="flex items-center gap-3 px-3 py-2 rounded-xl bg-muted">
+                  {busy && <Loader2 className="w-4 h-4 text-primary animate-spin shrink-0" />}
+                  {item.status === "queued" && <Clock className="w-4 h-4 text-muted-foreground shrink-0" />}
+                  {item.status === "done" && <CheckCircle2 className="w-4 h-4 text-success shrink-0" />}
+                  {item.status === "error" && <AlertCircle className="w-4 h-4 text-destructive shrink-0" />}
+
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-foreground truncate">{item.file.name}</p>
+                    <p className={`text-xs truncate ${item.status === "error" ? "text-destructive" : "text-muted-foreground"}`}>
+                      {item.status === "error" ? item.error : STATUS_LABELS[item.status]}
+                      {item.progress && ` · ${item.progress}`}
+                    </p>
+                  </div>
+
+                  {item.status === "error" && (
+                    <button onClick={() => retry(item.id)} className="text-muted-foreground hover:text-primary" title="Retry">
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                  )}
+                  {!busy && (
+                    <button onClick={() => remove(item.id)} className="text-muted-foreground hover:text-destructive" title="Remove">
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useRef, useState } from "react";
+import { Upload, Download, Loader2, AlertTriangle } from "lucide-react";
+import { PronunciationRule } from "@/lib/pronunciationDict";
+import {
+  ImportReview, ImportStatus, LexiconIssue, lexiconFormat, readLexicon, reviewImport, rulesToCsv, rulesToPls
+} from "@/lib/lexicon";
+
+export type ImportMode = "merge" | "overwrite";
+
+interface LexiconTransferProps {
+  /** Entries that are exported, and that imports are compared with */
+  entries: PronunciationRule[];
+  /** Built-in rules imports are checked against for duplicates */
+  builtIns: PronunciationRule[];
+  /** Language written into PLS exports */
+  language?: string;
+  /** Exported file name without extension */
+  fileName: string;
+  onImport: (rules: PronunciationRule[], mode: ImportMode) => void | Promise<void>;
+}
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  new: "new",
+  changed: "change an entry",
+  unchanged: "already present",
+  builtIn: "repeat a built-in",
+  overridesBuiltIn: "override a built-in",
+};
+
+const MAX_SHOWN = 20;
+
+// Rules an import adds: repeats of built-ins never do anything, and merging skips what is already there
+function rulesToImport(reviews: ImportReview[], mode: ImportMode): PronunciationRule[] {
+  return reviews
+    .filter((r) => r.status !== "builtIn" && (mode === "overwrite" || r.status !== "unchanged"))
+    .map((r) => r.rule);
+}
+
+function download(content: string, type: string, name: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement("a");
+  a.href = url; a.download = name; a.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function LexiconTransfer({ entries, builtIns, language, fileName, onImport }: LexiconTransferProps) {
+  const [pending, setPending] = useState<{ name: string; reviews: ImportReview[]; issues: LexiconIssue[] } | null>(null);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    setMessage("");
+    setError("");
+    const format = lexiconFormat(file.name);
+    if (!format) {
+      setError("Choose a .csv file or a .pls lexicon");
+      return;
+    }
+    const { rules, issues } = readLexicon(format, await file.text());
+    if (rules.length === 0 && issues.length === 0) {
+      setError(`${file.name} has no entries`);
+      return;
+    }
+    setPending({ name: file.name, reviews: reviewImport(rules, entries, builtIns), issues });
+    setMode("merge");
+  };
+
+  const handleImport = async () => {
+    if (!pending) return;
+    const rules = rulesToImport(pending.reviews, mode);
+    setBusy(true);
+    try {
+      await onImport(rules, mode);
+      setMessage(mode === "overwrite"
+        ? `Replaced the dictionary with ${rules.length} entries from ${pending.name}`
+        : `Imported ${rules.length} entries from ${pending.name}`);
+      setPending(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExportPls = () => {
+    const { xml, skipped } = rulesToPls(entries, language);
+    download(xml, "application/pls+xml", `${fileName}.pls`);
+    setMessage(skipped > 0
+      ? `${skipped} pattern, substring or context rule${skipped !== 1 ? "s" : ""} can't be written as PLS and ${skipped !== 1 ? "were" : "was"} left out; export CSV to keep them`
+      : "");
+  };
+
+  const counts = pending?.reviews.reduce((acc, r) => ({ ...acc, [r.status]: (acc[r.status] ?? 0) + 1 }), {} as Partial<Record<ImportStatus, number>>);
+  const notable = pending?.reviews.filter((r) => r.status === "changed" || r.status === "overridesBuiltIn") ?? [];
+  const importCount = pending ? rulesToImport(pending.reviews, mode).length : 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.pls,.xml,text/csv,application/pls+xml"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) handleFile(file);
+          }}
+        />
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="text-xs px-2.5 py-1.5 rounded-lg font-medium bg-card text-foreground hover:bg-muted border border-border flex items-center gap-1.5"
+        >
+          <Upload className="w-3.5 h-3.5" />Import CSV / PLS
+        </button>
+        <button
+          onClick={() => download(rulesToCsv(entries), "text/csv;charset=utf-8", `${fileName}.csv`)}
+          disabled={entries.length === 0}
+          className="text-xs px-2.5 py-1.5 rounded-lg font-medium bg-card text-foreground hover:bg-muted border border-border flex items-center gap-1.5 disabled:opacity-50"
+        >
+          <Download className="w-3.5 h-3.5" />CSV
+        </button>
+        <button
+          onClick={handleExportPls}
+          disabled={entries.length === 0}
+          className="text-xs px-2.5 py-1.5 rounded-lg font-medium bg-card text-foreground hover:bg-muted border border-border flex items-center gap-1.5 disabled:opacity-50"
+        >
+          <Download className="w-3.5 h-3.5" />PLS
+        </button>
+      </div>
+
+      {message && <p className="text-xs text-muted-foreground">{message}</p>}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      {pending && counts && (
+        <div className="bg-muted rounded-xl p-3 space-y-2">
+          <p className="text-xs font-medium text-foreground">
+            {pending.name}: {pending.reviews.length} entr{pending.reviews.length !== 1 ? "ies" : "y"}
+            {pending.reviews.length > 0 && ` (${(Object.keys(STATUS_LABELS) as ImportStatus[])
+              .filter((s) => counts[s])
+              .map((s) => `${counts[s]} ${STATUS_LABELS[s]}`)
+              .join(", ")})`}
+          </p>
+
+          {notable.length > 0 && (
+            <div className="space-y-0.5 max-h-32 overflow-y-auto pr-1">
+              {notable.slice(0, MAX_SHOWN).map(({ rule, status, previous }, i) => (
+                <p key={i} className="text-xs">
+                  <span className="text-foreground font-medium">{rule.term}</span>
+                  <span className="text-muted-foreground"> · </span>
+                  <span className="line-through text-muted-foreground">{previous}</span>
+                  {" → "}
+                  <span className="text-foreground">{rule.replacement}</span>
+                  {status === "overridesBuiltIn" && <span className="text-muted-foreground"> (built-in)</span>}
+                </p>
+              ))}
+              {notable.length > MAX_SHOWN && <p className="text-xs text-muted-foreground">+{notable.length - MAX_SHOWN} more</p>}
+            </div>
+          )}
+
+          {pending.issues.length > 0 && (
+            <div className="space-y-0.5 max-h-32 overflow-y-auto pr-1">
+              {pending.issues.slice(0, MAX_SHOWN).map((issue, i) => (
+                <p key={i} className="text-xs text-destructive flex items-start gap-1.5">
+                  <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                  <span><span className="font-medium">{issue.at}:</span> {issue.message}</span>
+                </p>
+              ))}
+              {pending.issues.length > MAX_SHOWN && (
+                <p className="text-xs text-muted-foreground">+{pending.issues.length - MAX_SHOWN} more problems</p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+              <input type="radio" checked={mode === "merge"} onChange={() => setMode("merge")} className="accent-primary" />
+              Merge: add new entries and update changed ones
+            </label>
+            <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+              <input type="radio" checked={mode === "overwrite"} onChange={() => setMode("overwrite")} className="accent-primary" />
+              Overwrite: replace all {entries.length} current entr{entries.length !== 1 ? "ies" : "y"} with the file
+            </label>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleImport}
+              disabled={busy || (mode === "merge" && importCount === 0)}
+              className="btn-primary px-3 py-1.5 rounded-lg text-xs font-semibold disabled:opacity-50 flex items-center gap-1.5"
+            >
+              {busy && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+              {mode === "overwrite" ? `Replace with ${importCount}` : `Import ${importCount}`}
+            </button>
+            <button
+              onClick={() => setPending(null)}
+              disabled={busy}
+              className="text-xs px-3 py-1.5 rounded-lg font-medium text-muted-foreground hover:text-foreground"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { User, Mail, Calendar, BookOpen, Loader2, CheckCircle2 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import PronunciationManager from "@/components/dashboard/PronunciationManager";
 
 export default function Profile() {
   const { user, logout } = useAuth();
@@ -125,6 +126,9 @@ export default function Profile() {
         </button>
       </div>
 
+      {/* Pronunciation dictionary */}
+      <PronunciationManager />
+
       {/* Sign out */}
       <div className="glass-card p-6 border border-destructive/20">
         <h4 className="font-semibold text-foreground mb-1">Sign out</h4>
@@ -0,0 +1,184 @@
+import { useState, useEffect } from "react";
+import { BookOpen, Loader2, Pencil, Trash2, Check, X, Search } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  PronunciationEntry, getPronunciationEntries, savePronunciationEntry, savePronunciationEntries,
+  setUserPronunciations, updatePronunciationEntry, deletePronunciationEntry
+} from "@/lib/audiobookStore";
+import { DEFAULT_DICTIONARIES, PronunciationRule, defaultRules, ruleKey, ruleTags } from "@/lib/pronunciationDict";
+import RuleForm from "@/components/dashboard/RuleForm";
+import LexiconTransfer, { ImportMode } from "@/components/dashboard/LexiconTransfer";
+
+// The dictionary applies to books in any language, so imports are checked against every built-in set
+const BUILT_IN_RULES = Object.keys(DEFAULT_DICTIONARIES).flatMap(defaultRules);
+
+const byTerm = (a: PronunciationEntry, b: PronunciationEntry) => a.term.localeCompare(b.term);
+
+export default function PronunciationManager() {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<PronunciationEntry[] | null>(null);
+  const [search, setSearch] = useState("");
+  const [editing, setEditing] = useState<{ id: string; term: string; replacement: string } | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!user) return;
+    getPronunciationEntries(user.id).then(setEntries);
+  }, [user]);
+
+  const shared = (entries ?? []).filter((e) => e.audiobookId === null);
+  const overrideBooks = new Set((entries ?? []).filter((e) => e.audiobookId !== null).map((e) => e.audiobookId)).size;
+  const overrideCount = (entries ?? []).length - shared.length;
+  const visible = shared.filter((e) =>
+    `${e.term} ${e.replacement}`.toLowerCase().includes(search.toLowerCase())
+  );
+
+  const run = async (action: () => Promise<void>) => {
+    setError("");
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    }
+  };
+
+  const handleAdd = (rule: PronunciationRule) => run(async () => {
+    if (!user) return;
+    const entry = await savePronunciationEntry(user.id, rule);
+    setEntries(prev => [...(prev ?? []).filter((e) => e.id !== entry.id), entry].sort(byTerm));
+  });
+
+  // Errors are shown by LexiconTransfer
+  const handleImport = async (rules: PronunciationRule[], mode: ImportMode) => {
+    if (!user) return;
+    const saved = mode === "overwrite"
+      ? await setUserPronunciations(user.id, rules)
+      : await savePronunciationEntries(user.id, rules);
+    const savedIds = new Set(saved.map((e) => e.id));
+    setEntries(prev => [
+      ...(prev ?? []).filter((e) => e.audiobookId !== null || (mode === "merge" && !savedIds.has(e.id))),
+      ...saved,
+    ].sort(byTerm));
+  };
+
+  const handleSaveEdit = () => run(async () => {
+    if (!editing) return;
+    const patch = { term: editing.term.trim(), replacement: editing.replacement.trim() };
+    await updatePronunciationEntry(editing.id, patch);
+    setEntries(prev => (prev ?? []).map((e) => e.id === editing.id ? { ...e, ...patch } : e));
+    setEditing(null);
+  });
+
+  const handleDelete = (id: string) => run(async () => {
+    await deletePronunciationEntry(id);
+    setEntries(prev => (prev ?? []).filter((e) => e.id !== id));
+  });
+
+  return (
+    <div className="glass-card p-6 space-y-4">
+      <div>
+        <h4 className="font-semibold text-foreground flex items-center gap-2">
+          <BookOpen className="w-4 h-4 text-primary" />
+          Pronunciation Dictionary
+        </h4>
+        <p className="text-xs text-muted-foreground mt-1">
+          Applied automatically to every new book, on top of the built-in corrections for the book's language.
+          {overrideCount > 0 && ` ${overrideCount} per-book override${overrideCount !== 1 ? "s" : ""} in ${overrideBooks} book${overrideBooks !== 1 ? "s" : ""} are edited from each book's editor.`}
+        </p>
+      </div>
+
+      <RuleForm onAdd={handleAdd} isDuplicate={(rule) => shared.some((e) => ruleKey(e) === ruleKey(rule))} />
+
+      {entries !== null && (
+        <LexiconTransfer
+          entries={shared}
+          builtIns={BUILT_IN_RULES}
+          fileName="pronunciation-dictionary"
+          onImport={handleImport}
+        />
+      )}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      {entries === null ? (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="w-3.5 h-3.5 animate-spin" />Loading…
+        </div>
+      ) : shared.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No entries yet.</p>
+      ) : (
+        <>
+          {shared.length > 8 && (
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
+              <input
+                type="text"
+                placeholder="Search entries…"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="input-field pl-9 py-2 text-sm"
+              />
+            </div>
+          )}
+          <div className="space-y-1.5 max-h-72 overflow-y-auto pr-1">
+            {visible.map((entry) => editing?.id === entry.id ? (
+              <div key={entry.id} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={editing.term}
+                  onChange={(e) => setEditing({ ...editing, term: e.target.value })}
+                  className="input-field flex-1 py-1.5 text-sm"
+                />
+                <input
+                  type="text"
+                  value={editing.replacement}
+                  onChange={(e) => setEditing({ ...editing, replacement: e.target.value })}
+                  className="input-field flex-1 py-1.5 text-sm"
+                />
+                <button
+                  onClick={handleSaveEdit}
+                  disabled={!editing.term.trim() || !editing.replacement.trim()}
+                  className="text-primary hover:text-primary/80 disabled:opacity-50"
+                  title="Save"
+                >
+                  <Check className="w-4 h-4" />
+                </button>
+                <button onClick={() => setEditing(null)} className="text-muted-foreground hover:text-foreground" title="Cancel">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ) : (
+              <div key={entry.id} className="group flex items-center gap-2 px-3 py-2 rounded-xl bg-muted">
+                <span className="text-sm text-foreground font-medium">{entry.term}</span>
+                <span className="text-xs text-muted-foreground">→</span>
+                <span className="text-sm text-foreground flex-1 truncate">
+                  {entry.replacement}
+                  {ruleTags(entry).length > 0 && (
+                    <span className="text-xs text-muted-foreground"> · {ruleTags(entry).join(", ")}</span>
+                  )}
+                </span>
+                {Object.values(DEFAULT_DICTIONARIES).some((d) => entry.term in d) && (
+                  <span className="text-xs text-muted-foreground">overrides built-in</span>
+                )}
+                <button
+                  onClick={() => setEditing({ id: entry.id, term: entry.term, replacement: entry.replacement })}
+                  className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground transition-opacity"
+                  title="Edit"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => handleDelete(entry.id)}
+                  className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive transition-opacity"
+                  title="Delete"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
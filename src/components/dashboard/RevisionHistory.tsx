@@ -0,0 +1,183 @@
+import { useState, useEffect, useMemo } from "react";
+import { History, Loader2, RotateCcw, GitCompare, ChevronDown } from "lucide-react";
+import { AudiobookEntry, AudiobookRevision, getRevisions, restoreRevision } from "@/lib/audiobookStore";
+import { diffParagraphs, diffStats, DiffStats } from "@/lib/revisions";
+
+interface RevisionHistoryProps {
+  book: AudiobookEntry;
+  onRestored: (book: AudiobookEntry) => void;
+}
+
+function fmtDateTime(iso: string) {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short", day: "numeric", year: "numeric", hour: "numeric", minute: "2-digit",
+  });
+}
+
+function statsLabel({ added, removed, changed }: DiffStats) {
+  const parts = [
+    changed > 0 && `${changed} changed`,
+    added > 0 && `${added} added`,
+    removed > 0 && `${removed} removed`,
+  ].filter(Boolean);
+  return parts.length > 0 ? `${parts.join(", ")} paragraph${added + removed + changed !== 1 ? "s" : ""}` : "No text changes";
+}
+
+export default function RevisionHistory({ book, onRestored }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<AudiobookRevision[] | null>(null);
+  const [compare, setCompare] = useState<{ from: string; to: string } | null>(null);
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  // Reload after every save of the book, including restores made from here
+  useEffect(() => {
+    let cancelled = false;
+    getRevisions(book.id).then((data) => {
+      if (!cancelled) setRevisions(data);
+    });
+    return () => { cancelled = true; };
+  }, [book]);
+
+  const diff = useMemo(() => {
+    if (!compare || !revisions) return null;
+    const from = revisions.find((r) => r.id === compare.from);
+    const to = revisions.find((r) => r.id === compare.to);
+    return from && to ? diffParagraphs(from.paragraphs, to.paragraphs) : null;
+  }, [compare, revisions]);
+
+  const handleRestore = async (revision: AudiobookRevision) => {
+    setRestoring(revision.id);
+    setError("");
+    try {
+      onRestored(await restoreRevision(book, revision));
+      setCompare(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Restore failed");
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  if (!revisions) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Loader2 className="w-3.5 h-3.5 animate-spin" />Loading history…
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-xs text-muted-foreground">No revisions recorded for this book yet.</p>;
+  }
+
+  const changes = diff?.filter((op) => op.type !== "equal") ?? [];
+
+  return (
+    <div className="space-y-3">
+      <p className="section-label flex items-center gap-1.5">
+        <History className="w-3.5 h-3.5" />History ({revisions.length})
+      </p>
+
+      <div className="space-y-1.5 max-h-60 overflow-y-auto pr-1">
+        {revisions.map((revision, i) => {
+          const isCurrent = i === 0;
+          const isFirst = i === revisions.length - 1;
+          const previous = revisions[i + 1];
+          const renamed = previous && previous.title !== revision.title;
+          const relanguaged = previous && previous.language !== revision.language;
+          return (
+            <div key={revision.id} className="flex items-center gap-3 px-3 py-2 rounded-xl bg-muted">
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-medium text-foreground">
+                  {fmtDateTime(revision.createdAt)}
+                  {isCurrent && <span className="ml-2 text-primary">Current</span>}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {isFirst ? `Created · ${revision.paragraphs.length} paragraphs` : statsLabel(diffStats(revision.changes))}
+                  {renamed && ` · renamed to “${revision.title}”`}
+                  {relanguaged && ` · ${revision.languageLabel}`}
+                </p>
+              </div>
+              {!isCurrent && (
+                <>
+                  <button
+                    onClick={() => setCompare({ from: revision.id, to: revisions[0].id })}
+                    className="text-xs text-muted-foreground hover:text-primary flex items-center gap-1"
+                    title="Compare with current"
+                  >
+                    <GitCompare className="w-3.5 h-3.5" />Compare
+                  </button>
+                  <button
+                    onClick={() => handleRestore(revision)}
+                    disabled={restoring !== null}
+                    className="text-xs text-muted-foreground hover:text-primary flex items-center gap-1 disabled:opacity-50"
+                  >
+                    {restoring === revision.id
+                      ? <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                      : <RotateCcw className="w-3.5 h-3.5" />}
+                    Restore
+                  </button>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      {compare && (
+        <div className="border border-border rounded-xl p-3 space-y-3 animate-fade-up">
+          <div className="flex items-center gap-2 flex-wrap">
+            {(["from", "to"] as const).map((side) => (
+              <div key={side} className="relative flex-1 min-w-[10rem]">
+                <select
+                  className="input-field appearance-none pr-8 py-1.5 text-xs"
+                  value={compare[side]}
+                  onChange={(e) => setCompare({ ...compare, [side]: e.target.value })}
+                >
+                  {revisions.map((r, i) => (
+                    <option key={r.id} value={r.id}>
+                      {side === "from" ? "From " : "To "}{fmtDateTime(r.createdAt)}{i === 0 ? " (current)" : ""}
+                    </option>
+                  ))}
+                </select>
+                <ChevronDown className="absolute right-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground pointer-events-none" />
+              </div>
+            ))}
+            <button onClick={() => setCompare(null)} className="text-xs text-muted-foreground hover:text-foreground underline">
+              Close
+            </button>
+          </div>
+
+          {diff && (
+            <>
+              <p className="text-xs text-muted-foreground">
+                {statsLabel(diffStats(diff))} · {diff.length - changes.length} unchanged
+              </p>
+              <div className="space-y-2 max-h-80 overflow-y-auto pr-1">
+                {changes.map((op, i) => (
+                  <div key={i} className="flex gap-2 text-xs leading-relaxed">
+                    <span className="text-muted-foreground font-mono w-16 shrink-0 text-right">
+                      {op.type === "added" ? `+${op.after + 1}` : op.type === "removed" ? `−${op.before + 1}` : `${op.before + 1}→${op.after + 1}`}
+                    </span>
+                    <div className="flex-1 min-w-0 space-y-1">
+                      {op.type !== "added" && (
+                        <p className="bg-destructive/10 text-destructive line-through rounded-lg px-2 py-1">
+                          {op.type === "changed" ? op.oldText : op.text}
+                        </p>
+                      )}
+                      {op.type !== "removed" && (
+                        <p className="bg-success/10 text-foreground rounded-lg px-2 py-1">{op.text}</p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { ChevronDown, SlidersHorizontal } from "lucide-react";
+import { MatchMode, PronunciationRule, compileDictionary, ruleError } from "@/lib/pronunciationDict";
+
+interface RuleFormProps {
+  onAdd: (rule: PronunciationRule) => void | Promise<void>;
+  /** Text the draft rule is tried on as it is typed; without it a sample box is shown */
+  paragraphs?: string[];
+  /** Whether adding the rule would replace an existing one */
+  isDuplicate?: (rule: PronunciationRule) => boolean;
+}
+
+const MODE_LABELS: Record<MatchMode, string> = {
+  word: "Whole word",
+  substring: "Anywhere, even inside words",
+  regex: "Regular expression",
+};
+
+// Characters of context shown on each side of a match in the tester
+const SNIPPET_CONTEXT = 30;
+const MAX_SHOWN_MATCHES = 20;
+
+export default function RuleForm({ onAdd, paragraphs, isDuplicate }: RuleFormProps) {
+  const [term, setTerm] = useState("");
+  const [replacement, setReplacement] = useState("");
+  const [mode, setMode] = useState<MatchMode>("word");
+  const [ignoreCase, setIgnoreCase] = useState(false);
+  const [priority, setPriority] = useState(0);
+  const [before, setBefore] = useState("");
+  const [after, setAfter] = useState("");
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [sample, setSample] = useState("");
+
+  const rule: PronunciationRule = {
+    term: mode === "regex" ? term : term.trim(),
+    replacement: replacement.trim(),
+    mode,
+    caseSensitive: !ignoreCase,
+    priority,
+    before: before || undefined,
+    after: after || undefined,
+  };
+  const error = rule.term ? ruleError(rule) : null;
+
+  // Matches of the draft rule in the book (or the sample), one entry per paragraph that has any
+  const matcher = rule.term && !error ? compileDictionary([rule]) : null;
+  const matches = matcher
+    ? (paragraphs ?? [sample])
+      .map((text, index) => ({ index, text, found: matcher.matches(text) }))
+      .filter((p) => p.found.length > 0)
+    : [];
+  const matchCount = matches.reduce((n, p) => n + p.found.length, 0);
+
+  const handleAdd = async () => {
+    await onAdd(rule);
+    setTerm("");
+    setReplacement("");
+    setBefore("");
+    setAfter("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          placeholder={mode === "regex" ? "Pattern (e.g. (\\d+)x)" : "Word (e.g. SQL)"}
+          value={term}
+          onChange={(e) => setTerm(e.target.value)}
+          className={`input-field flex-1 py-2 ${mode === "regex" ? "font-mono text-sm" : ""}`}
+        />
+        <input
+          type="text"
+          placeholder={mode === "regex" ? "Say as (e.g. $1 times)" : "Say as (e.g. sequel)"}
+          value={replacement}
+          onChange={(e) => setReplacement(e.target.value)}
+          className="input-field flex-1 py-2"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!rule.term || !rule.replacement || error !== null}
+          className="btn-primary px-3 py-2 rounded-xl text-xs font-semibold disabled:opacity-50"
+        >
+          {isDuplicate?.(rule) ? "Replace" : "Add"}
+        </button>
+      </div>
+
+      <button
+        onClick={() => setShowAdvanced(!showAdvanced)}
+        className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <SlidersHorizontal className="w-3.5 h-3.5" />
+        Matching, priority and context
+        <ChevronDown className={`w-3 h-3 transition-transform ${showAdvanced ? "rotate-180" : ""}`} />
+      </button>
+
+      {showAdvanced && (
+        <div className="grid sm:grid-cols-2 gap-2 bg-muted rounded-xl p-3">
+          <div className="relative">
+            <select
+              className="input-field appearance-none pr-8 py-1.5 text-xs"
+              value={mode}
+              onChange={(e) => setMode(e.target.value as MatchMode)}
+            >
+              {(Object.keys(MODE_LABELS) as MatchMode[]).map((m) => (
+                <option key={m} value={m}>{MODE_LABELS[m]}</option>
+              ))}
+            </select>
+            <ChevronDown className="absolute right-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground pointer-events-none" />
+          </div>
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+              <input
+                type="checkbox"
+                checked={ignoreCase}
+                onChange={(e) => setIgnoreCase(e.target.checked)}
+                className="accent-primary"
+              />
+              Ignore case
+            </label>
+            <label className="flex items-center gap-2 text-xs text-muted-foreground ml-auto">
+              Priority
+              <input
+                type="number"
+                value={priority}
+                onChange={(e) => setPriority(Number(e.target.value) || 0)}
+                className="input-field w-16 py-1.5 text-xs"
+              />
+            </label>
+          </div>
+          <input
+            type="text"
+            placeholder="Only after (pattern, e.g. \p{Lu}\p{Ll}+\s)"
+            value={before}
+            onChange={(e) => setBefore(e.target.value)}
+            className="input-field py-1.5 text-xs font-mono"
+          />
+          <input
+            type="text"
+            placeholder="Only before (pattern, e.g. \s\p{Lu})"
+            value={after}
+            onChange={(e) => setAfter(e.target.value)}
+            className="input-field py-1.5 text-xs font-mono"
+          />
+          <p className="text-xs text-muted-foreground sm:col-span-2">
+            Where rules overlap, the higher priority wins, then the longer match. Context patterns are regular
+            expressions for the text right before or after a match.
+          </p>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      {!paragraphs && (
+        <textarea
+          placeholder="Try the rule on some text…"
+          value={sample}
+          onChange={(e) => setSample(e.target.value)}
+          className="input-field min-h-[48px] text-xs resize-y"
+          rows={2}
+        />
+      )}
+
+      {rule.term && !error && (paragraphs || sample) && (
+        <div className="space-y-1.5">
+          <p className="text-xs text-muted-foreground">
+            {matchCount === 0
+              ? `No matches${paragraphs ? " in this book" : ""}`
+              : `${matchCount} match${matchCount !== 1 ? "es" : ""}${paragraphs ? ` in ${matches.length} paragraph${matches.length !== 1 ? "s" : ""}` : ""}`}
+          </p>
+          {matchCount > 0 && (
+            <div className="space-y-1 max-h-40 overflow-y-auto pr-1">
+              {matches.flatMap(({ index, text, found }) => found.map((m) => ({ index, text, m })))
+                .slice(0, MAX_SHOWN_MATCHES)
+                .map(({ index, text, m }, i) => (
+                  <div key={i} className="flex gap-2 text-xs">
+                    {paragraphs && <span className="text-muted-foreground font-mono w-6 text-right shrink-0">{index + 1}</span>}
+                    <span className="text-muted-foreground truncate">
+                      {m.index > SNIPPET_CONTEXT && "…"}
+                      {text.slice(Math.max(0, m.index - SNIPPET_CONTEXT), m.index)}
+                      <span className="line-through text-destructive">{m.text}</span>
+                      <span className="text-primary font-medium">{m.replacement}</span>
+                      {text.slice(m.index + m.text.length, m.index + m.text.length + SNIPPET_CONTEXT)}
+                      {m.index + m.text.length + SNIPPET_CONTEXT < text.length && "…"}
+                    </span>
+                  </div>
+                ))}
+              {matchCount > MAX_SHOWN_MATCHES && (
+                <p className="text-xs text-muted-foreground">+{matchCount - MAX_SHOWN_MATCHES} more</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
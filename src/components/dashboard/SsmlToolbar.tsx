@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { Timer, Volume2, Type, AudioLines } from "lucide-react";
+import {
+  SsmlMarkup, EmphasisLevel, PhonemeAlphabet, SayAsKind, BREAK_TIMES, SAY_AS_LABELS
+} from "@/lib/ssml";
+
+interface SsmlToolbarProps {
+  /** No paragraph has been focused yet, so there is nowhere to insert */
+  disabled: boolean;
+  onInsert: (markup: SsmlMarkup) => void;
+  /** Markup is dropped when the book is translated */
+  translating?: boolean;
+}
+
+const EMPHASIS_LABELS: Record<EmphasisLevel, string> = {
+  strong: "Strong",
+  moderate: "Moderate",
+  reduced: "Reduced",
+};
+
+export default function SsmlToolbar({ disabled, onInsert, translating }: SsmlToolbarProps) {
+  const [ph, setPh] = useState("");
+  const [alphabet, setAlphabet] = useState<PhonemeAlphabet>("ipa");
+
+  return (
+    <div className="space-y-1.5">
+      <div className={`flex flex-wrap items-center gap-2 bg-muted rounded-xl p-2 ${disabled ? "opacity-50" : ""}`}>
+        <label className="flex items-center gap-1.5 text-xs text-muted-foreground" title="Insert a pause at the cursor">
+          <Timer className="w-3.5 h-3.5" />
+          <select
+            disabled={disabled}
+            value=""
+            onChange={(e) => onInsert({ tag: "break", time: e.target.value })}
+            className="input-field w-auto py-1 text-xs"
+          >
+            <option value="" disabled>Pause</option>
+            {BREAK_TIMES.map((time) => <option key={time} value={time}>{time}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5 text-xs text-muted-foreground" title="Stress the selected words">
+          <Volume2 className="w-3.5 h-3.5" />
+          <select
+            disabled={disabled}
+            value=""
+            onChange={(e) => onInsert({ tag: "emphasis", level: e.target.value as EmphasisLevel })}
+            className="input-field w-auto py-1 text-xs"
+          >
+            <option value="" disabled>Emphasis</option>
+            {(Object.keys(EMPHASIS_LABELS) as EmphasisLevel[]).map((level) => (
+              <option key={level} value={level}>{EMPHASIS_LABELS[level]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5 text-xs text-muted-foreground" title="How to read the selection">
+          <Type className="w-3.5 h-3.5" />
+          <select
+            disabled={disabled}
+            value=""
+            onChange={(e) => onInsert({ tag: "say-as", interpretAs: e.target.value as SayAsKind })}
+            className="input-field w-auto py-1 text-xs"
+          >
+            <option value="" disabled>Say as</option>
+            {(Object.keys(SAY_AS_LABELS) as SayAsKind[]).map((kind) => (
+              <option key={kind} value={kind}>{SAY_AS_LABELS[kind]}</option>
+            ))}
+          </select>
+        </label>
+        <div className="flex items-center gap-1.5 ml-auto" title="Pronounce the selection exactly as transcribed">
+          <AudioLines className="w-3.5 h-3.5 text-muted-foreground" />
+          <input
+            type="text"
+            placeholder={alphabet === "ipa" ? "Phonemes (e.g. təˈmɑːtoʊ)" : "Phonemes (e.g. T AH0 M AA1 T OW2)"}
+            value={ph}
+            onChange={(e) => setPh(e.target.value)}
+            className="input-field w-44 py-1 text-xs font-mono"
+          />
+          <select
+            value={alphabet}
+            onChange={(e) => setAlphabet(e.target.value as PhonemeAlphabet)}
+            className="input-field w-auto py-1 text-xs"
+          >
+            <option value="ipa">IPA</option>
+            <option value="cmu-arpabet">CMU</option>
+          </select>
+          <button
+            disabled={disabled || !ph.trim()}
+            onClick={() => {
+              onInsert({ tag: "phoneme", ph: ph.trim(), alphabet });
+              setPh("");
+            }}
+            className="btn-primary px-2.5 py-1 rounded-lg text-xs font-semibold disabled:opacity-50"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {disabled
+          ? "Click into a paragraph to add pauses, emphasis and pronunciation hints."
+          : "Emphasis, say-as and phonemes apply to the selection, or the word at the cursor."}
+        {" "}The cloud voice reads pauses, phonemes (English books) and letter or digit spelling; the browser voice
+        only pauses.
+        {translating && " Markup is dropped when the book is translated."}
+      </p>
+    </div>
+  );
+}
@@ -1,115 +1,325 @@
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useMemo, useEffect } from "react";
 import {
   Upload, FileText, Languages, Loader2, CheckCircle2,
-  AlertCircle, ChevronDown, Sparkles, Image, FileType, Edit3, BookOpen
+  AlertCircle, ChevronDown, Sparkles, Image, FileType, Edit3, BookOpen, Eraser,
+  ScanText, AlertTriangle, Images, ChevronLeft, ChevronRight, Hash
 } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
-import { AudiobookEntry, saveBook } from "@/lib/audiobookStore";
-import { detectFormat, extractText, ACCEPTED_TYPES, ACCEPTED_MIME, SupportedFormat } from "@/lib/textExtractor";
-import { smartSplitParagraphs, applyDictionary, DEFAULT_DICTIONARY } from "@/lib/pronunciationDict";
-
-const LANGUAGES = [
-  { code: "en", label: "English" },
-  { code: "hi", label: "Hindi" },
-  { code: "ta", label: "Tamil" },
-  { code: "te", label: "Telugu" },
-  { code: "bn", label: "Bengali" },
-  { code: "mr", label: "Marathi" },
-  { code: "gu", label: "Gujarati" },
-  { code: "kn", label: "Kannada" },
-  { code: "ml", label: "Malayalam" },
-  { code: "pa", label: "Punjabi" },
-  { code: "ur", label: "Urdu" },
-  { code: "es", label: "Spanish" },
-  { code: "fr", label: "French" },
-  { code: "de", label: "German" },
-  { code: "it", label: "Italian" },
-  { code: "pt", label: "Portuguese" },
-  { code: "ru", label: "Russian" },
-  { code: "zh", label: "Chinese (Simplified)" },
-  { code: "ja", label: "Japanese" },
-  { code: "ar", label: "Arabic" },
-  { code: "ko", label: "Korean" },
-  { code: "nl", label: "Dutch" },
-  { code: "pl", label: "Polish" },
-  { code: "tr", label: "Turkish" },
-];
-
-type Step = "upload" | "extracting" | "configure" | "edit" | "processing" | "done" | "error";
+import {
+  AudiobookEntry, saveBook, updateBook, getPronunciationEntries, savePronunciationEntry, savePronunciationEntries,
+  setUserPronunciations, setBookPronunciations, pronunciationDictionary
+} from "@/lib/audiobookStore";
+import {
+  detectFormat, extractText, extractImages, joinPages, locateParagraphPages,
+  ACCEPTED_TYPES, ACCEPTED_MIME, SupportedFormat, ExtractedDocument,
+} from "@/lib/textExtractor";
+import {
+  smartSplitParagraphs, defaultDictionary, defaultRules, PronunciationRule, mergeRules, ruleKey, ruleTags
+} from "@/lib/pronunciationDict";
+import { detectLanguage } from "@/lib/languageDetect";
+import { LANGUAGES } from "@/lib/languages";
+import { OCR_LANGUAGE_CODES } from "@/lib/ocr";
+import { buildBook, titleFromFileName } from "@/lib/bookPipeline";
+import { normalizeWithChanges, NormalizationChange } from "@/lib/textNormalizer";
+import RuleForm from "@/components/dashboard/RuleForm";
+import LexiconTransfer, { ImportMode } from "@/components/dashboard/LexiconTransfer";
+import SsmlToolbar from "@/components/dashboard/SsmlToolbar";
+import { SsmlMarkup, insertSsml, mapSsmlText, ssmlError, stripSsml } from "@/lib/ssml";
+import { wordAt } from "@/lib/textSegments";
+import {
+  BookChapter, PageChapter, sectionsToParagraphs, chaptersFromPages, removeParagraphFromChapters
+} from "@/lib/chapters";
+import { cleanPages, StrippedLine } from "@/lib/textCleanup";
+
+// Paragraphs from OCR'd pages below this mean confidence are flagged for review
+const LOW_OCR_CONFIDENCE = 70;
+
+type Step = "upload" | "arrange" | "extracting" | "configure" | "edit" | "processing" | "done" | "error";
 
 interface UploadSectionProps {
   onBookCreated: (book: AudiobookEntry) => void;
+  /** A saved book to reopen in the editor instead of starting from an upload */
+  editingBook?: AudiobookEntry;
+  onBookUpdated?: (book: AudiobookEntry) => void;
+  onCancelEdit?: () => void;
 }
 
 const FORMAT_LABELS: Record<SupportedFormat, { icon: typeof FileText; label: string }> = {
   pdf:   { icon: FileText, label: "PDF Document" },
   docx:  { icon: FileType, label: "Word Document" },
+  epub:  { icon: BookOpen, label: "EPUB Book" },
   txt:   { icon: FileText, label: "Text File" },
   image: { icon: Image,    label: "Image (OCR)" },
 };
 
-export default function UploadSection({ onBookCreated }: UploadSectionProps) {
+export default function UploadSection({ onBookCreated, editingBook, onBookUpdated, onCancelEdit }: UploadSectionProps) {
   const { user } = useAuth();
   const [file, setFile] = useState<File | null>(null);
+  const [imageFiles, setImageFiles] = useState<File[]>([]);
   const [format, setFormat] = useState<SupportedFormat | null>(null);
-  const [step, setStep] = useState<Step>("upload");
-  const [extractedText, setExtractedText] = useState("");
-  const [paragraphs, setParagraphs] = useState<string[]>([]);
-  const [language, setLanguage] = useState("en");
-  const [title, setTitle] = useState("");
+  const [step, setStep] = useState<Step>(editingBook ? "configure" : "upload");
+  const [extractedText, setExtractedText] = useState(editingBook?.translatedText ?? "");
+  const [paragraphs, setParagraphs] = useState<string[]>(editingBook?.paragraphs ?? []);
+  const [chapters, setChapters] = useState<BookChapter[]>(editingBook?.chapters ?? []);
+  const [pages, setPages] = useState<string[]>([]);
+  const [cleanedPages, setCleanedPages] = useState<string[]>([]);
+  const [stripped, setStripped] = useState<StrippedLine[]>([]);
+  const [stripFurniture, setStripFurniture] = useState(true);
+  const [showStripped, setShowStripped] = useState(false);
+  const [pageRange, setPageRange] = useState({ from: 1, to: 1 });
+  const [ocrLanguages, setOcrLanguages] = useState<string[]>([]);
+  const [pageConfidence, setPageConfidence] = useState<(number | null)[]>([]);
+  const [paragraphPages, setParagraphPages] = useState<number[]>([]);
+  const [pageChapters, setPageChapters] = useState<PageChapter[]>([]);
+  // A saved book's paragraphs are already in its language; choosing another translates them
+  const [language, setLanguage] = useState(editingBook?.language ?? "en");
+  const [sourceLanguage, setSourceLanguage] = useState(editingBook?.language ?? "auto");
+  const [title, setTitle] = useState(editingBook?.title ?? "");
   const [error, setError] = useState("");
   const [dragOver, setDragOver] = useState(false);
   const [extractProgress, setExtractProgress] = useState("");
+  const [processProgress, setProcessProgress] = useState<{ done: number; total: number } | null>(null);
   const [showDict, setShowDict] = useState(false);
-  const [customDict, setCustomDict] = useState<Record<string, string>>({});
-  const [newDictKey, setNewDictKey] = useState("");
-  const [newDictVal, setNewDictVal] = useState("");
+  // The user's saved dictionary applies to every book; customDict holds this book's overrides
+  const [userDict, setUserDict] = useState<PronunciationRule[]>([]);
+  const [customDict, setCustomDict] = useState<PronunciationRule[]>([]);
+  const [saveToUserDict, setSaveToUserDict] = useState(false);
+  const [normalize, setNormalize] = useState(true);
+  const [showNormalization, setShowNormalization] = useState(false);
+  // Paragraph the SSML toolbar inserts into, and its textarea for the selection
+  const [activeParagraph, setActiveParagraph] = useState<number | null>(null);
+  const editorRef = useRef<HTMLTextAreaElement | null>(null);
   const fileRef = useRef<HTMLInputElement>(null);
+  const dragIndexRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    getPronunciationEntries(user.id).then((entries) => {
+      setUserDict(pronunciationDictionary(entries));
+      if (editingBook) {
+        setCustomDict(entries.filter((e) => e.audiobookId === editingBook.id));
+      }
+    });
+  }, [user, editingBook]);
+
+  // What "Detect automatically" resolves to; buildBook makes the same call, and translates when it can't tell
+  const detectedLanguage = useMemo(
+    () => sourceLanguage === "auto" ? detectLanguage(extractedText) : null, [sourceLanguage, extractedText]
+  );
+  const translating = (sourceLanguage === "auto" ? detectedLanguage : sourceLanguage) !== language;
+
+  // Only computed while the preview is open; it re-runs on every paragraph edit. Markup and paragraphs
+  // left as saved are skipped as in buildBook
+  const normalizationPreview = useMemo(() => {
+    if (!showNormalization) return [];
+    const unchanged = new Set(sourceLanguage === language ? editingBook?.paragraphs : []);
+    return paragraphs
+      .map((p, index) => {
+        const changes: NormalizationChange[] = [];
+        if (unchanged.has(p)) return { index, changes };
+        mapSsmlText(p, (plain) => {
+          const result = normalizeWithChanges(plain, language);
+          changes.push(...result.changes);
+          return result.text;
+        });
+        return { index, changes };
+      })
+      .filter((p) => p.changes.length > 0);
+  }, [showNormalization, paragraphs, language, sourceLanguage, editingBook]);
+
+  const thumbnails = useMemo(() => imageFiles.map((f) => URL.createObjectURL(f)), [imageFiles]);
+  useEffect(() => () => thumbnails.forEach((url) => URL.revokeObjectURL(url)), [thumbnails]);
+
+  // Rebuild text and paragraphs from the selected pages, with or without headers, footers and page numbers
+  const applyPages = (
+    raw: string[], cleaned: string[], range: { from: number; to: number }, strip: boolean, onPages: PageChapter[]
+  ) => {
+    const selected = (strip ? cleaned : raw).slice(range.from - 1, range.to);
+    const text = joinPages(selected);
+    const split = smartSplitParagraphs(text);
+    const located = locateParagraphPages(split, selected).map((page) => page + range.from - 1);
+    setExtractedText(text);
+    setParagraphs(split);
+    setChapters(chaptersFromPages(onPages, located));
+    setParagraphPages(located);
+  };
+
+  // Show an extracted document in the configure step
+  const loadDocument = (doc: ExtractedDocument) => {
+    setExtractedText(doc.text);
+    setChapters([]);
+    setParagraphPages([]);
+    setPageConfidence(doc.pageConfidence ?? []);
+    if (doc.ocrLanguages?.length === 1) setSourceLanguage(doc.ocrLanguages[0]);
+    // PDF pages and OCR output carry page furniture
+    const paged = doc.pages ?? [];
+    const cleanup = cleanPages(paged);
+    const onPages = doc.pageChapters ?? [];
+    setPages(paged);
+    setCleanedPages(cleanup.pages);
+    setStripped(cleanup.removed);
+    setStripFurniture(true);
+    setPageChapters(onPages);
+    setPageRange({ from: 1, to: paged.length || 1 });
+    if (doc.sections?.length) {
+      const split = sectionsToParagraphs(doc.sections);
+      setParagraphs(split.paragraphs);
+      setChapters(split.chapters);
+    } else if (paged.length > 0) {
+      applyPages(paged, cleanup.pages, { from: 1, to: paged.length }, true, onPages);
+    } else {
+      setParagraphs(smartSplitParagraphs(doc.text));
+    }
+    setStep("configure");
+  };
 
-  const handleFile = useCallback(async (f: File) => {
+  const handleFile = async (f: File) => {
     const fmt = detectFormat(f);
     if (!fmt) {
-      setError("Unsupported file type. Please upload PDF, DOCX, TXT, or an image.");
+      setError("Unsupported file type. Please upload PDF, DOCX, EPUB, TXT, or an image.");
       return;
     }
     setFile(f);
     setFormat(fmt);
-    setTitle(f.name.replace(/\.(pdf|docx|txt|png|jpe?g|gif|bmp|webp|tiff?)$/i, "").replace(/_/g, " "));
+    setTitle(titleFromFileName(f.name));
     setError("");
     setStep("extracting");
-    setExtractProgress(fmt === "image" ? "Running OCR on image…" : `Extracting text from ${fmt.toUpperCase()}…`);
+    setExtractProgress(fmt !== "image"
+      ? `Extracting text from ${fmt.toUpperCase()}…`
+      : ocrLanguages.length > 0 ? "Running OCR on image…" : "Detecting script and running OCR…");
 
     try {
-      const text = await extractText(f, fmt);
-      setExtractedText(text);
-      setParagraphs(smartSplitParagraphs(text));
-      setStep("configure");
+      const doc = await extractText(f, fmt, {
+        onProgress: (done, total, stage) =>
+          setExtractProgress(`${stage === "ocr" ? "Running OCR on" : "Extracting"} page ${done} of ${total}…`),
+        ocrLanguages,
+      });
+      loadDocument(doc);
     } catch (err: any) {
       setError(err.message || "Failed to extract text");
       setStep("error");
     }
-  }, []);
+  };
+
+  // Several files are combined into one book when they are all page images
+  const handleFiles = (list: File[]) => {
+    if (list.length <= 1) {
+      if (list[0]) handleFile(list[0]);
+      return;
+    }
+    if (!list.every((f) => detectFormat(f) === "image")) {
+      setError("Multiple files can only be combined into one book when they are all images.");
+      return;
+    }
+    setError("");
+    setImageFiles([...list].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true })));
+    setStep("arrange");
+  };
+
+  const moveImage = (from: number, to: number) => {
+    if (from === to || to < 0 || to >= imageFiles.length) return;
+    setImageFiles(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  const handleImageBatch = async () => {
+    const first = imageFiles[0];
+    setFile(first);
+    setFormat("image");
+    setTitle(titleFromFileName(first.name));
+    setError("");
+    setStep("extracting");
+    setExtractProgress(`Running OCR on ${imageFiles.length} pages…`);
+
+    try {
+      const doc = await extractImages(imageFiles, {
+        onProgress: (done, total) => setExtractProgress(`Running OCR… ${done} of ${total} pages`),
+        ocrLanguages,
+      });
+      loadDocument(doc);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to extract text");
+      setStep("error");
+    }
+  };
+
+  // Applied on blur so partially typed numbers are not clamped mid-edit
+  const handlePageRangeChange = (range: { from: number; to: number }) => {
+    const from = Math.min(Math.max(1, range.from || 1), pages.length);
+    const to = Math.min(Math.max(from, range.to || from), pages.length);
+    setPageRange({ from, to });
+    applyPages(pages, cleanedPages, { from, to }, stripFurniture, pageChapters);
+  };
+
+  const handleStripToggle = (strip: boolean) => {
+    setStripFurniture(strip);
+    applyPages(pages, cleanedPages, pageRange, strip, pageChapters);
+  };
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setDragOver(false);
-    const f = e.dataTransfer.files[0];
-    if (f) handleFile(f);
+    handleFiles(Array.from(e.dataTransfer.files));
   };
 
   const handleParagraphChange = (index: number, value: string) => {
     setParagraphs(prev => prev.map((p, i) => i === index ? value : p));
   };
 
+  // Markup goes into the paragraph focused last, around its selection or the word at the cursor
+  const insertMarkup = (markup: SsmlMarkup) => {
+    const editor = editorRef.current;
+    if (activeParagraph === null || !editor) return;
+    const text = paragraphs[activeParagraph];
+    let { selectionStart: start, selectionEnd: end } = editor;
+    if (start === end && markup.tag !== "break") {
+      const word = wordAt(text, start) ?? wordAt(text, start - 1);
+      if (word) ({ start, end } = word);
+    }
+    const result = insertSsml(text, start, end, markup);
+    handleParagraphChange(activeParagraph, result.text);
+    requestAnimationFrame(() => {
+      editor.focus();
+      editor.setSelectionRange(result.cursor, result.cursor);
+    });
+  };
+
   const removeParagraph = (index: number) => {
+    setActiveParagraph(null);
+    setChapters(prev => removeParagraphFromChapters(prev, index, paragraphs.length));
+    setParagraphPages(prev => prev.filter((_, i) => i !== index));
     setParagraphs(prev => prev.filter((_, i) => i !== index));
   };
 
-  const addDictEntry = () => {
-    if (newDictKey.trim() && newDictVal.trim()) {
-      setCustomDict(prev => ({ ...prev, [newDictKey.trim()]: newDictVal.trim() }));
-      setNewDictKey("");
-      setNewDictVal("");
+  const handleChapterTitleChange = (index: number, value: string) => {
+    setChapters(prev => prev.map((c, i) => i === index ? { ...c, title: value } : c));
+  };
+
+  const addRule = async (rule: PronunciationRule) => {
+    if (saveToUserDict && user) {
+      try {
+        await savePronunciationEntry(user.id, rule);
+        setUserDict(prev => mergeRules(prev, [rule]));
+      } catch (err) {
+        console.error("Saving dictionary entry failed:", err);
+      }
+    } else {
+      setCustomDict(prev => mergeRules(prev, [rule]));
+    }
+  };
+
+  // Imports go where added rules go: the user's dictionary or this book's overrides
+  const importRules = async (rules: PronunciationRule[], mode: ImportMode) => {
+    if (saveToUserDict && user) {
+      if (mode === "overwrite") await setUserPronunciations(user.id, rules);
+      else await savePronunciationEntries(user.id, rules);
+      setUserDict(prev => mode === "overwrite" ? rules : mergeRules(prev, rules));
+    } else {
+      setCustomDict(prev => mode === "overwrite" ? rules : mergeRules(prev, rules));
     }
   };
 
@@ -118,40 +328,49 @@ export default function UploadSection({ onBookCreated }: UploadSectionProps) {
     setStep("processing");
 
     try {
-      const finalText = paragraphs.join("\n\n");
-      const correctedText = applyDictionary(finalText, customDict);
-
-      await new Promise((r) => setTimeout(r, 800));
-      const selectedLang = LANGUAGES.find((l) => l.code === language)!;
-
-      const book: AudiobookEntry = {
-        id: crypto.randomUUID(),
+      const source = editingBook
+        ? { sourceName: editingBook.pdfName, sourceSize: editingBook.pdfSize, originalText: editingBook.originalText }
+        : {
+          sourceName: imageFiles.length > 1 ? `${file!.name} + ${imageFiles.length - 1} more` : file!.name,
+          sourceSize: imageFiles.length > 1 ? imageFiles.reduce((n, f) => n + f.size, 0) : file!.size,
+          originalText: extractedText,
+        };
+      const book = await buildBook({ title, ...source, paragraphs, chapters }, {
         userId: user.id,
-        title: title || file!.name.replace(/\.[^.]+$/, ""),
-        originalText: extractedText,
-        translatedText: correctedText,
         language,
-        languageLabel: selectedLang.label,
-        pdfName: file!.name,
-        pdfSize: file!.size,
-        createdAt: new Date().toISOString(),
-        wordCount: correctedText.split(/\s+/).filter(Boolean).length,
-        paragraphs,
-      };
+        sourceLanguage,
+        dictionary: mergeRules(userDict, customDict),
+        normalize,
+        processed: editingBook?.paragraphs,
+        onProgress: (done, total) => setProcessProgress({ done, total }),
+      });
+
+      if (editingBook) {
+        const updated = { ...book, id: editingBook.id, createdAt: editingBook.createdAt };
+        // Overrides first: saving them again is harmless, but each updateBook records a revision
+        await setBookPronunciations(user.id, updated.id, customDict);
+        await updateBook(updated, editingBook.paragraphs);
+        onBookUpdated?.(updated);
+        return;
+      }
 
       await saveBook(book);
+      if (customDict.length > 0) await setBookPronunciations(user.id, book.id, customDict);
       onBookCreated(book);
       setStep("done");
     } catch (err: any) {
       setError(err.message);
       setStep("error");
+    } finally {
+      setProcessProgress(null);
     }
   };
 
   const reset = () => {
     setFile(null); setFormat(null); setStep("upload"); setExtractedText("");
-    setParagraphs([]); setLanguage("en"); setTitle(""); setError("");
-    setCustomDict({}); setShowDict(false);
+    setParagraphs([]); setChapters([]); setPages([]); setCleanedPages([]); setStripped([]); setPageConfidence([]); setImageFiles([]); setPageChapters([]); setLanguage("en"); setSourceLanguage("auto"); setTitle(""); setError("");
+    setCustomDict([]); setShowDict(false); setNormalize(true); setShowNormalization(false);
+    setActiveParagraph(null);
   };
 
   if (step === "done") {
@@ -177,7 +396,8 @@ export default function UploadSection({ onBookCreated }: UploadSectionProps) {
         </div>
         <h3 className="text-xl font-bold text-foreground mb-2">Something went wrong</h3>
         <p className="text-muted-foreground text-sm mb-6">{error}</p>
-        <button onClick={reset} className="btn-primary px-6 py-2.5 rounded-xl text-sm font-semibold">
+        {/* Keep the edits of a saved book so saving can be retried */}
+        <button onClick={editingBook ? () => setStep("configure") : reset} className="btn-primary px-6 py-2.5 rounded-xl text-sm font-semibold">
           Try Again
         </button>
       </div>
@@ -185,7 +405,14 @@ export default function UploadSection({ onBookCreated }: UploadSectionProps) {
   }
 
   if (step === "extracting" || step === "processing") {
-    const msg = step === "extracting" ? extractProgress : "Processing audiobook…";
+    const msg = step === "extracting"
+      ? extractProgress
+      : processProgress && processProgress.total > 0
+        ? `Translating… ${processProgress.done} / ${processProgress.total} batches`
+        : editingBook ? "Saving changes…" : "Processing audiobook…";
+    const barWidth = step === "processing" && processProgress && processProgress.total > 0
+      ? `${Math.round((processProgress.done / processProgress.total) * 100)}%`
+      : "60%";
     return (
       <div className="glass-card p-10 flex flex-col items-center text-center animate-fade-up">
         <div className="w-16 h-16 bg-primary/10 rounded-2xl flex items-center justify-center mb-4 animate-pulse-soft">
@@ -193,17 +420,88 @@ export default function UploadSection({ onBookCreated }: UploadSectionProps) {
         </div>
         <h3 className="text-xl font-bold text-foreground mb-2">{msg}</h3>
         <p className="text-muted-foreground text-sm">
-          {step === "extracting" && format === "image" ? "OCR may take a moment…" : "Almost there…"}
+          {step === "extracting" && (format === "image" || extractProgress.startsWith("Running OCR"))
+            ? "OCR may take a moment…"
+            : "Almost there…"}
         </p>
         <div className="mt-6 w-64 h-1.5 bg-border rounded-full overflow-hidden">
-          <div className="h-full bg-primary rounded-full animate-pulse-soft" style={{ width: "60%" }} />
+          <div className="h-full bg-primary rounded-full animate-pulse-soft transition-all" style={{ width: barWidth }} />
         </div>
       </div>
     );
   }
 
+  // Page image ordering step
+  if (step === "arrange") {
+    return (
+      <div className="glass-card p-6 space-y-5 animate-fade-up">
+        <div className="flex items-center gap-3 pb-4 border-b border-border">
+          <div className="w-10 h-10 bg-primary/10 rounded-xl flex items-center justify-center">
+            <Images className="w-5 h-5 text-primary" />
+          </div>
+          <div>
+            <p className="font-semibold text-foreground text-sm">{imageFiles.length} page images</p>
+            <p className="text-xs text-muted-foreground">Drag thumbnails to put the pages in reading order</p>
+          </div>
+          <button onClick={reset} className="ml-auto text-xs text-muted-foreground hover:text-foreground underline">
+            Change files
+          </button>
+        </div>
+
+        <div className="flex gap-3 overflow-x-auto pb-2">
+          {imageFiles.map((f, i) => (
+            <div
+              key={thumbnails[i]}
+              draggable
+              onDragStart={() => { dragIndexRef.current = i; }}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => { if (dragIndexRef.current !== null) moveImage(dragIndexRef.current, i); dragIndexRef.current = null; }}
+              className="group relative shrink-0 w-24 cursor-grab"
+            >
+              <img src={thumbnails[i]} alt={f.name} className="w-24 h-32 object-cover rounded-lg border border-border" />
+              <span className="absolute top-1 left-1 text-[10px] font-mono bg-card/90 text-foreground px-1.5 rounded">{i + 1}</span>
+              <button
+                onClick={() => setImageFiles(prev => prev.filter((_, j) => j !== i))}
+                className="absolute top-1 right-1 opacity-0 group-hover:opacity-100 text-xs bg-card/90 text-destructive px-1.5 rounded transition-opacity"
+                title="Remove page"
+              >
+                ✕
+              </button>
+              <div className="flex justify-between mt-1">
+                <button onClick={() => moveImage(i, i - 1)} disabled={i === 0}
+                  className="text-muted-foreground hover:text-foreground disabled:opacity-30" title="Move earlier">
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                <button onClick={() => moveImage(i, i + 1)} disabled={i === imageFiles.length - 1}
+                  className="text-muted-foreground hover:text-foreground disabled:opacity-30" title="Move later">
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={handleImageBatch}
+          disabled={imageFiles.length === 0}
+          className="btn-primary w-full py-3 rounded-xl font-semibold text-sm flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          <ScanText className="w-4 h-4" />
+          Run OCR on {imageFiles.length} pages
+        </button>
+      </div>
+    );
+  }
+
   // Paragraph editing step
   if (step === "edit") {
+    const builtIn = Object.entries(defaultDictionary(language));
+    const overridden = new Set(customDict.map(ruleKey));
+    const strippedInRange = stripped.filter((l) => l.page + 1 >= pageRange.from && l.page + 1 <= pageRange.to);
+    const lowConfidencePages = pageConfidence
+      .map((confidence, page) => ({ page, confidence }))
+      .filter((p) => p.confidence !== null && p.confidence < LOW_OCR_CONFIDENCE);
+
     return (
       <div className="glass-card p-6 space-y-5 animate-fade-up">
         <div className="flex items-center justify-between pb-4 border-b border-border">
@@ -213,7 +511,9 @@ export default function UploadSection({ onBookCreated }: UploadSectionProps) {
             </div>
             <div>
               <p className="font-semibold text-foreground text-sm">Edit Paragraphs</p>
-              <p className="text-xs text-muted-foreground">{paragraphs.length} paragraphs · Edit text before conversion</p>
+              <p className="text-xs text-muted-foreground">
+                {paragraphs.length} paragraphs{chapters.length > 0 && ` · ${chapters.length} chapters`} · Edit text before conversion
+              </p>
             </div>
           </div>
           <button onClick={() => setStep("configure")} className="text-xs text-muted-foreground hover:text-foreground underline">
@@ -221,29 +521,168 @@ export default function UploadSection({ onBookCreated }: UploadSectionProps) {
           </button>
         </div>
 
-        <div className="space-y-3 max-h-96 overflow-y-auto pr-1">
-          {paragraphs.map((p, i) => (
-            <div key={i} className="group relative">
-              <div className="flex items-start gap-2">
-                <span className="text-xs text-muted-foreground font-mono mt-3 w-6 text-right shrink-0">
-                  {i + 1}
-                </span>
-                <textarea
-                  value={p}
-                  onChange={(e) => handleParagraphChange(i, e.target.value)}
-                  className="input-field min-h-[60px] text-sm leading-relaxed resize-y flex-1"
-                  rows={Math.max(2, Math.ceil(p.length / 80))}
+        {lowConfidencePages.length > 0 && (
+          <div className="flex items-start gap-2 text-xs bg-destructive/10 text-destructive px-3 py-2 rounded-xl border border-destructive/20">
+            <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+            <span>
+              Low OCR confidence on {lowConfidencePages.length === 1 ? "page" : "pages"}{" "}
+              {lowConfidencePages.map((p) => `${p.page + 1} (${Math.round(p.confidence)}%)`).join(", ")}.
+              Review the flagged paragraphs below.
+            </span>
+          </div>
+        )}
+
+        {strippedInRange.length > 0 && (
+          <div className="bg-muted rounded-xl p-3 space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <button
+                onClick={() => setShowStripped(!showStripped)}
+                className="flex items-center gap-2 text-xs font-medium text-foreground hover:text-primary transition-colors"
+              >
+                <Eraser className="w-3.5 h-3.5" />
+                {stripFurniture ? "Stripped" : "Kept"} {strippedInRange.length} headers, footers and page numbers
+                <ChevronDown className={`w-3.5 h-3.5 transition-transform ${showStripped ? "rotate-180" : ""}`} />
+              </button>
+              <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer shrink-0">
+                <input
+                  type="checkbox"
+                  checked={!stripFurniture}
+                  onChange={(e) => handleStripToggle(!e.target.checked)}
+                  className="accent-primary"
                 />
-                <button
-                  onClick={() => removeParagraph(i)}
-                  className="opacity-0 group-hover:opacity-100 text-xs text-destructive hover:text-destructive/80 mt-3 transition-opacity"
-                  title="Remove paragraph"
-                >
-                  ✕
-                </button>
+                Restore
+              </label>
+            </div>
+            {showStripped && (
+              <div className="space-y-1 max-h-32 overflow-y-auto">
+                {strippedInRange.slice(0, 200).map((line, i) => (
+                  <div key={i} className="flex gap-2 text-xs">
+                    <span className="text-muted-foreground font-mono w-14 shrink-0">p. {line.page + 1}</span>
+                    <span className={stripFurniture ? "line-through text-muted-foreground" : "text-foreground"}>{line.text}</span>
+                  </div>
+                ))}
+                {strippedInRange.length > 200 && (
+                  <p className="text-xs text-muted-foreground">+{strippedInRange.length - 200} more</p>
+                )}
+                <p className="text-xs text-muted-foreground pt-1">Toggling rebuilds the paragraphs below from the extracted text.</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        <SsmlToolbar
+          disabled={activeParagraph === null}
+          onInsert={insertMarkup}
+          translating={translating}
+        />
+
+        <div className="space-y-3 max-h-96 overflow-y-auto pr-1">
+          {paragraphs.map((p, i) => {
+            const chapterIndex = chapters.findIndex((c) => c.startParagraph === i);
+            const confidence = pageConfidence[paragraphPages[i]];
+            const lowConfidence = confidence != null && confidence < LOW_OCR_CONFIDENCE;
+            const markupError = ssmlError(p);
+            return (
+              <div key={i} className="group relative">
+                {chapterIndex >= 0 && (
+                  <div className="flex items-center gap-2 pt-2 pb-2 pl-8">
+                    <span className="section-label shrink-0">Chapter {chapterIndex + 1}</span>
+                    <input
+                      type="text"
+                      value={chapters[chapterIndex].title}
+                      onChange={(e) => handleChapterTitleChange(chapterIndex, e.target.value)}
+                      className="input-field py-1.5 text-sm font-semibold flex-1"
+                    />
+                  </div>
+                )}
+                <div className="flex items-start gap-2">
+                  <span
+                    className={`text-xs font-mono mt-3 w-6 text-right shrink-0 ${lowConfidence ? "text-destructive" : "text-muted-foreground"}`}
+                    title={lowConfidence ? `OCR confidence ${Math.round(confidence)}% on page ${paragraphPages[i] + 1} — please review` : undefined}
+                  >
+                    {lowConfidence ? <AlertTriangle className="w-3.5 h-3.5 ml-auto" /> : i + 1}
+                  </span>
+                  <div className="flex-1 space-y-1">
+                    <textarea
+                      value={p}
+                      onChange={(e) => handleParagraphChange(i, e.target.value)}
+                      onFocus={(e) => {
+                        editorRef.current = e.currentTarget;
+                        setActiveParagraph(i);
+                      }}
+                      className={`input-field min-h-[60px] text-sm leading-relaxed resize-y ${activeParagraph === i ? "ring-1 ring-primary/40" : ""}`}
+                      rows={Math.max(2, Math.ceil(p.length / 80))}
+                    />
+                    {markupError && <p className="text-xs text-destructive">{markupError}</p>}
+                  </div>
+                  <button
+                    onClick={() => removeParagraph(i)}
+                    className="opacity-0 group-hover:opacity-100 text-xs text-destructive hover:text-destructive/80 mt-3 transition-opacity"
+                    title="Remove paragraph"
+                  >
+                    ✕
+                  </button>
+                </div>
               </div>
+            );
+          })}
+        </div>
+
+        {/* Normalization section */}
+        <div className="border-t border-border pt-4">
+          <div className="flex items-center justify-between gap-3">
+            <button
+              onClick={() => setShowNormalization(!showNormalization)}
+              className="flex items-center gap-2 text-sm font-medium text-foreground hover:text-primary transition-colors"
+            >
+              <Hash className="w-4 h-4" />
+              Numbers, Dates & Units
+              <ChevronDown className={`w-3.5 h-3.5 transition-transform ${showNormalization ? "rotate-180" : ""}`} />
+            </button>
+            <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer shrink-0">
+              <input
+                type="checkbox"
+                checked={normalize}
+                onChange={(e) => setNormalize(e.target.checked)}
+                className="accent-primary"
+              />
+              Read as words
+            </label>
+          </div>
+
+          {showNormalization && (
+            <div className="mt-3 space-y-2">
+              <p className="text-xs text-muted-foreground">
+                Numbers, ordinals, dates, times, prices, Roman chapter numbers and units are rewritten the way a narrator
+                would say them in {LANGUAGES.find((l) => l.code === language)?.label ?? language}, before the
+                pronunciation dictionary.
+                {translating && " They are applied after translation, so the preview below is only a guide."}
+              </p>
+              {normalizationPreview.length > 0 ? (
+                <div className={`space-y-2 max-h-60 overflow-y-auto pr-1 ${normalize ? "" : "opacity-50"}`}>
+                  {normalizationPreview.slice(0, 100).map(({ index, changes }) => (
+                    <div key={index} className="flex gap-2 text-xs">
+                      <span className="text-muted-foreground font-mono w-6 text-right shrink-0 pt-1">{index + 1}</span>
+                      <div className="flex flex-wrap gap-1.5 flex-1 min-w-0">
+                        {changes.map((change, i) => (
+                          <span key={i} className="bg-muted px-2 py-1 rounded-lg">
+                            <span className="line-through text-muted-foreground">{change.original}</span>
+                            {" → "}
+                            <span className="text-foreground">{change.spoken}</span>
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                  {normalizationPreview.length > 100 && (
+                    <p className="text-xs text-muted-foreground">+{normalizationPreview.length - 100} more paragraphs</p>
+                  )}
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">Nothing to rewrite in this text.</p>
+              )}
             </div>
-          ))}
+          )}
         </div>
 
         {/* Dictionary section */}
@@ -260,58 +699,88 @@ export default function UploadSection({ onBookCreated }: UploadSectionProps) {
           {showDict && (
             <div className="mt-3 space-y-3">
               <p className="text-xs text-muted-foreground">
-                Add custom word replacements applied before text-to-speech conversion.
+                Word replacements applied before text-to-speech conversion. Overrides for this book win over your
+                dictionary, which wins over the built-in corrections.
               </p>
 
               {/* Built-in examples */}
               <div className="bg-muted rounded-xl p-3">
-                <p className="text-xs font-medium text-muted-foreground mb-2">Built-in corrections (sample)</p>
-                <div className="flex flex-wrap gap-1.5">
-                  {Object.entries(DEFAULT_DICTIONARY).slice(0, 8).map(([k, v]) => (
-                    <span key={k} className="text-xs bg-card px-2 py-1 rounded-lg border border-border">
-                      {k} → {v}
-                    </span>
-                  ))}
-                  <span className="text-xs text-muted-foreground py-1">+{Object.keys(DEFAULT_DICTIONARY).length - 8} more</span>
-                </div>
+                <p className="text-xs font-medium text-muted-foreground mb-2">
+                  Built-in corrections for {LANGUAGES.find((l) => l.code === language)?.label ?? language}
+                </p>
+                {builtIn.length > 0 ? (
+                  <div className="flex flex-wrap gap-1.5">
+                    {builtIn.slice(0, 8).map(([k, v]) => (
+                      <span key={k} className="text-xs bg-card px-2 py-1 rounded-lg border border-border">
+                        {k} → {v}
+                      </span>
+                    ))}
+                    {builtIn.length > 8 && (
+                      <span className="text-xs text-muted-foreground py-1">+{builtIn.length - 8} more</span>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-xs text-muted-foreground">None for this language.</p>
+                )}
               </div>
 
-              {/* Custom entries */}
-              {Object.keys(customDict).length > 0 && (
-                <div className="flex flex-wrap gap-1.5">
-                  {Object.entries(customDict).map(([k, v]) => (
-                    <span key={k} className="text-xs bg-primary/10 text-primary px-2 py-1 rounded-lg flex items-center gap-1">
-                      {k} → {v}
-                      <button onClick={() => setCustomDict(prev => { const n = { ...prev }; delete n[k]; return n; })} className="hover:text-destructive">✕</button>
+              {/* The user's saved dictionary */}
+              <div className="bg-muted rounded-xl p-3">
+                <p className="text-xs font-medium text-muted-foreground mb-2">
+                  Your dictionary ({userDict.length}) · manage it in Profile
+                </p>
+                {userDict.length > 0 ? (
+                  <div className="flex flex-wrap gap-1.5">
+                    {userDict.slice(0, 12).map((rule) => (
+                      <span key={ruleKey(rule)} className={`text-xs bg-card px-2 py-1 rounded-lg border border-border ${overridden.has(ruleKey(rule)) ? "line-through opacity-60" : ""}`}>
+                        {rule.term} → {rule.replacement}
+                        {ruleTags(rule).length > 0 && <span className="text-muted-foreground"> · {ruleTags(rule).join(", ")}</span>}
+                      </span>
+                    ))}
+                    {userDict.length > 12 && (
+                      <span className="text-xs text-muted-foreground py-1">+{userDict.length - 12} more</span>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-xs text-muted-foreground">No saved entries yet.</p>
+                )}
+              </div>
+
+              {/* Overrides for this book */}
+              {customDict.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 max-h-40 overflow-y-auto pr-1">
+                  {customDict.map((rule) => (
+                    <span key={ruleKey(rule)} className="text-xs bg-primary/10 text-primary px-2 py-1 rounded-lg flex items-center gap-1">
+                      {rule.term} → {rule.replacement}
+                      {ruleTags(rule).length > 0 && <span className="opacity-70"> · {ruleTags(rule).join(", ")}</span>}
+                      <button onClick={() => setCustomDict(prev => prev.filter((r) => ruleKey(r) !== ruleKey(rule)))} className="hover:text-destructive">✕</button>
                     </span>
                   ))}
                 </div>
               )}
 
-              {/* Add new */}
-              <div className="flex gap-2">
-                <input
-                  type="text"
-                  placeholder="Word (e.g. SQL)"
-                  value={newDictKey}
-                  onChange={(e) => setNewDictKey(e.target.value)}
-                  className="input-field flex-1 py-2"
-                />
+              {/* Add new, tried on this book as it is typed */}
+              <RuleForm
+                onAdd={addRule}
+                paragraphs={paragraphs.map(stripSsml)}
+                isDuplicate={(rule) => (saveToUserDict ? userDict : customDict).some((r) => ruleKey(r) === ruleKey(rule))}
+              />
+              <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
                 <input
-                  type="text"
-                  placeholder="Say as (e.g. sequel)"
-                  value={newDictVal}
-                  onChange={(e) => setNewDictVal(e.target.value)}
-                  className="input-field flex-1 py-2"
+                  type="checkbox"
+                  checked={saveToUserDict}
+                  onChange={(e) => setSaveToUserDict(e.target.checked)}
+                  className="accent-primary"
                 />
-                <button
-                  onClick={addDictEntry}
-                  disabled={!newDictKey.trim() || !newDictVal.trim()}
-                  className="btn-primary px-3 py-2 rounded-xl text-xs font-semibold disabled:opacity-50"
-                >
-                  Add
-                </button>
-              </div>
+                Save to my dictionary for all books instead of only this one
+              </label>
+              <LexiconTransfer
+                entries={saveToUserDict ? userDict : customDict}
+                builtIns={defaultRules(language)}
+                language={language}
+                fileName={saveToUserDict ? "pronunciation-dictionary" : `${title || "book"} pronunciations`}
+                onImport={importRules}
+              />
             </div>
           )}
         </div>
@@ -321,15 +790,17 @@ export default function UploadSection({ onBookCreated }: UploadSectionProps) {
           className="btn-primary w-full py-3 rounded-xl font-semibold text-sm flex items-center justify-center gap-2"
         >
           <Sparkles className="w-4 h-4" />
-          Create Audiobook
+          {editingBook ? "Save Changes" : "Create Audiobook"}
         </button>
       </div>
     );
   }
 
   if (step === "configure") {
-    const FormatIcon = format ? FORMAT_LABELS[format].icon : FileText;
-    const formatLabel = format ? FORMAT_LABELS[format].label : "File";
+    const ocrPages = pageConfidence.filter((c): c is number => c !== null);
+    const ocrConfidence = ocrPages.length > 0 ? Math.round(ocrPages.reduce((a, b) => a + b, 0) / ocrPages.length) : null;
+    const FormatIcon = editingBook ? Edit3 : format ? FORMAT_LABELS[format].icon : FileText;
+    const formatLabel = editingBook ? "Saved audiobook" : format ? FORMAT_LABELS[format].label : "File";
 
     return (
       <div className="glass-card p-6 space-y-5 animate-fade-up">
@@ -338,13 +809,17 @@ export default function UploadSection({ onBookCreated }: UploadSectionProps) {
             <FormatIcon className="w-5 h-5 text-primary" />
           </div>
           <div>
-            <p className="font-semibold text-foreground text-sm">{file?.name}</p>
+            <p className="font-semibold text-foreground text-sm">
+              {editingBook ? editingBook.pdfName : imageFiles.length > 1 ? `${imageFiles.length} page images` : file?.name}
+            </p>
             <p className="text-xs text-muted-foreground">
-              {formatLabel} · {extractedText.split(/\s+/).filter(Boolean).length.toLocaleString()} words extracted
+              {formatLabel} · {extractedText.split(/\s+/).filter(Boolean).length.toLocaleString()} words{editingBook ? "" : " extracted"}
+              {chapters.length > 0 && ` · ${chapters.length} chapters`}
+              {ocrConfidence !== null && ` · ${ocrConfidence}% OCR confidence`}
             </p>
           </div>
-          <button onClick={reset} className="ml-auto text-xs text-muted-foreground hover:text-foreground underline">
-            Change file
+          <button onClick={editingBook ? onCancelEdit : reset} className="ml-auto text-xs text-muted-foreground hover:text-foreground underline">
+            {editingBook ? "Cancel" : "Change file"}
           </button>
         </div>
 
@@ -359,6 +834,55 @@ export default function UploadSection({ onBookCreated }: UploadSectionProps) {
           />
         </div>
 
+        {pages.length > 1 && (
+          <div className="space-y-1.5">
+            <label className="text-sm font-medium text-foreground">Pages</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={1}
+                max={pages.length}
+                className="input-field w-24"
+                value={pageRange.from}
+                onChange={(e) => setPageRange({ ...pageRange, from: Number(e.target.value) })}
+                onBlur={() => handlePageRangeChange(pageRange)}
+              />
+              <span className="text-sm text-muted-foreground">to</span>
+              <input
+                type="number"
+                min={1}
+                max={pages.length}
+                className="input-field w-24"
+                value={pageRange.to}
+                onChange={(e) => setPageRange({ ...pageRange, to: Number(e.target.value) })}
+                onBlur={() => handlePageRangeChange(pageRange)}
+              />
+              <span className="text-sm text-muted-foreground">of {pages.length}</span>
+            </div>
+          </div>
+        )}
+
+        {!editingBook && (
+          <div className="space-y-1.5">
+            <label className="text-sm font-medium text-foreground">Document language</label>
+            <div className="relative">
+              <select
+                className="input-field appearance-none pr-10"
+                value={sourceLanguage}
+                onChange={(e) => setSourceLanguage(e.target.value)}
+              >
+                <option value="auto">
+                  Detect automatically{detectedLanguage && ` (${LANGUAGES.find((l) => l.code === detectedLanguage)?.label})`}
+                </option>
+                {LANGUAGES.map((l) => (
+                  <option key={l.code} value={l.code}>{l.label}</option>
+                ))}
+              </select>
+              <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground pointer-events-none" />
+            </div>
+          </div>
+        )}
+
         <div className="space-y-1.5">
           <label className="text-sm font-medium text-foreground flex items-center gap-2">
             <Languages className="w-4 h-4 text-primary" />
@@ -376,10 +900,15 @@ export default function UploadSection({ onBookCreated }: UploadSectionProps) {
             </select>
             <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground pointer-events-none" />
           </div>
+          {editingBook && language !== editingBook.language && (
+            <p className="text-xs text-muted-foreground">
+              The book will be translated from {editingBook.languageLabel} when you save.
+            </p>
+          )}
         </div>
 
         <div className="bg-muted rounded-xl p-4">
-          <p className="text-xs text-muted-foreground font-medium mb-2">Extracted preview</p>
+          <p className="text-xs text-muted-foreground font-medium mb-2">{editingBook ? "Preview" : "Extracted preview"}</p>
           <p className="text-sm text-foreground line-clamp-4 leading-relaxed">
             {extractedText.substring(0, 300)}…
           </p>
@@ -398,7 +927,7 @@ export default function UploadSection({ onBookCreated }: UploadSectionProps) {
             className="flex-1 btn-primary py-3 rounded-xl font-semibold text-sm flex items-center justify-center gap-2"
           >
             <Sparkles className="w-4 h-4" />
-            Create Audiobook
+            {editingBook ? "Save Changes" : "Create Audiobook"}
           </button>
         </div>
       </div>
@@ -425,14 +954,46 @@ export default function UploadSection({ onBookCreated }: UploadSectionProps) {
         <h3 className="text-lg font-semibold text-foreground mb-2">
           {dragOver ? "Drop your file here" : "Upload a document"}
         </h3>
-        <p className="text-sm text-muted-foreground mb-4">Drag & drop or click to browse</p>
+        <p className="text-sm text-muted-foreground mb-4">Drag & drop or click to browse · Add several page images to combine them into one book</p>
         <div className="flex flex-wrap justify-center gap-2">
           <span className="text-xs bg-muted text-muted-foreground px-2.5 py-1 rounded-lg font-medium">PDF</span>
           <span className="text-xs bg-muted text-muted-foreground px-2.5 py-1 rounded-lg font-medium">DOCX</span>
+          <span className="text-xs bg-muted text-muted-foreground px-2.5 py-1 rounded-lg font-medium">EPUB</span>
           <span className="text-xs bg-muted text-muted-foreground px-2.5 py-1 rounded-lg font-medium">TXT</span>
           <span className="text-xs bg-muted text-muted-foreground px-2.5 py-1 rounded-lg font-medium">Images (OCR)</span>
         </div>
-        <input ref={fileRef} type="file" accept={`${ACCEPTED_TYPES},${ACCEPTED_MIME}`} className="hidden" onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])} />
+        <input ref={fileRef} type="file" multiple accept={`${ACCEPTED_TYPES},${ACCEPTED_MIME}`} className="hidden" onChange={(e) => e.target.files && handleFiles(Array.from(e.target.files))} />
+      </div>
+
+      <div className="glass-card p-4 space-y-2">
+        <label className="text-sm font-medium text-foreground flex items-center gap-2">
+          <ScanText className="w-4 h-4 text-primary" />
+          Scanned text language
+        </label>
+        <div className="flex flex-wrap items-center gap-1.5">
+          {ocrLanguages.length === 0 ? (
+            <span className="text-xs text-muted-foreground">Detect automatically</span>
+          ) : ocrLanguages.map((code) => (
+            <span key={code} className="text-xs bg-primary/10 text-primary px-2 py-1 rounded-lg flex items-center gap-1">
+              {LANGUAGES.find((l) => l.code === code)?.label ?? code}
+              <button onClick={() => setOcrLanguages(prev => prev.filter((c) => c !== code))} className="hover:text-destructive">✕</button>
+            </span>
+          ))}
+        </div>
+        <div className="relative">
+          <select
+            className="input-field appearance-none pr-10"
+            value=""
+            onChange={(e) => e.target.value && setOcrLanguages(prev => [...prev, e.target.value])}
+          >
+            <option value="">Add a language…</option>
+            {LANGUAGES.filter((l) => l.code in OCR_LANGUAGE_CODES && !ocrLanguages.includes(l.code)).map((l) => (
+              <option key={l.code} value={l.code}>{l.label}</option>
+            ))}
+          </select>
+          <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground pointer-events-none" />
+        </div>
+        <p className="text-xs text-muted-foreground">Used when reading images. Leave empty to detect the script automatically.</p>
       </div>
 
       {error && (
@@ -14,8 +14,100 @@ export type Database = {
   }
   public: {
     Tables: {
+      audio_chunks: {
+        Row: {
+          audiobook_id: string
+          byte_size: number
+          cache_key: string
+          created_at: string
+          id: string
+          paragraph_index: number
+          updated_at: string
+          user_id: string
+          voice_id: string
+        }
+        Insert: {
+          audiobook_id: string
+          byte_size?: number
+          cache_key: string
+          created_at?: string
+          id?: string
+          paragraph_index: number
+          updated_at?: string
+          user_id: string
+          voice_id: string
+        }
+        Update: {
+          audiobook_id?: string
+          byte_size?: number
+          cache_key?: string
+          created_at?: string
+          id?: string
+          paragraph_index?: number
+          updated_at?: string
+          user_id?: string
+          voice_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audio_chunks_audiobook_id_fkey"
+            columns: ["audiobook_id"]
+            isOneToOne: false
+            referencedRelation: "audiobooks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audiobook_revisions: {
+        Row: {
+          audiobook_id: string
+          changes: Json
+          chapters: Json
+          created_at: string
+          id: string
+          language: string
+          language_label: string
+          paragraphs: Json
+          title: string
+          user_id: string
+        }
+        Insert: {
+          audiobook_id: string
+          changes?: Json
+          chapters?: Json
+          created_at?: string
+          id?: string
+          language: string
+          language_label: string
+          paragraphs?: Json
+          title: string
+          user_id: string
+        }
+        Update: {
+          audiobook_id?: string
+          changes?: Json
+          chapters?: Json
+          created_at?: string
+          id?: string
+          language?: string
+          language_label?: string
+          paragraphs?: Json
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audiobook_revisions_audiobook_id_fkey"
+            columns: ["audiobook_id"]
+            isOneToOne: false
+            referencedRelation: "audiobooks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       audiobooks: {
         Row: {
+          chapters: Json
           created_at: string
           id: string
           language: string
@@ -31,6 +123,7 @@ export type Database = {
           word_count: number
         }
         Insert: {
+          chapters?: Json
           created_at?: string
           id?: string
           language?: string
@@ -46,6 +139,7 @@ export type Database = {
           word_count?: number
         }
         Update: {
+          chapters?: Json
           created_at?: string
           id?: string
           language?: string
@@ -65,8 +159,10 @@ export type Database = {
       playback_state: {
         Row: {
           audiobook_id: string
+          char_offset: number
           chunk_index: number
           id: string
+          position_engine: string | null
           position_seconds: number
           speed: number
           updated_at: string
@@ -74,8 +170,10 @@ export type Database = {
         }
         Insert: {
           audiobook_id: string
+          char_offset?: number
           chunk_index?: number
           id?: string
+          position_engine?: string | null
           position_seconds?: number
           speed?: number
           updated_at?: string
@@ -83,8 +181,10 @@ export type Database = {
         }
         Update: {
           audiobook_id?: string
+          char_offset?: number
           chunk_index?: number
           id?: string
+          position_engine?: string | null
           position_seconds?: number
           speed?: number
           updated_at?: string
@@ -100,6 +200,59 @@ export type Database = {
           },
         ]
       }
+      pronunciation_entries: {
+        Row: {
+          audiobook_id: string | null
+          case_sensitive: boolean
+          context_after: string | null
+          context_before: string | null
+          created_at: string
+          id: string
+          match_mode: string
+          priority: number
+          replacement: string
+          term: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          audiobook_id?: string | null
+          case_sensitive?: boolean
+          context_after?: string | null
+          context_before?: string | null
+          created_at?: string
+          id?: string
+          match_mode?: string
+          priority?: number
+          replacement: string
+          term: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          audiobook_id?: string | null
+          case_sensitive?: boolean
+          context_after?: string | null
+          context_before?: string | null
+          created_at?: string
+          id?: string
+          match_mode?: string
+          priority?: number
+          replacement?: string
+          term?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pronunciation_entries_audiobook_id_fkey"
+            columns: ["audiobook_id"]
+            isOneToOne: false
+            referencedRelation: "audiobooks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
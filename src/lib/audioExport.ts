@@ -0,0 +1,448 @@
+/**
+ * Whole-book audio export: renders every paragraph through the cloud TTS engine,
+ * caches rendered paragraphs in IndexedDB so interrupted renders can resume,
+ * and packages the result as MP3 (ID3v2 chapters) or M4B (Nero chapters).
+ */
+
+import type { AudiobookEntry } from "@/lib/audiobookStore";
+import { chapterRanges, ChapterRange } from "@/lib/chapters";
+import { stripSsml } from "@/lib/ssml";
+import { synthesizeCloud } from "@/lib/ttsEngine";
+
+export type ExportFormat = "mp3" | "m4b";
+
+export interface ExportChapter {
+  title: string;
+  startMs: number;
+  endMs: number;
+}
+
+export interface RenderOptions {
+  voiceId: string;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// ── MP3 frame parsing ────────────────────────────────────────────────
+
+const BITRATES_V1_L3 = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const BITRATES_V2_L3 = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000],  // MPEG-2.5
+};
+
+export interface Mp3Info {
+  /** Frame bytes only, with ID3 tags and trailing junk removed. */
+  data: Uint8Array;
+  frameSizes: number[];
+  sampleRate: number;
+  channels: number;
+  samplesPerFrame: number;
+  durationMs: number;
+}
+
+function id3v2Length(bytes: Uint8Array, offset: number): number {
+  if (bytes[offset] !== 0x49 || bytes[offset + 1] !== 0x44 || bytes[offset + 2] !== 0x33) return 0;
+  const size = (bytes[offset + 6] << 21) | (bytes[offset + 7] << 14) | (bytes[offset + 8] << 7) | bytes[offset + 9];
+  const hasFooter = (bytes[offset + 5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+/** Parse MPEG Layer III frames. Throws if the data contains no frames. */
+export function parseMp3(bytes: Uint8Array): Mp3Info {
+  let offset = id3v2Length(bytes, 0);
+  const frames: [number, number][] = [];
+  let sampleRate = 0;
+  let channels = 2;
+  let samplesPerFrame = 1152;
+
+  while (offset + 4 <= bytes.length) {
+    const b1 = bytes[offset + 1], b2 = bytes[offset + 2], b3 = bytes[offset + 3];
+    const isSync = bytes[offset] === 0xff && (b1 & 0xe0) === 0xe0;
+    const version = (b1 >> 3) & 0x03;
+    const layer = (b1 >> 1) & 0x03;
+    const bitrateIdx = b2 >> 4;
+    const rateIdx = (b2 >> 2) & 0x03;
+
+    if (!isSync || version === 1 || layer !== 1 || bitrateIdx === 0 || bitrateIdx === 15 || rateIdx === 3) {
+      if (frames.length > 0) break; // trailing ID3v1 tag or junk
+      offset++;
+      continue;
+    }
+
+    const isV1 = version === 3;
+    const bitrate = (isV1 ? BITRATES_V1_L3 : BITRATES_V2_L3)[bitrateIdx] * 1000;
+    const rate = SAMPLE_RATES[version][rateIdx];
+    const padding = (b2 >> 1) & 0x01;
+    const size = Math.floor(((isV1 ? 144 : 72) * bitrate) / rate) + padding;
+    if (offset + size > bytes.length) break;
+
+    if (!sampleRate) {
+      sampleRate = rate;
+      channels = (b3 >> 6) === 3 ? 1 : 2;
+      samplesPerFrame = isV1 ? 1152 : 576;
+    }
+    frames.push([offset, size]);
+    offset += size;
+  }
+
+  if (frames.length === 0) throw new Error("No MP3 audio frames found");
+
+  const start = frames[0][0];
+  const [lastOffset, lastSize] = frames[frames.length - 1];
+  return {
+    data: bytes.subarray(start, lastOffset + lastSize),
+    frameSizes: frames.map(([, size]) => size),
+    sampleRate,
+    channels,
+    samplesPerFrame,
+    durationMs: (frames.length * samplesPerFrame * 1000) / sampleRate,
+  };
+}
+
+// ── Binary helpers ───────────────────────────────────────────────────
+
+const utf8 = new TextEncoder();
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) { out.set(p, offset); offset += p.length; }
+  return out;
+}
+
+function u8(n: number) { return Uint8Array.of(n & 0xff); }
+function u16(n: number) { return Uint8Array.of((n >> 8) & 0xff, n & 0xff); }
+function u24(n: number) { return Uint8Array.of((n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff); }
+function u32(n: number) { const b = new Uint8Array(4); new DataView(b.buffer).setUint32(0, n); return b; }
+function u64(n: number) { const b = new Uint8Array(8); new DataView(b.buffer).setBigUint64(0, BigInt(Math.round(n))); return b; }
+function syncsafe(n: number) { return Uint8Array.of((n >> 21) & 0x7f, (n >> 14) & 0x7f, (n >> 7) & 0x7f, n & 0x7f); }
+function zeros(n: number) { return new Uint8Array(n); }
+function str(s: string) { return utf8.encode(s); }
+function cstr(s: string) { return concat([utf8.encode(s), u8(0)]); }
+
+/** Truncate to at most maxBytes of UTF-8 without splitting a character. */
+function utf8Truncate(s: string, maxBytes: number): Uint8Array {
+  let bytes = utf8.encode(s);
+  while (bytes.length > maxBytes) {
+    s = s.slice(0, -1);
+    bytes = utf8.encode(s);
+  }
+  return bytes;
+}
+
+// ── Chapters ─────────────────────────────────────────────────────────
+
+// Both ID3 CTOC and Nero chpl store the chapter count in a single byte
+const MAX_CHAPTERS = 255;
+
+function paragraphTitle(text: string, index: number): string {
+  const words = stripSsml(text).split(/\s+/).filter(Boolean);
+  const head = words.slice(0, 8).join(" ");
+  return `${index + 1}. ${head}${words.length > 8 ? "…" : ""}`;
+}
+
+/**
+ * One chapter per paragraph, merging consecutive paragraphs when a book
+ * has more paragraphs than the chapter formats can hold.
+ */
+export function paragraphChapters(paragraphs: string[], durationsMs: number[]): ExportChapter[] {
+  const group = Math.ceil(paragraphs.length / MAX_CHAPTERS);
+  const chapters: ExportChapter[] = [];
+  let t = 0;
+
+  for (let i = 0; i < paragraphs.length; i += group) {
+    const end = Math.min(i + group, paragraphs.length);
+    const length = durationsMs.slice(i, end).reduce((s, d) => s + d, 0);
+    const title = group === 1
+      ? paragraphTitle(paragraphs[i], i)
+      : `Paragraphs ${i + 1}–${end}`;
+    chapters.push({ title, startMs: Math.round(t), endMs: Math.round(t + length) });
+    t += length;
+  }
+  return chapters;
+}
+
+/**
+ * Chapter markers from the book's own chapters. The first marker starts at 0 so
+ * anything before the first chapter belongs to it.
+ */
+export function bookChapterMarkers(ranges: ChapterRange[], durationsMs: number[]): ExportChapter[] {
+  const offset = (paragraph: number) => durationsMs.slice(0, paragraph).reduce((s, d) => s + d, 0);
+  return ranges.slice(0, MAX_CHAPTERS).map((range, i, kept) => ({
+    title: range.title,
+    startMs: i === 0 ? 0 : Math.round(offset(range.start)),
+    endMs: Math.round(offset(i + 1 < kept.length ? kept[i + 1].start : durationsMs.length)),
+  }));
+}
+
+// ── MP3 with ID3v2.4 chapter frames ──────────────────────────────────
+
+function id3Frame(id: string, body: Uint8Array): Uint8Array {
+  return concat([str(id), syncsafe(body.length), zeros(2), body]);
+}
+
+function id3Text(id: string, text: string): Uint8Array {
+  return id3Frame(id, concat([u8(3), str(text)])); // 3 = UTF-8
+}
+
+const NOTHING_RENDERED = "The audiobook has no rendered audio to export";
+
+export function buildMp3(chunks: Mp3Info[], chapters: ExportChapter[], title: string): Blob {
+  if (chunks.length === 0) throw new Error(NOTHING_RENDERED);
+  const chapterFrames = chapters.map((c, i) =>
+    id3Frame("CHAP", concat([
+      cstr(`ch${i}`), u32(c.startMs), u32(c.endMs), u32(0xffffffff), u32(0xffffffff),
+      id3Text("TIT2", c.title),
+    ]))
+  );
+  const toc = id3Frame("CTOC", concat([
+    cstr("toc"), u8(0x03), u8(chapters.length), // top-level, ordered
+    ...chapters.map((_, i) => cstr(`ch${i}`)),
+  ]));
+
+  const frames = concat([id3Text("TIT2", title), toc, ...chapterFrames]);
+  const tag = concat([str("ID3"), u8(4), u8(0), u8(0), syncsafe(frames.length), frames]);
+
+  return new Blob([tag, ...chunks.map((c) => c.data)], { type: "audio/mpeg" });
+}
+
+// ── M4B (MP4 container holding MP3 audio, Nero chapters) ─────────────
+
+function box(type: string | Uint8Array, ...payload: Uint8Array[]): Uint8Array {
+  const body = concat(payload);
+  return concat([u32(body.length + 8), typeof type === "string" ? str(type) : type, body]);
+}
+
+function fullBox(type: string, version: number, flags: number, ...payload: Uint8Array[]): Uint8Array {
+  return box(type, u8(version), u24(flags), ...payload);
+}
+
+function descriptor(tag: number, ...payload: Uint8Array[]): Uint8Array {
+  const body = concat(payload);
+  // 4-byte expandable length form, as written by most muxers
+  const len = body.length;
+  return concat([u8(tag), Uint8Array.of(0x80 | ((len >> 21) & 0x7f), 0x80 | ((len >> 14) & 0x7f), 0x80 | ((len >> 7) & 0x7f), len & 0x7f), body]);
+}
+
+const MATRIX = concat([u32(0x00010000), u32(0), u32(0), u32(0), u32(0x00010000), u32(0), u32(0), u32(0), u32(0x40000000)]);
+
+function buildMoov(
+  info: { sampleRate: number; channels: number; samplesPerFrame: number; bitrate: number },
+  frameSizes: number[],
+  chapters: ExportChapter[],
+  title: string,
+  dataOffset: number
+): Uint8Array {
+  const totalSamples = frameSizes.length * info.samplesPerFrame;
+  const durationMs = Math.round((totalSamples * 1000) / info.sampleRate);
+  const maxFrame = frameSizes.reduce((m, n) => Math.max(m, n), 0);
+  // Long books have millions of frames: write the size table directly instead of spreading
+  const sizeTable = new Uint8Array(frameSizes.length * 4);
+  const sizeView = new DataView(sizeTable.buffer);
+  frameSizes.forEach((n, i) => sizeView.setUint32(i * 4, n));
+
+  const esds = fullBox("esds", 0, 0,
+    descriptor(0x03, u16(1), u8(0),
+      // objectTypeIndication 0x6B = MPEG-1 audio (MP3); streamType 5 (audio) << 2 | 1
+      descriptor(0x04, u8(info.sampleRate >= 32000 ? 0x6b : 0x69), u8(0x15), u24(maxFrame), u32(info.bitrate), u32(info.bitrate)),
+      descriptor(0x06, u8(0x02)),
+    )
+  );
+
+  const mp4a = box("mp4a",
+    zeros(6), u16(1),                 // reserved, data_reference_index
+    zeros(8),                         // version, revision, vendor
+    u16(info.channels), u16(16),      // channel count, sample size
+    zeros(4),                         // pre_defined, reserved
+    u32(info.sampleRate * 65536),     // 16.16 sample rate
+    esds,
+  );
+
+  const stbl = box("stbl",
+    fullBox("stsd", 0, 0, u32(1), mp4a),
+    fullBox("stts", 0, 0, u32(1), u32(frameSizes.length), u32(info.samplesPerFrame)),
+    fullBox("stsc", 0, 0, u32(1), u32(1), u32(frameSizes.length), u32(1)),
+    fullBox("stsz", 0, 0, u32(0), u32(frameSizes.length), sizeTable),
+    fullBox("stco", 0, 0, u32(1), u32(dataOffset)),
+  );
+
+  const mdia = box("mdia",
+    fullBox("mdhd", 0, 0, u32(0), u32(0), u32(info.sampleRate), u32(totalSamples), u16(0x55c4), u16(0)), // 'und'
+    fullBox("hdlr", 0, 0, u32(0), str("soun"), zeros(12), cstr("SoundHandler")),
+    box("minf",
+      fullBox("smhd", 0, 0, u16(0), u16(0)),
+      box("dinf", fullBox("dref", 0, 0, u32(1), fullBox("url ", 0, 1))),
+      stbl,
+    ),
+  );
+
+  const trak = box("trak",
+    fullBox("tkhd", 0, 0x000003, u32(0), u32(0), u32(1), u32(0), u32(durationMs), zeros(8), u16(0), u16(0), u16(0x0100), u16(0), MATRIX, u32(0), u32(0)),
+    mdia,
+  );
+
+  // Nero chapter list: start times in 100ns units, titles up to 255 bytes
+  const chpl = fullBox("chpl", 1, 0, u32(0), u8(chapters.length),
+    ...chapters.map((c) => {
+      const name = utf8Truncate(c.title, 255);
+      return concat([u64(c.startMs * 10000), u8(name.length), name]);
+    }),
+  );
+
+  // "©nam" starts with the raw byte 0xA9, not its UTF-8 encoding
+  const nam = concat([Uint8Array.of(0xa9), str("nam")]);
+  const ilst = box("ilst", box(nam, box("data", u32(1), u32(0), str(title))));
+  const meta = fullBox("meta", 0, 0,
+    fullBox("hdlr", 0, 0, u32(0), str("mdir"), str("appl"), zeros(8), u8(0)),
+    ilst,
+  );
+
+  return box("moov",
+    fullBox("mvhd", 0, 0, u32(0), u32(0), u32(1000), u32(durationMs), u32(0x00010000), u16(0x0100), zeros(10), MATRIX, zeros(24), u32(2)),
+    trak,
+    box("udta", chpl, meta),
+  );
+}
+
+export function buildM4b(chunks: Mp3Info[], chapters: ExportChapter[], title: string): Blob {
+  if (chunks.length === 0) throw new Error(NOTHING_RENDERED);
+  const { sampleRate, channels, samplesPerFrame } = chunks[0];
+  if (chunks.some((c) => c.sampleRate !== sampleRate)) {
+    throw new Error("Rendered paragraphs use different sample rates and cannot be combined");
+  }
+
+  const frameSizes = chunks.flatMap((c) => c.frameSizes);
+  const dataSize = chunks.reduce((n, c) => n + c.data.length, 0);
+  const totalMs = chunks.reduce((n, c) => n + c.durationMs, 0);
+  const bitrate = Math.round((dataSize * 8) / (totalMs / 1000));
+  const info = { sampleRate, channels, samplesPerFrame, bitrate };
+
+  const ftyp = box("ftyp", str("M4B "), u32(0), str("M4B "), str("M4A "), str("mp42"), str("isom"));
+  // moov size does not depend on the offset value, so measure once and rebuild
+  const moovSize = buildMoov(info, frameSizes, chapters, title, 0).length;
+  const dataOffset = ftyp.length + moovSize + 8;
+  if (dataOffset + dataSize > 0xffffffff) throw new Error("Audiobook is too large for M4B export");
+  const moov = buildMoov(info, frameSizes, chapters, title, dataOffset);
+
+  return new Blob([ftyp, moov, u32(dataSize + 8), str("mdat"), ...chunks.map((c) => c.data)], { type: "audio/mp4" });
+}
+
+// ── Render cache (IndexedDB) ─────────────────────────────────────────
+
+const DB_NAME = "narrato-renders";
+const STORE = "chunks";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function idb<T>(db: IDBDatabase, mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const req = op(db.transaction(STORE, mode).objectStore(STORE));
+    req.onsuccess = () => resolve(req.result as T);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// FNV-1a, so edited paragraphs are re-rendered instead of served stale
+function hashText(text: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16);
+}
+
+function chunkKey(bookId: string, voiceId: string, index: number, text: string) {
+  return `${bookId}:${voiceId}:${index}:${hashText(text)}`;
+}
+
+/** How many paragraphs of the book are already rendered for this voice. */
+export async function countRenderedParagraphs(book: AudiobookEntry, voiceId: string): Promise<number> {
+  const db = await openDb();
+  try {
+    const keys = await idb<IDBValidKey[]>(db, "readonly", (s) =>
+      s.getAllKeys(IDBKeyRange.bound(`${book.id}:${voiceId}:`, `${book.id}:${voiceId}:\uffff`))
+    );
+    const wanted = new Set(book.paragraphs.map((p, i) => chunkKey(book.id, voiceId, i, p)));
+    return keys.filter((k) => wanted.has(String(k))).length;
+  } finally {
+    db.close();
+  }
+}
+
+/** Drop renders of paragraphs that have since been edited or removed, for every voice. */
+export async function pruneRenderedParagraphs(book: AudiobookEntry): Promise<void> {
+  const db = await openDb();
+  try {
+    const keys = await idb<IDBValidKey[]>(db, "readonly", (s) =>
+      s.getAllKeys(IDBKeyRange.bound(`${book.id}:`, `${book.id}:\uffff`))
+    );
+    const current = new Set(book.paragraphs.map((p, i) => `${i}:${hashText(p)}`));
+    // Keys are book:voice:index:hash, and voice ids may contain colons
+    const stale = keys.filter((k) => !current.has(String(k).split(":").slice(-2).join(":")));
+    for (const key of stale) await idb(db, "readwrite", (s) => s.delete(key));
+  } finally {
+    db.close();
+  }
+}
+
+/** Drop every render of a book, once it is deleted. */
+export async function clearRenderedParagraphs(bookId: string): Promise<void> {
+  const db = await openDb();
+  try {
+    await idb(db, "readwrite", (s) => s.delete(IDBKeyRange.bound(`${bookId}:`, `${bookId}:\uffff`)));
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Synthesize every paragraph, reusing cached renders. Rendered paragraphs are
+ * stored as they complete, so a cancelled or failed render resumes where it stopped.
+ */
+export async function renderAudiobook(book: AudiobookEntry, { voiceId, signal, onProgress }: RenderOptions): Promise<Mp3Info[]> {
+  const db = await openDb();
+  const total = book.paragraphs.length;
+  const chunks: Mp3Info[] = [];
+
+  try {
+    onProgress?.(0, total);
+    for (let i = 0; i < total; i++) {
+      signal?.throwIfAborted();
+      const text = book.paragraphs[i];
+      const key = chunkKey(book.id, voiceId, i, text);
+
+      let buffer = await idb<ArrayBuffer | undefined>(db, "readonly", (s) => s.get(key));
+      if (!buffer) {
+        const blob = await synthesizeCloud(text, { voiceId, language: book.language, signal, chunk: { audiobookId: book.id, paragraphIndex: i } });
+        buffer = await blob.arrayBuffer();
+        await idb(db, "readwrite", (s) => s.put(buffer, key));
+      }
+
+      chunks.push(parseMp3(new Uint8Array(buffer)));
+      onProgress?.(i + 1, total);
+    }
+  } finally {
+    db.close();
+  }
+  return chunks;
+}
+
+export async function exportAudiobook(book: AudiobookEntry, format: ExportFormat, options: RenderOptions): Promise<Blob> {
+  if (!book.paragraphs.some((p) => stripSsml(p).trim())) throw new Error("The audiobook has no text to export");
+  const chunks = await renderAudiobook(book, options);
+  const durations = chunks.map((c) => c.durationMs);
+  const ranges = chapterRanges(book.chapters, book.paragraphs.length);
+  const chapters = ranges.length > 0 ? bookChapterMarkers(ranges, durations) : paragraphChapters(book.paragraphs, durations);
+  return format === "m4b" ? buildM4b(chunks, chapters, book.title) : buildMp3(chunks, chapters, book.title);
+}
@@ -1,4 +1,9 @@
 import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types";
+import type { BookChapter } from "@/lib/chapters";
+import { revisionChanges, RevisionChange } from "@/lib/revisions";
+import { MatchMode, PronunciationRule, mergeRules } from "@/lib/pronunciationDict";
+import type { TTSEngineId } from "@/lib/ttsEngine";
 
 export interface AudiobookEntry {
   id: string;
@@ -14,6 +19,20 @@ export interface AudiobookEntry {
   duration?: number;
   wordCount: number;
   paragraphs: string[];
+  chapters?: BookChapter[];
+}
+
+export interface AudiobookRevision {
+  id: string;
+  audiobookId: string;
+  title: string;
+  language: string;
+  languageLabel: string;
+  paragraphs: string[];
+  chapters: BookChapter[];
+  /** Paragraph diff against the previous revision; empty for the first */
+  changes: RevisionChange[];
+  createdAt: string;
 }
 
 // Fetch all books for user from database
@@ -42,6 +61,7 @@ export async function getBooks(userId: string): Promise<AudiobookEntry[]> {
     createdAt: row.created_at,
     wordCount: row.word_count,
     paragraphs: row.paragraphs || [],
+    chapters: row.chapters || [],
   }));
 }
 
@@ -59,9 +79,127 @@ export async function saveBook(book: AudiobookEntry): Promise<void> {
     pdf_size: book.pdfSize,
     word_count: book.wordCount,
     paragraphs: book.paragraphs,
+    chapters: book.chapters ?? [],
+  });
+
+  if (error) throw new Error(error.message);
+  await recordRevision(book, []);
+}
+
+// Snapshot the book's text in its revision history. The book itself is already saved,
+// so a failure here is logged rather than thrown
+async function recordRevision(book: AudiobookEntry, changes: RevisionChange[]): Promise<void> {
+  const { error } = await supabase.from("audiobook_revisions").insert({
+    user_id: book.userId,
+    audiobook_id: book.id,
+    title: book.title,
+    language: book.language,
+    language_label: book.languageLabel,
+    paragraphs: book.paragraphs,
+    chapters: book.chapters ?? [],
+    changes,
+  });
+  if (error) console.error("Error recording revision:", error);
+}
+
+// Revision history of a book, newest first
+export async function getRevisions(audiobookId: string): Promise<AudiobookRevision[]> {
+  const { data, error } = await supabase
+    .from("audiobook_revisions")
+    .select("*")
+    .eq("audiobook_id", audiobookId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching revisions:", error);
+    return [];
+  }
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    audiobookId: row.audiobook_id,
+    title: row.title,
+    language: row.language,
+    languageLabel: row.language_label,
+    paragraphs: (row.paragraphs as string[]) || [],
+    chapters: (row.chapters as BookChapter[]) || [],
+    changes: (row.changes as RevisionChange[]) || [],
+    createdAt: row.created_at,
+  }));
+}
+
+// Bring back an older revision. Restoring is itself saved as a new revision, so it can be undone
+export async function restoreRevision(book: AudiobookEntry, revision: AudiobookRevision): Promise<AudiobookEntry> {
+  const translatedText = revision.paragraphs.join("\n\n");
+  const restored: AudiobookEntry = {
+    ...book,
+    title: revision.title,
+    language: revision.language,
+    languageLabel: revision.languageLabel,
+    paragraphs: revision.paragraphs,
+    chapters: revision.chapters,
+    translatedText,
+    wordCount: translatedText.split(/\s+/).filter(Boolean).length,
+  };
+  await updateBook(restored, book.paragraphs);
+  return restored;
+}
+
+// Where the paragraph at `index` ended up after an edit: the same text closest to its
+// old position, otherwise the old position clamped to the new length
+function remapParagraphIndex(previous: string[], next: string[], index: number): number {
+  const text = previous[index];
+  let best = -1;
+  next.forEach((p, i) => {
+    if (p === text && (best < 0 || Math.abs(i - index) < Math.abs(best - index))) best = i;
   });
+  return best >= 0 ? best : Math.max(0, Math.min(index, next.length - 1));
+}
+
+// Update an edited book. Cached audio is tracked per paragraph index, so chunks whose
+// paragraph text changed are dropped, and the saved playback position is moved along
+// with its paragraph
+export async function updateBook(book: AudiobookEntry, previousParagraphs: string[]): Promise<void> {
+  const { error } = await supabase
+    .from("audiobooks")
+    .update({
+      title: book.title,
+      translated_text: book.translatedText,
+      language: book.language,
+      language_label: book.languageLabel,
+      word_count: book.wordCount,
+      paragraphs: book.paragraphs,
+      chapters: book.chapters ?? [],
+    })
+    .eq("id", book.id);
 
   if (error) throw new Error(error.message);
+  await recordRevision(book, revisionChanges(previousParagraphs, book.paragraphs));
+
+  const stale = previousParagraphs
+    .map((text, i) => (book.paragraphs[i] === text ? -1 : i))
+    .filter((i) => i >= 0);
+  if (stale.length > 0) {
+    const { error: chunkError } = await supabase
+      .from("audio_chunks")
+      .delete()
+      .eq("audiobook_id", book.id)
+      .in("paragraph_index", stale);
+    if (chunkError) console.error("Error clearing stale audio chunks:", chunkError);
+  }
+
+  const playback = await getPlaybackState(book.userId, book.id);
+  if (playback && book.paragraphs.length > 0) {
+    const index = remapParagraphIndex(previousParagraphs, book.paragraphs, playback.chunkIndex);
+    // The offset within the paragraph only holds if its text is unchanged
+    const kept = book.paragraphs[index] === previousParagraphs[playback.chunkIndex];
+    if (index !== playback.chunkIndex || !kept) {
+      await savePlaybackState(
+        book.userId, book.id,
+        kept ? playback.positionSeconds : 0, index, playback.speed, kept ? playback.charOffset : 0, playback.engine
+      );
+    }
+  }
 }
 
 // Delete book from database
@@ -76,7 +214,10 @@ export async function savePlaybackState(
   audiobookId: string,
   positionSeconds: number,
   chunkIndex: number,
-  speed: number
+  speed: number,
+  charOffset: number = 0,
+  /** Engine that measured positionSeconds */
+  engine: TTSEngineId | null = null
 ): Promise<void> {
   const { error } = await supabase.from("playback_state").upsert(
     {
@@ -84,6 +225,8 @@ export async function savePlaybackState(
       audiobook_id: audiobookId,
       position_seconds: positionSeconds,
       chunk_index: chunkIndex,
+      char_offset: charOffset,
+      position_engine: engine,
       speed,
     },
     { onConflict: "user_id,audiobook_id" }
@@ -94,10 +237,16 @@ export async function savePlaybackState(
 export async function getPlaybackState(
   userId: string,
   audiobookId: string
-): Promise<{ positionSeconds: number; chunkIndex: number; speed: number } | null> {
+): Promise<{
+  positionSeconds: number;
+  chunkIndex: number;
+  charOffset: number;
+  speed: number;
+  engine: TTSEngineId | null;
+} | null> {
   const { data, error } = await supabase
     .from("playback_state")
-    .select("position_seconds, chunk_index, speed")
+    .select("position_seconds, chunk_index, char_offset, speed, position_engine")
     .eq("user_id", userId)
     .eq("audiobook_id", audiobookId)
     .maybeSingle();
@@ -106,10 +255,194 @@ export async function getPlaybackState(
   return {
     positionSeconds: data.position_seconds,
     chunkIndex: data.chunk_index,
+    charOffset: data.char_offset,
     speed: data.speed,
+    engine: data.position_engine as TTSEngineId | null,
+  };
+}
+
+// Cached cloud audio: paragraph indices with rendered audio (any voice), per book
+export async function getRenderedParagraphs(userId: string): Promise<Record<string, number[]>> {
+  const { data, error } = await supabase
+    .from("audio_chunks")
+    .select("audiobook_id, paragraph_index")
+    .eq("user_id", userId);
+
+  if (error) {
+    console.error("Error fetching audio chunks:", error);
+    return {};
+  }
+
+  const rendered: Record<string, Set<number>> = {};
+  for (const row of data || []) {
+    (rendered[row.audiobook_id] ??= new Set()).add(row.paragraph_index);
+  }
+  return Object.fromEntries(
+    Object.entries(rendered).map(([id, indices]) => [id, Array.from(indices).sort((a, b) => a - b)])
+  );
+}
+
+// Pronunciation dictionary helpers
+export interface PronunciationEntry extends PronunciationRule {
+  id: string;
+  /** Book the entry overrides the user-wide dictionary for; null applies to every book */
+  audiobookId: string | null;
+}
+
+const PRONUNCIATION_COLUMNS =
+  "id, term, replacement, audiobook_id, match_mode, case_sensitive, priority, context_before, context_after";
+
+type PronunciationRow = Omit<Tables<"pronunciation_entries">, "user_id" | "created_at" | "updated_at">;
+
+function toPronunciationEntry(row: PronunciationRow): PronunciationEntry {
+  return {
+    id: row.id,
+    term: row.term,
+    replacement: row.replacement,
+    audiobookId: row.audiobook_id,
+    mode: row.match_mode as MatchMode,
+    caseSensitive: row.case_sensitive,
+    priority: row.priority,
+    before: row.context_before ?? undefined,
+    after: row.context_after ?? undefined,
+  };
+}
+
+// Empty context is stored as null so the unique key treats it as absent
+function ruleColumns(rule: Partial<PronunciationRule>) {
+  const columns: TablesUpdate<"pronunciation_entries"> = {};
+  if (rule.term !== undefined) columns.term = rule.term;
+  if (rule.replacement !== undefined) columns.replacement = rule.replacement;
+  if (rule.mode !== undefined) columns.match_mode = rule.mode;
+  if (rule.caseSensitive !== undefined) columns.case_sensitive = rule.caseSensitive;
+  if (rule.priority !== undefined) columns.priority = rule.priority;
+  if ("before" in rule) columns.context_before = rule.before || null;
+  if ("after" in rule) columns.context_after = rule.after || null;
+  return columns;
+}
+
+export async function getPronunciationEntries(userId: string): Promise<PronunciationEntry[]> {
+  const { data, error } = await supabase
+    .from("pronunciation_entries")
+    .select(PRONUNCIATION_COLUMNS)
+    .eq("user_id", userId)
+    .order("term");
+
+  if (error) {
+    console.error("Error fetching pronunciation entries:", error);
+    return [];
+  }
+
+  return (data || []).map(toPronunciationEntry);
+}
+
+// The columns of pronunciation_entries_rule_key, for upserts
+const PRONUNCIATION_KEY = "user_id,audiobook_id,term,match_mode,context_before,context_after";
+
+function entryRow(userId: string, audiobookId: string | null, rule: PronunciationRule) {
+  return {
+    user_id: userId,
+    audiobook_id: audiobookId,
+    term: rule.term,
+    replacement: rule.replacement,
+    ...ruleColumns({ mode: "word", before: undefined, after: undefined, ...rule }),
   };
 }
 
+// Add a rule, replacing an existing one for the same term, mode, context and book
+export async function savePronunciationEntry(
+  userId: string,
+  entry: PronunciationRule & { audiobookId?: string | null }
+): Promise<PronunciationEntry> {
+  const { data, error } = await supabase
+    .from("pronunciation_entries")
+    .upsert(entryRow(userId, entry.audiobookId ?? null, entry), { onConflict: PRONUNCIATION_KEY })
+    .select(PRONUNCIATION_COLUMNS)
+    .single();
+
+  if (error) throw new Error(error.message);
+  return toPronunciationEntry(data);
+}
+
+async function upsertPronunciationEntries(
+  userId: string,
+  audiobookId: string | null,
+  rules: PronunciationRule[]
+): Promise<PronunciationEntry[]> {
+  if (rules.length === 0) return [];
+  const { data, error } = await supabase
+    .from("pronunciation_entries")
+    .upsert(rules.map((rule) => entryRow(userId, audiobookId, rule)), { onConflict: PRONUNCIATION_KEY })
+    .select(PRONUNCIATION_COLUMNS);
+
+  if (error) throw new Error(error.message);
+  return (data || []).map(toPronunciationEntry);
+}
+
+// Add or replace many user-wide rules at once; keys must be unique within `rules`
+export async function savePronunciationEntries(userId: string, rules: PronunciationRule[]): Promise<PronunciationEntry[]> {
+  return upsertPronunciationEntries(userId, null, rules);
+}
+
+// Ids per delete request, keeping the filter well inside URL length limits
+const DELETE_BATCH = 100;
+
+// Delete the user-wide rules (no audiobookId) or a book's overrides, except those just saved
+async function deleteStalePronunciations(userId: string, audiobookId: string | null, saved: PronunciationEntry[]) {
+  const keep = new Set(saved.map((e) => e.id));
+  const query = supabase.from("pronunciation_entries").select("id").eq("user_id", userId);
+  const { data, error } = await (audiobookId ? query.eq("audiobook_id", audiobookId) : query.is("audiobook_id", null));
+  if (error) throw new Error(error.message);
+
+  const stale = (data || []).map((row) => row.id).filter((id) => !keep.has(id));
+  for (let i = 0; i < stale.length; i += DELETE_BATCH) {
+    const { error: deleteError } = await supabase
+      .from("pronunciation_entries")
+      .delete()
+      .in("id", stale.slice(i, i + DELETE_BATCH));
+    if (deleteError) throw new Error(deleteError.message);
+  }
+}
+
+// Replace all user-wide rules, keeping per-book overrides. The new rules are saved
+// before the rest are deleted, so a failed import leaves the old dictionary in place.
+export async function setUserPronunciations(userId: string, rules: PronunciationRule[]): Promise<PronunciationEntry[]> {
+  const saved = await savePronunciationEntries(userId, rules);
+  await deleteStalePronunciations(userId, null, saved);
+  return saved;
+}
+
+export async function updatePronunciationEntry(
+  id: string,
+  patch: Partial<PronunciationRule>
+): Promise<void> {
+  const { error } = await supabase.from("pronunciation_entries").update(ruleColumns(patch)).eq("id", id);
+  if (error) throw new Error(error.message);
+}
+
+export async function deletePronunciationEntry(id: string): Promise<void> {
+  const { error } = await supabase.from("pronunciation_entries").delete().eq("id", id);
+  if (error) throw new Error(error.message);
+}
+
+// Replace all of a book's overrides, saving them before the old ones are deleted as above
+export async function setBookPronunciations(
+  userId: string,
+  audiobookId: string,
+  overrides: PronunciationRule[]
+): Promise<void> {
+  const saved = await upsertPronunciationEntries(userId, audiobookId, overrides);
+  await deleteStalePronunciations(userId, audiobookId, saved);
+}
+
+// The user-wide rules, with a book's overrides layered on top
+export function pronunciationDictionary(entries: PronunciationEntry[], audiobookId?: string): PronunciationRule[] {
+  return mergeRules(
+    entries.filter((e) => e.audiobookId === null),
+    audiobookId ? entries.filter((e) => e.audiobookId === audiobookId) : []
+  );
+}
+
 // User preferences helpers
 export async function getUserPreferences(userId: string) {
   const { data, error } = await supabase
@@ -0,0 +1,116 @@
+/**
+ * Shared steps from extracted text to a saved-ready AudiobookEntry, used by the
+ * single-file wizard and the bulk import queue.
+ */
+
+import { AudiobookEntry } from "@/lib/audiobookStore";
+import { BookChapter, sectionsToParagraphs, chaptersFromPages } from "@/lib/chapters";
+import { detectLanguage } from "@/lib/languageDetect";
+import { LANGUAGES } from "@/lib/languages";
+import { smartSplitParagraphs, createDictionaryMatcher, Dictionary } from "@/lib/pronunciationDict";
+import { mapSsmlText, stripSsml } from "@/lib/ssml";
+import { cleanPages } from "@/lib/textCleanup";
+import { ExtractedDocument, joinPages, locateParagraphPages } from "@/lib/textExtractor";
+import { normalizeText } from "@/lib/textNormalizer";
+import { translateParagraphs, createSupabaseTranslationProvider } from "@/lib/translation";
+
+export interface BookDraft {
+  title: string;
+  sourceName: string;
+  sourceSize: number;
+  originalText: string;
+  paragraphs: string[];
+  chapters: BookChapter[];
+}
+
+export interface BuildBookOptions {
+  userId: string;
+  language: string;
+  /** Document language, or "auto" to detect it; translation is skipped when it matches `language` */
+  sourceLanguage: string;
+  /** Custom entries and rules applied on top of the default dictionary for `language` */
+  dictionary?: Dictionary;
+  /** Spell out numbers, dates, currency and units for `language`; on by default */
+  normalize?: boolean;
+  /**
+   * Paragraphs of the saved book being edited, which already went through normalization and the
+   * dictionary. Draft paragraphs still equal to one of them are kept as they are unless translated
+   */
+  processed?: string[];
+  /** Translation progress, in batches */
+  onProgress?: (done: number, total: number) => void;
+}
+
+export function titleFromFileName(name: string): string {
+  return name.replace(/\.(pdf|docx|epub|txt|png|jpe?g|gif|bmp|webp|tiff?)$/i, "").replace(/_/g, " ");
+}
+
+/** Paragraphs and chapters for a document with default settings: all pages, page furniture stripped. */
+export function draftFromDocument(doc: ExtractedDocument, file: File): BookDraft {
+  const base = { title: titleFromFileName(file.name), sourceName: file.name, sourceSize: file.size };
+
+  if (!doc.pages) {
+    return doc.sections?.length
+      ? { ...base, originalText: doc.text, ...sectionsToParagraphs(doc.sections) }
+      : { ...base, originalText: doc.text, paragraphs: smartSplitParagraphs(doc.text), chapters: [] };
+  }
+
+  const pages = cleanPages(doc.pages).pages;
+  const text = joinPages(pages);
+  const paragraphs = smartSplitParagraphs(text);
+  const chapters = chaptersFromPages(doc.pageChapters ?? [], locateParagraphPages(paragraphs, pages));
+  return { ...base, originalText: text, paragraphs, chapters };
+}
+
+/** Translate (when needed), normalize and apply the pronunciation dictionary, producing a new book. */
+export async function buildBook(draft: BookDraft, options: BuildBookOptions): Promise<AudiobookEntry> {
+  const { userId, language, sourceLanguage, dictionary = {}, normalize = true, processed = [], onProgress } = options;
+
+  // Translate paragraphs and chapter titles unless the source is already in the target language.
+  // Markup doesn't survive translation (breaks and hints are placed against the source wording).
+  // Text whose language can't be told is left to the provider to detect
+  const source = sourceLanguage === "auto"
+    ? detectLanguage(draft.paragraphs.map(stripSsml).join("\n\n")) ?? undefined
+    : sourceLanguage;
+  let outputParagraphs = draft.paragraphs;
+  let outputChapters = draft.chapters;
+  if (source !== language) {
+    const provider = createSupabaseTranslationProvider();
+    outputParagraphs = await translateParagraphs(draft.paragraphs.map(stripSsml), {
+      provider,
+      targetLanguage: language,
+      sourceLanguage: source,
+      onProgress,
+    });
+    if (draft.chapters.length > 0) {
+      const titles = await translateParagraphs(draft.chapters.map((c) => c.title), {
+        provider, targetLanguage: language, sourceLanguage: source,
+      });
+      outputChapters = draft.chapters.map((c, i) => ({ ...c, title: titles[i] }));
+    }
+  }
+
+  // Neither step is idempotent (a rule may keep its term in the replacement), so don't run them twice
+  const unchanged = new Set(source === language ? processed : []);
+  const matcher = createDictionaryMatcher(dictionary, language);
+  const correctedParagraphs = outputParagraphs.map((p) => unchanged.has(p) ? p :
+    mapSsmlText(p, (plain) => matcher.apply(normalize ? normalizeText(plain, language) : plain))
+  );
+  const correctedText = correctedParagraphs.join("\n\n");
+
+  return {
+    id: crypto.randomUUID(),
+    userId,
+    title: draft.title || draft.sourceName.replace(/\.[^.]+$/, ""),
+    originalText: draft.originalText,
+    translatedText: correctedText,
+    language,
+    languageLabel: LANGUAGES.find((l) => l.code === language)?.label ?? language,
+    pdfName: draft.sourceName,
+    pdfSize: draft.sourceSize,
+    createdAt: new Date().toISOString(),
+    wordCount: stripSsml(correctedText).split(/\s+/).filter(Boolean).length,
+    paragraphs: correctedParagraphs,
+    chapters: outputChapters,
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Chapter boundaries of a book, stored as the index of each chapter's first paragraph.
+ */
+
+import { smartSplitParagraphs } from "@/lib/pronunciationDict";
+import type { DocumentSection } from "@/lib/textExtractor";
+
+// A type alias rather than an interface so it is assignable to the JSONB column type
+export type BookChapter = {
+  title: string;
+  startParagraph: number;
+};
+
+/** A chapter anchored to a page (PDF outline entry, page of an image batch); `page` is 0-based. */
+export interface PageChapter {
+  title: string;
+  page: number;
+}
+
+export interface ChapterRange {
+  title: string;
+  /** First paragraph of the chapter */
+  start: number;
+  /** One past the last paragraph */
+  end: number;
+}
+
+/** Split each section into paragraphs, recording where every chapter starts. Empty sections are dropped. */
+export function sectionsToParagraphs(sections: DocumentSection[]): { paragraphs: string[]; chapters: BookChapter[] } {
+  const paragraphs: string[] = [];
+  const chapters: BookChapter[] = [];
+
+  for (const section of sections) {
+    const split = smartSplitParagraphs(section.text).filter((p) => p.trim());
+    if (split.length === 0) continue;
+    chapters.push({ title: section.title, startParagraph: paragraphs.length });
+    paragraphs.push(...split);
+  }
+
+  return { paragraphs, chapters };
+}
+
+/**
+ * Adjust chapters after the paragraph at `index` is removed.
+ * A chapter left without paragraphs is dropped.
+ */
+export function removeParagraphFromChapters(chapters: BookChapter[], index: number, paragraphCount: number): BookChapter[] {
+  const shifted = chapters.map((c) =>
+    c.startParagraph > index ? { ...c, startParagraph: c.startParagraph - 1 } : c
+  );
+  return shifted.filter((c, i) =>
+    c.startParagraph < paragraphCount - 1 &&
+    (i === shifted.length - 1 || shifted[i + 1].startParagraph !== c.startParagraph)
+  );
+}
+
+/**
+ * Chapters for paragraphs split from paged text, given the page each paragraph starts on.
+ * A chapter starts at the first paragraph on or after its page; when several land on the
+ * same paragraph (a part title and its first chapter) the last one wins. A chapter that
+ * began before the first page keeps the opening paragraphs.
+ */
+export function chaptersFromPages(pageChapters: PageChapter[], paragraphPages: number[]): BookChapter[] {
+  const chapters: BookChapter[] = [];
+  for (const { title, page } of [...pageChapters].sort((a, b) => a.page - b.page)) {
+    const start = paragraphPages.findIndex((p) => p >= page);
+    if (start < 0) break;
+    if (chapters.length > 0 && chapters[chapters.length - 1].startParagraph === start) chapters.pop();
+    chapters.push({ title, startParagraph: start });
+  }
+  return chapters;
+}
+
+/** Paragraph range of every chapter, ignoring chapters that point past the end of the book. */
+export function chapterRanges(chapters: BookChapter[] | undefined, paragraphCount: number): ChapterRange[] {
+  const valid = (chapters ?? []).filter((c) => c.startParagraph >= 0 && c.startParagraph < paragraphCount);
+  return valid.map((c, i) => ({
+    title: c.title,
+    start: c.startParagraph,
+    end: i + 1 < valid.length ? valid[i + 1].startParagraph : paragraphCount,
+  }));
+}
+
+/** Index of the chapter containing a paragraph, or -1 before the first chapter. */
+export function chapterAt(ranges: ChapterRange[], paragraph: number): number {
+  return ranges.findIndex((r) => paragraph >= r.start && paragraph < r.end);
+}
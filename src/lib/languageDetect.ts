@@ -0,0 +1,79 @@
+/**
+ * Offline guess at a document's language, so "Detect automatically" only sends
+ * books to the translation service when they aren't already in the audio language.
+ * The script narrows the candidates; common function words decide between them.
+ */
+
+// Unicode script → app languages written in it
+const SCRIPT_LANGUAGES: [RegExp, string[]][] = [
+  [/\p{Script=Latin}/u, ["en", "es", "fr", "de", "it", "pt", "nl", "pl", "tr"]],
+  [/\p{Script=Cyrillic}/u, ["ru"]],
+  [/\p{Script=Arabic}/u, ["ar", "ur"]],
+  [/\p{Script=Devanagari}/u, ["hi", "mr"]],
+  [/\p{Script=Bengali}/u, ["bn"]],
+  [/\p{Script=Gurmukhi}/u, ["pa"]],
+  [/\p{Script=Gujarati}/u, ["gu"]],
+  [/\p{Script=Tamil}/u, ["ta"]],
+  [/\p{Script=Telugu}/u, ["te"]],
+  [/\p{Script=Kannada}/u, ["kn"]],
+  [/\p{Script=Malayalam}/u, ["ml"]],
+  [/\p{Script=Hangul}/u, ["ko"]],
+  [/\p{Script=Han}/u, ["zh"]],
+];
+
+// Japanese mixes kanji with kana, which Chinese doesn't use
+const KANA = /[\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
+// Frequent short words of languages that share a script
+const FUNCTION_WORDS: Record<string, string[]> = {
+  en: ["the", "and", "of", "to", "is", "in", "that", "it", "was", "for", "with", "he", "she", "you", "this", "not", "are", "have"],
+  es: ["el", "la", "de", "que", "y", "en", "los", "las", "del", "se", "por", "con", "una", "es", "para", "como", "pero", "más", "lo", "su", "al", "yo", "muy", "cuando", "sin", "ha", "no", "un"],
+  fr: ["le", "la", "les", "de", "des", "et", "est", "un", "une", "du", "que", "dans", "pour", "pas", "qui", "sur", "au", "avec", "il", "elle", "je", "ne", "ce", "mais", "vous", "nous", "était", "à"],
+  de: ["der", "die", "und", "das", "ist", "nicht", "ein", "eine", "zu", "den", "mit", "sich", "auf", "dem", "des", "ich", "sie", "es", "auch"],
+  it: ["il", "di", "che", "e", "la", "per", "un", "una", "non", "sono", "del", "della", "con", "gli", "le", "è", "ma", "come", "anche"],
+  pt: ["o", "a", "de", "que", "e", "do", "da", "em", "um", "uma", "para", "com", "não", "os", "as", "no", "na", "se", "mais", "por"],
+  nl: ["de", "het", "een", "en", "van", "is", "dat", "niet", "op", "te", "zijn", "met", "voor", "ik", "maar", "ook", "er", "aan"],
+  pl: ["i", "w", "nie", "na", "się", "z", "że", "do", "to", "jest", "jak", "o", "ale", "co", "od", "po", "tak", "jego"],
+  tr: ["ve", "bir", "bu", "da", "de", "için", "ile", "ne", "çok", "gibi", "daha", "olan", "olarak", "ama", "kadar", "değil", "sonra"],
+  ar: ["في", "من", "على", "إلى", "أن", "التي", "الذي", "عن", "هذا", "كان", "ما", "مع", "هذه"],
+  ur: ["کے", "ہے", "میں", "اور", "کی", "کا", "سے", "کو", "یہ", "نہیں", "ہیں", "تھا"],
+  hi: ["है", "और", "के", "की", "में", "से", "का", "को", "यह", "नहीं", "हैं", "था"],
+  mr: ["आहे", "आणि", "हे", "ते", "नाही", "होते", "आहेत", "मी", "तो", "या"],
+};
+
+// Enough text to judge a book by without scanning all of it
+const SAMPLE_LENGTH = 50000;
+const MIN_SCORE = 3;
+
+/** App language code of `text`, or null when there is too little text or no clear winner. */
+export function detectLanguage(text: string): string | null {
+  const sample = text.slice(0, SAMPLE_LENGTH);
+  const letters = sample.match(/\p{L}/gu) ?? [];
+  if (letters.length === 0) return null;
+
+  if (letters.filter((c) => KANA.test(c)).length > letters.length * 0.1) return "ja";
+
+  const counts = SCRIPT_LANGUAGES.map(([script]) => letters.filter((c) => script.test(c)).length);
+  const dominant = counts.indexOf(Math.max(...counts));
+  if (counts[dominant] < letters.length / 2) return null;
+  const candidates = SCRIPT_LANGUAGES[dominant][1];
+  if (candidates.length === 1) return candidates[0];
+
+  // A word shared by several candidates counts for each of them in part
+  const weights = new Map<string, Map<string, number>>();
+  for (const code of candidates) {
+    for (const word of FUNCTION_WORDS[code]) {
+      const shared = candidates.filter((c) => FUNCTION_WORDS[c].includes(word)).length;
+      if (!weights.has(word)) weights.set(word, new Map());
+      weights.get(word)!.set(code, 1 / shared);
+    }
+  }
+
+  const scores = new Map(candidates.map((code) => [code, 0]));
+  for (const word of sample.toLowerCase().split(/[^\p{L}\p{M}]+/u)) {
+    weights.get(word)?.forEach((weight, code) => scores.set(code, scores.get(code)! + weight));
+  }
+
+  const [best, second] = [...scores].sort((a, b) => b[1] - a[1]);
+  return best[1] >= MIN_SCORE && best[1] > second[1] * 1.5 ? best[0] : null;
+}
@@ -0,0 +1,291 @@
+/**
+ * Custom dictionary import and export as CSV (one rule per row, every rule
+ * option as a column) and W3C Pronunciation Lexicon Specification (PLS 1.0)
+ * files. PLS only describes whole words, so patterns, substring rules and
+ * context rules stay out of PLS exports.
+ */
+
+import { MatchMode, PronunciationRule, mergeRules, ruleError, ruleKey } from "@/lib/pronunciationDict";
+import { PhonemeAlphabet, insertSsml } from "@/lib/ssml";
+
+export type LexiconFormat = "csv" | "pls";
+
+export interface LexiconIssue {
+  /** "Line 4" for CSV, "Entry 12" for PLS */
+  at: string;
+  message: string;
+}
+
+export interface LexiconImport {
+  /** Valid rules, with later duplicates in the file replacing earlier ones */
+  rules: PronunciationRule[];
+  issues: LexiconIssue[];
+}
+
+const CSV_COLUMNS = ["term", "replacement", "mode", "case_sensitive", "priority", "before", "after"] as const;
+type CsvColumn = typeof CSV_COLUMNS[number];
+
+const MODES: MatchMode[] = ["word", "substring", "regex"];
+const PLS_NAMESPACE = "http://www.w3.org/2005/01/pronunciation-lexicon";
+const PHONEME_ALPHABETS: PhonemeAlphabet[] = ["ipa", "cmu-arpabet"];
+// A replacement that is nothing but a phoneme hint for the term, as PLS imports create
+const PHONEME_REPLACEMENT = /^<phoneme alphabet="(ipa|cmu-arpabet)" ph="([^"]*)">([^<]*)<\/phoneme>$/;
+
+export function lexiconFormat(fileName: string): LexiconFormat | null {
+  if (/\.csv$/i.test(fileName)) return "csv";
+  if (/\.(pls|xml)$/i.test(fileName)) return "pls";
+  return null;
+}
+
+// Validates each rule and reports repeats, keeping the last one like mergeRules does
+function collectRules(candidates: { at: string; rule: PronunciationRule }[], issues: LexiconIssue[]): PronunciationRule[] {
+  const seen = new Map<string, string>();
+  const valid: PronunciationRule[] = [];
+  for (const { at, rule } of candidates) {
+    const error = ruleError(rule);
+    if (error) {
+      issues.push({ at, message: error });
+      continue;
+    }
+    const previous = seen.get(ruleKey(rule));
+    if (previous) issues.push({ at, message: `Repeats ${previous.toLowerCase()}, which it replaces` });
+    seen.set(ruleKey(rule), at);
+    valid.push(rule);
+  }
+  // In file order, whichever check found them
+  const position = (issue: LexiconIssue) => Number(issue.at.match(/\d+/)?.[0] ?? 0);
+  issues.sort((a, b) => position(a) - position(b));
+  return mergeRules(valid);
+}
+
+// CSV
+
+const csvCell = (value: string) => /[",;\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function rulesToCsv(rules: PronunciationRule[]): string {
+  const rows = rules.map((rule) => [
+    rule.term,
+    rule.replacement,
+    rule.mode ?? "word",
+    String(rule.caseSensitive !== false),
+    String(rule.priority ?? 0),
+    rule.before ?? "",
+    rule.after ?? "",
+  ]);
+  return [CSV_COLUMNS.join(","), ...rows.map((row) => row.map(csvCell).join(","))].join("\r\n") + "\r\n";
+}
+
+/** RFC 4180 rows with the line each starts on; quoted cells may span lines. */
+function csvRows(text: string): { line: number; cells: string[] }[] {
+  const source = text.replace(/^\uFEFF/, "");
+  // Spreadsheets in comma-decimal locales save with semicolons
+  const firstLine = source.slice(0, source.search(/\r?\n|$/));
+  const delimiter = firstLine.includes(";") && !firstLine.includes(",") ? ";" : ",";
+
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === "\n") line++;
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && source[i + 1] === "\n") i++;
+      rows.push({ line: rowLine, cells: [...cells, cell] });
+      cells = [];
+      cell = "";
+      rowLine = ++line;
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || cells.length > 0) rows.push({ line: rowLine, cells: [...cells, cell] });
+  return rows.filter((row) => row.cells.some((c) => c.trim()));
+}
+
+function parseFlag(value: string): boolean | undefined | null {
+  const v = value.trim().toLowerCase();
+  if (v === "") return undefined;
+  if (["true", "yes", "1"].includes(v)) return true;
+  if (["false", "no", "0"].includes(v)) return false;
+  return null;
+}
+
+/**
+ * Rules from CSV. A header row names the columns (term, replacement, mode,
+ * case_sensitive, priority, before, after, in any order); without one the
+ * columns are taken in that order, so a plain two-column glossary works.
+ */
+export function rulesFromCsv(text: string): LexiconImport {
+  const rows = csvRows(text);
+  const issues: LexiconIssue[] = [];
+  let columns: (CsvColumn | null)[] = [...CSV_COLUMNS];
+
+  const header = rows[0]?.cells.map((c) => c.trim().toLowerCase().replace(/[\s-]+/g, "_"));
+  if (header?.includes("term")) {
+    columns = header.map((name) => (CSV_COLUMNS as readonly string[]).includes(name) ? name as CsvColumn : null);
+    header.forEach((name, i) => {
+      if (!columns[i] && name) issues.push({ at: "Line 1", message: `Unknown column "${rows[0].cells[i]}" is ignored` });
+    });
+    if (!columns.includes("replacement")) {
+      return { rules: [], issues: [{ at: "Line 1", message: "The header has no replacement column" }] };
+    }
+    rows.shift();
+  }
+
+  const candidates: { at: string; rule: PronunciationRule }[] = [];
+  for (const { line, cells } of rows) {
+    const at = `Line ${line}`;
+    const value = (column: CsvColumn) => cells[columns.indexOf(column)] ?? "";
+    const mode = (value("mode").trim().toLowerCase() || "word") as MatchMode;
+    const caseSensitive = parseFlag(value("case_sensitive"));
+    const priority = value("priority").trim();
+    const rule: PronunciationRule = {
+      term: mode === "regex" ? value("term") : value("term").trim(),
+      replacement: value("replacement").trim(),
+      mode,
+      caseSensitive: caseSensitive ?? true,
+      priority: priority ? Number(priority) : 0,
+      before: value("before") || undefined,
+      after: value("after") || undefined,
+    };
+
+    if (!rule.term) issues.push({ at, message: "Missing term" });
+    else if (!rule.replacement) issues.push({ at, message: `"${rule.term}" has no replacement` });
+    else if (!MODES.includes(mode)) issues.push({ at, message: `Unknown mode "${value("mode")}"; use ${MODES.join(", ")}` });
+    else if (caseSensitive === null) issues.push({ at, message: `case_sensitive should be true or false, not "${value("case_sensitive")}"` });
+    else if (!Number.isInteger(rule.priority)) issues.push({ at, message: `Priority should be a whole number, not "${priority}"` });
+    else candidates.push({ at, rule });
+  }
+  return { rules: collectRules(candidates, issues), issues };
+}
+
+// PLS
+
+const xmlEscape = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+const xmlUnescape = (value: string) =>
+  value.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"').replace(/&amp;/g, "&");
+
+/** A PLS lexicon of the whole-word rules; `skipped` counts the rules PLS cannot express. */
+export function rulesToPls(rules: PronunciationRule[], language = "und"): { xml: string; skipped: number } {
+  const exportable = rules.filter((rule) => (rule.mode ?? "word") === "word" && !rule.before && !rule.after);
+  const lexemes = exportable.map((rule) => {
+    const phoneme = rule.replacement.match(PHONEME_REPLACEMENT);
+    const pronunciation = phoneme
+      ? `<phoneme alphabet="${phoneme[1]}">${xmlEscape(xmlUnescape(phoneme[2]))}</phoneme>`
+      : `<alias>${xmlEscape(rule.replacement)}</alias>`;
+    return `  <lexeme>\n    <grapheme>${xmlEscape(rule.term)}</grapheme>\n    ${pronunciation}\n  </lexeme>`;
+  });
+  const xml = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<lexicon version="1.0" xmlns="${PLS_NAMESPACE}" alphabet="ipa" xml:lang="${xmlEscape(language)}">`,
+    ...lexemes,
+    `</lexicon>`,
+    "",
+  ].join("\n");
+  return { xml, skipped: rules.length - exportable.length };
+}
+
+/**
+ * Rules from a PLS lexicon: each grapheme of a lexeme becomes a whole-word
+ * rule. An alias is read as the replacement; otherwise an IPA or CMU phoneme
+ * becomes a <phoneme> hint around the word.
+ */
+export function rulesFromPls(xml: string): LexiconImport {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  const root = doc.documentElement;
+  if (doc.getElementsByTagName("parsererror").length > 0 || root.localName !== "lexicon") {
+    return { rules: [], issues: [{ at: "File", message: "Not a PLS lexicon (expected XML with a <lexicon> root)" }] };
+  }
+
+  const issues: LexiconIssue[] = [];
+  const candidates: { at: string; rule: PronunciationRule }[] = [];
+  const defaultAlphabet = root.getAttribute("alphabet") ?? "ipa";
+  const children = (el: Element, name: string) => Array.from(el.children).filter((c) => c.localName === name);
+
+  children(root, "lexeme").forEach((lexeme, i) => {
+    const at = `Entry ${i + 1}`;
+    const graphemes = children(lexeme, "grapheme").map((g) => g.textContent?.trim() ?? "").filter(Boolean);
+    const alias = children(lexeme, "alias")[0]?.textContent?.trim();
+    const phoneme = children(lexeme, "phoneme")[0];
+    const ph = phoneme?.textContent?.trim();
+    const alphabet = phoneme?.getAttribute("alphabet") ?? lexeme.getAttribute("alphabet") ?? defaultAlphabet;
+
+    if (graphemes.length === 0) {
+      issues.push({ at, message: "Missing grapheme" });
+    } else if (!alias && !ph) {
+      issues.push({ at, message: `"${graphemes[0]}" has no alias or phoneme` });
+    } else if (!alias && !PHONEME_ALPHABETS.includes(alphabet as PhonemeAlphabet)) {
+      issues.push({ at, message: `"${graphemes[0]}" uses the ${alphabet} alphabet; only ${PHONEME_ALPHABETS.join(" and ")} are supported` });
+    } else {
+      for (const term of graphemes) {
+        const replacement = alias
+          ?? insertSsml(term, 0, term.length, { tag: "phoneme", ph: ph!, alphabet: alphabet as PhonemeAlphabet }).text;
+        candidates.push({ at, rule: { term, replacement } });
+      }
+    }
+  });
+  return { rules: collectRules(candidates, issues), issues };
+}
+
+export function readLexicon(format: LexiconFormat, text: string): LexiconImport {
+  return format === "csv" ? rulesFromCsv(text) : rulesFromPls(text);
+}
+
+// Comparing an import with what is already there
+
+export type ImportStatus = "new" | "changed" | "unchanged" | "builtIn" | "overridesBuiltIn";
+
+export interface ImportReview {
+  rule: PronunciationRule;
+  status: ImportStatus;
+  /** The replacement being changed or overridden */
+  previous?: string;
+}
+
+/**
+ * How each imported rule relates to the current entries and the built-in
+ * rules: a rule with the same key as an entry is unchanged or changes it, and
+ * one matching a built-in either repeats or overrides it.
+ */
+export function reviewImport(
+  imported: PronunciationRule[],
+  existing: PronunciationRule[],
+  builtIns: PronunciationRule[]
+): ImportReview[] {
+  const current = new Map(existing.map((rule) => [ruleKey(rule), rule]));
+  const defaults = new Map(builtIns.map((rule) => [ruleKey(rule), rule]));
+  return imported.map((rule) => {
+    const entry = current.get(ruleKey(rule));
+    if (entry) {
+      return entry.replacement === rule.replacement && (entry.priority ?? 0) === (rule.priority ?? 0)
+        && (entry.caseSensitive !== false) === (rule.caseSensitive !== false)
+        ? { rule, status: "unchanged" }
+        : { rule, status: "changed", previous: entry.replacement };
+    }
+    const builtIn = defaults.get(ruleKey(rule));
+    if (builtIn) {
+      return builtIn.replacement === rule.replacement
+        ? { rule, status: "builtIn" }
+        : { rule, status: "overridesBuiltIn", previous: builtIn.replacement };
+    }
+    return { rule, status: "new" };
+  });
+}
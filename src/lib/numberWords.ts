@@ -0,0 +1,321 @@
+/**
+ * Numbers as words for the languages the text normalizer spells out.
+ * Cardinals cover 0 to just under a trillion (a thousand billion in the long-scale languages).
+ */
+
+export interface NumberSpeller {
+  cardinal(n: number): string;
+  ordinal(n: number, feminine?: boolean): string;
+  /** How a calendar year is read; the cardinal where the language has no special form */
+  year(n: number): string;
+}
+
+// Ordinals 1–10 in the Romance languages, masculine; larger ones fall back to the cardinal
+function romanceOrdinal(table: string[], cardinal: (n: number) => string) {
+  return (n: number, feminine = false) => {
+    const word = n >= 1 && n <= 10 ? table[n - 1] : cardinal(n);
+    return feminine && n <= 10 ? word.replace(/o$/, "a") : word;
+  };
+}
+
+// ── English ──────────────────────────────────────────────────────────
+
+const EN_ONES = [
+  "zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten",
+  "eleven", "twelve", "thirteen", "fourteen", "fifteen", "sixteen", "seventeen", "eighteen", "nineteen",
+];
+const EN_TENS = ["", "", "twenty", "thirty", "forty", "fifty", "sixty", "seventy", "eighty", "ninety"];
+const EN_SCALES = ["", "thousand", "million", "billion"];
+const EN_ORDINALS: Record<string, string> = {
+  one: "first", two: "second", three: "third", five: "fifth", eight: "eighth", nine: "ninth", twelve: "twelfth",
+};
+
+function enBelowThousand(n: number): string {
+  const parts: string[] = [];
+  if (n >= 100) parts.push(`${EN_ONES[Math.floor(n / 100)]} hundred`);
+  const rest = n % 100;
+  if (rest >= 20) parts.push(EN_TENS[Math.floor(rest / 10)] + (rest % 10 ? `-${EN_ONES[rest % 10]}` : ""));
+  else if (rest > 0) parts.push(EN_ONES[rest]);
+  return parts.join(" ");
+}
+
+function enCardinal(n: number): string {
+  if (n === 0) return "zero";
+  const parts: string[] = [];
+  for (let scale = 0; n > 0; scale++, n = Math.floor(n / 1000)) {
+    const group = n % 1000;
+    if (group) parts.unshift(enBelowThousand(group) + (EN_SCALES[scale] ? ` ${EN_SCALES[scale]}` : ""));
+  }
+  return parts.join(" ");
+}
+
+function enOrdinal(n: number): string {
+  const words = enCardinal(n);
+  const last = words.match(/[a-z]+$/)![0];
+  const ordinal = EN_ORDINALS[last] ?? (last.endsWith("y") ? `${last.slice(0, -1)}ieth` : `${last}th`);
+  return words.slice(0, -last.length) + ordinal;
+}
+
+// 1990 → nineteen ninety, 1905 → nineteen oh five, 1900 → nineteen hundred, 2005 → two thousand five
+function enYear(n: number): string {
+  if (n < 1000 || n > 9999 || (n >= 2000 && n < 2010) || n % 1000 === 0) return enCardinal(n);
+  const high = Math.floor(n / 100);
+  const low = n % 100;
+  if (low === 0) return `${enCardinal(high)} hundred`;
+  return `${enCardinal(high)} ${low < 10 ? `oh ${enCardinal(low)}` : enCardinal(low)}`;
+}
+
+// ── Spanish ──────────────────────────────────────────────────────────
+
+const ES_UNITS = [
+  "cero", "uno", "dos", "tres", "cuatro", "cinco", "seis", "siete", "ocho", "nueve", "diez",
+  "once", "doce", "trece", "catorce", "quince", "dieciséis", "diecisiete", "dieciocho", "diecinueve",
+  "veinte", "veintiuno", "veintidós", "veintitrés", "veinticuatro", "veinticinco", "veintiséis",
+  "veintisiete", "veintiocho", "veintinueve",
+];
+const ES_TENS = ["", "", "", "treinta", "cuarenta", "cincuenta", "sesenta", "setenta", "ochenta", "noventa"];
+const ES_HUNDREDS = [
+  "", "ciento", "doscientos", "trescientos", "cuatrocientos", "quinientos",
+  "seiscientos", "setecientos", "ochocientos", "novecientos",
+];
+
+function esBelowThousand(n: number): string {
+  if (n === 100) return "cien";
+  const parts: string[] = [];
+  if (n >= 100) parts.push(ES_HUNDREDS[Math.floor(n / 100)]);
+  const rest = n % 100;
+  if (rest >= 30) parts.push(ES_TENS[Math.floor(rest / 10)] + (rest % 10 ? ` y ${ES_UNITS[rest % 10]}` : ""));
+  else if (rest > 0) parts.push(ES_UNITS[rest]);
+  return parts.join(" ");
+}
+
+// "uno" shortens before a noun: veintiún mil, treinta y un millones
+const esApocope = (words: string) => words.replace(/veintiuno$/, "veintiún").replace(/uno$/, "un");
+
+function esCardinal(n: number): string {
+  if (n === 0) return "cero";
+  const millions = Math.floor(n / 1e6);
+  const thousands = Math.floor(n / 1000) % 1000;
+  const rest = n % 1000;
+  const parts: string[] = [];
+  if (millions) parts.push(millions === 1 ? "un millón" : `${esApocope(esCardinal(millions))} millones`);
+  if (thousands) parts.push(thousands === 1 ? "mil" : `${esApocope(esBelowThousand(thousands))} mil`);
+  if (rest) parts.push(esBelowThousand(rest));
+  return parts.join(" ");
+}
+
+// ── French ───────────────────────────────────────────────────────────
+
+const FR_UNITS = [
+  "zéro", "un", "deux", "trois", "quatre", "cinq", "six", "sept", "huit", "neuf", "dix",
+  "onze", "douze", "treize", "quatorze", "quinze", "seize",
+];
+const FR_TENS = ["", "dix", "vingt", "trente", "quarante", "cinquante", "soixante"];
+
+function frBelowHundred(n: number): string {
+  if (n <= 16) return FR_UNITS[n];
+  if (n < 20) return `dix-${FR_UNITS[n - 10]}`;
+  const tens = Math.floor(n / 10);
+  const unit = n % 10;
+  if (tens <= 6) return FR_TENS[tens] + (unit === 0 ? "" : unit === 1 ? " et un" : `-${FR_UNITS[unit]}`);
+  if (tens === 7) return n === 71 ? "soixante et onze" : `soixante-${frBelowHundred(n - 60)}`;
+  return n === 80 ? "quatre-vingts" : `quatre-vingt-${frBelowHundred(n - 80)}`;
+}
+
+function frBelowThousand(n: number): string {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  if (!hundreds) return frBelowHundred(rest);
+  const head = hundreds === 1 ? "cent" : `${FR_UNITS[hundreds]} cent${rest === 0 ? "s" : ""}`;
+  return rest ? `${head} ${frBelowHundred(rest)}` : head;
+}
+
+// "cents" and "vingts" lose their s when another word follows: deux cent mille
+const frInvariable = (words: string) => words.replace(/(cent|vingt)s$/, "$1");
+
+function frCardinal(n: number): string {
+  if (n === 0) return "zéro";
+  const billions = Math.floor(n / 1e9);
+  const millions = Math.floor(n / 1e6) % 1000;
+  const thousands = Math.floor(n / 1000) % 1000;
+  const rest = n % 1000;
+  const parts: string[] = [];
+  if (billions) parts.push(`${frCardinal(billions)} milliard${billions > 1 ? "s" : ""}`);
+  if (millions) parts.push(`${frBelowThousand(millions)} million${millions > 1 ? "s" : ""}`);
+  if (thousands) parts.push(thousands === 1 ? "mille" : `${frInvariable(frBelowThousand(thousands))} mille`);
+  if (rest) parts.push(frBelowThousand(rest));
+  return parts.join(" ");
+}
+
+function frOrdinal(n: number, feminine = false): string {
+  if (n === 1) return feminine ? "première" : "premier";
+  const words = frInvariable(frCardinal(n));
+  if (words.endsWith("cinq")) return `${words}uième`;
+  if (words.endsWith("neuf")) return `${words.slice(0, -1)}vième`;
+  if (words.endsWith("e")) return `${words.slice(0, -1)}ième`;
+  return `${words}ième`;
+}
+
+// ── German ───────────────────────────────────────────────────────────
+
+const DE_UNITS = [
+  "null", "eins", "zwei", "drei", "vier", "fünf", "sechs", "sieben", "acht", "neun", "zehn",
+  "elf", "zwölf", "dreizehn", "vierzehn", "fünfzehn", "sechzehn", "siebzehn", "achtzehn", "neunzehn",
+];
+const DE_TENS = ["", "", "zwanzig", "dreißig", "vierzig", "fünfzig", "sechzig", "siebzig", "achtzig", "neunzig"];
+const DE_ORDINALS: Record<number, string> = { 1: "erste", 3: "dritte", 7: "siebte", 8: "achte" };
+
+// "eins" becomes "ein" inside compounds: einundzwanzig, einhundert
+function deBelowHundred(n: number): string {
+  if (n < 20) return DE_UNITS[n];
+  const unit = n % 10;
+  const tens = DE_TENS[Math.floor(n / 10)];
+  return unit ? `${unit === 1 ? "ein" : DE_UNITS[unit]}und${tens}` : tens;
+}
+
+function deBelowThousand(n: number): string {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  return (hundreds ? `${hundreds === 1 ? "ein" : DE_UNITS[hundreds]}hundert` : "") + (rest ? deBelowHundred(rest) : "");
+}
+
+function deCardinal(n: number): string {
+  if (n === 0) return "null";
+  const millions = Math.floor(n / 1e6);
+  const thousands = Math.floor(n / 1000) % 1000;
+  const rest = n % 1000;
+  const parts: string[] = [];
+  if (millions) parts.push(millions === 1 ? "eine Million" : `${deCardinal(millions)} Millionen`);
+  // Everything below a million is written as one word
+  const small = (thousands ? `${thousands === 1 ? "ein" : deBelowThousand(thousands)}tausend` : "")
+    + (rest ? deBelowThousand(rest) : "");
+  if (small) parts.push(small);
+  return parts.join(" ");
+}
+
+function deOrdinal(n: number): string {
+  if (n < 20) return DE_ORDINALS[n] ?? `${DE_UNITS[n]}te`;
+  const rest = n % 100;
+  if (n >= 100 && rest > 0 && rest < 20) return deCardinal(n - rest) + deOrdinal(rest);
+  return `${deCardinal(n)}ste`;
+}
+
+// 1990 → neunzehnhundertneunzig
+function deYear(n: number): string {
+  if (n < 1100 || n > 1999) return deCardinal(n);
+  const rest = n % 100;
+  return `${deBelowHundred(Math.floor(n / 100))}hundert${rest ? deBelowHundred(rest) : ""}`;
+}
+
+// ── Italian ──────────────────────────────────────────────────────────
+
+const IT_UNITS = [
+  "zero", "uno", "due", "tre", "quattro", "cinque", "sei", "sette", "otto", "nove", "dieci",
+  "undici", "dodici", "tredici", "quattordici", "quindici", "sedici", "diciassette", "diciotto", "diciannove",
+];
+const IT_TENS = ["", "", "venti", "trenta", "quaranta", "cinquanta", "sessanta", "settanta", "ottanta", "novanta"];
+const IT_ORDINALS = ["primo", "secondo", "terzo", "quarto", "quinto", "sesto", "settimo", "ottavo", "nono", "decimo"];
+
+// Tens drop their last vowel before "uno" and "otto"; a final "tre" takes an accent
+function itBelowHundred(n: number): string {
+  if (n < 20) return IT_UNITS[n];
+  const tens = IT_TENS[Math.floor(n / 10)];
+  const unit = n % 10;
+  if (!unit) return tens;
+  return (unit === 1 || unit === 8 ? tens.slice(0, -1) : tens) + (unit === 3 ? "tré" : IT_UNITS[unit]);
+}
+
+function itBelowThousand(n: number): string {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  const head = hundreds === 0 ? "" : hundreds === 1 ? "cento" : `${IT_UNITS[hundreds]}cento`;
+  if (!rest) return head;
+  const tail = itBelowHundred(rest);
+  return (head && tail.startsWith("ott") ? head.slice(0, -1) : head) + tail;
+}
+
+function itCardinal(n: number): string {
+  if (n === 0) return "zero";
+  const millions = Math.floor(n / 1e6);
+  const thousands = Math.floor(n / 1000) % 1000;
+  const rest = n % 1000;
+  const parts: string[] = [];
+  if (millions) parts.push(millions === 1 ? "un milione" : `${itCardinal(millions)} milioni`);
+  const small = (thousands ? (thousands === 1 ? "mille" : `${itBelowThousand(thousands)}mila`) : "")
+    + (rest ? itBelowThousand(rest) : "");
+  if (small) parts.push(small);
+  return parts.join(" ");
+}
+
+function itOrdinal(n: number, feminine = false): string {
+  let word: string;
+  if (n >= 1 && n <= 10) word = IT_ORDINALS[n - 1];
+  else {
+    const cardinal = itCardinal(n);
+    if (cardinal.endsWith("tré")) word = `${cardinal.slice(0, -1)}eesimo`;
+    else if (cardinal.endsWith("sei")) word = `${cardinal}esimo`;
+    else word = `${cardinal.slice(0, -1)}esimo`;
+  }
+  return feminine ? word.replace(/o$/, "a") : word;
+}
+
+// ── Portuguese ───────────────────────────────────────────────────────
+
+const PT_UNITS = [
+  "zero", "um", "dois", "três", "quatro", "cinco", "seis", "sete", "oito", "nove", "dez",
+  "onze", "doze", "treze", "catorze", "quinze", "dezesseis", "dezessete", "dezoito", "dezenove",
+];
+const PT_TENS = ["", "", "vinte", "trinta", "quarenta", "cinquenta", "sessenta", "setenta", "oitenta", "noventa"];
+const PT_HUNDREDS = [
+  "", "cento", "duzentos", "trezentos", "quatrocentos", "quinhentos",
+  "seiscentos", "setecentos", "oitocentos", "novecentos",
+];
+
+function ptBelowThousand(n: number): string {
+  if (n === 100) return "cem";
+  const parts: string[] = [];
+  if (n >= 100) parts.push(PT_HUNDREDS[Math.floor(n / 100)]);
+  const rest = n % 100;
+  if (rest >= 20) parts.push(PT_TENS[Math.floor(rest / 10)] + (rest % 10 ? ` e ${PT_UNITS[rest % 10]}` : ""));
+  else if (rest > 0) parts.push(PT_UNITS[rest]);
+  return parts.join(" e ");
+}
+
+function ptCardinal(n: number): string {
+  if (n === 0) return "zero";
+  const millions = Math.floor(n / 1e6);
+  const thousands = Math.floor(n / 1000) % 1000;
+  const rest = n % 1000;
+  const parts: string[] = [];
+  if (millions) parts.push(millions === 1 ? "um milhão" : `${ptCardinal(millions)} milhões`);
+  if (thousands) parts.push(thousands === 1 ? "mil" : `${ptBelowThousand(thousands)} mil`);
+  if (rest) {
+    // "e" joins a last group below a hundred or a round hundred: mil e quinhentos
+    const joiner = parts.length > 0 && (rest < 100 || rest % 100 === 0) ? "e " : "";
+    parts.push(joiner + ptBelowThousand(rest));
+  }
+  return parts.join(" ");
+}
+
+export const NUMBER_SPELLERS: Record<string, NumberSpeller> = {
+  en: { cardinal: enCardinal, ordinal: enOrdinal, year: enYear },
+  es: {
+    cardinal: esCardinal,
+    ordinal: romanceOrdinal(
+      ["primero", "segundo", "tercero", "cuarto", "quinto", "sexto", "séptimo", "octavo", "noveno", "décimo"],
+      esCardinal
+    ),
+    year: esCardinal,
+  },
+  fr: { cardinal: frCardinal, ordinal: frOrdinal, year: frCardinal },
+  de: { cardinal: deCardinal, ordinal: deOrdinal, year: deYear },
+  it: { cardinal: itCardinal, ordinal: itOrdinal, year: itCardinal },
+  pt: {
+    cardinal: ptCardinal,
+    ordinal: romanceOrdinal(
+      ["primeiro", "segundo", "terceiro", "quarto", "quinto", "sexto", "sétimo", "oitavo", "nono", "décimo"],
+      ptCardinal
+    ),
+    year: ptCardinal,
+  },
+};
@@ -0,0 +1,140 @@
+/**
+ * OCR with Tesseract: language selection, script auto-detection and
+ * bundled assets (copied to /tesseract at build time, see vite.config.ts)
+ * so OCR works offline.
+ */
+
+import type Tesseract from "tesseract.js";
+
+// App language code → Tesseract traineddata name
+export const OCR_LANGUAGE_CODES: Record<string, string> = {
+  en: "eng", hi: "hin", ta: "tam", te: "tel", bn: "ben", mr: "mar", gu: "guj", kn: "kan",
+  ml: "mal", pa: "pan", ur: "urd", es: "spa", fr: "fra", de: "deu", it: "ita", pt: "por",
+  zh: "chi_sim", ja: "jpn", ar: "ara", ko: "kor", nl: "nld", pl: "pol", tr: "tur",
+};
+
+// Script reported by orientation/script detection → language to recognize it with
+const SCRIPT_LANGUAGES: Record<string, string> = {
+  Latin: "en", Arabic: "ar", Devanagari: "hi", Bengali: "bn", Gurmukhi: "pa",
+  Gujarati: "gu", Tamil: "ta", Telugu: "te", Kannada: "kn", Malayalam: "ml", Han: "zh",
+  Hangul: "ko", Japanese: "ja", Hiragana: "ja", Katakana: "ja",
+};
+
+const ASSET_PATH = "/tesseract";
+
+const WORKER_OPTIONS: Partial<Tesseract.WorkerOptions> = {
+  workerPath: `${ASSET_PATH}/worker.min.js`,
+  corePath: `${ASSET_PATH}/core`,
+  langPath: `${ASSET_PATH}/lang`,
+  logger: () => {},
+};
+
+export interface OcrResult {
+  text: string;
+  /** Mean word confidence, 0–100 */
+  confidence: number;
+  /** App language codes the text was recognized with */
+  languages: string[];
+}
+
+export type OcrImage = File | Blob | HTMLCanvasElement;
+
+/** Create a worker for the given app language codes. */
+export async function createOcrWorker(languages: string[]): Promise<Tesseract.Worker> {
+  const Tesseract = await import("tesseract.js");
+  const traineddata = languages.map((l) => OCR_LANGUAGE_CODES[l]).filter(Boolean);
+  const langs = traineddata.length > 0 ? traineddata : ["eng"];
+  return Tesseract.createWorker(langs, Tesseract.OEM.LSTM_ONLY, WORKER_OPTIONS);
+}
+
+/** Detect the dominant script and return the matching app language, or null if unsure. */
+export async function detectOcrLanguage(image: OcrImage): Promise<string | null> {
+  const Tesseract = await import("tesseract.js");
+  // Script detection needs the legacy engine and its osd.traineddata
+  const worker = await Tesseract.createWorker("osd", Tesseract.OEM.TESSERACT_ONLY, {
+    ...WORKER_OPTIONS,
+    langPath: `${ASSET_PATH}/lang/legacy`,
+    legacyCore: true,
+    legacyLang: true,
+  });
+  try {
+    const { data } = await worker.detect(image);
+    return (data.script && SCRIPT_LANGUAGES[data.script]) || null;
+  } catch (err) {
+    console.error("OCR script detection failed:", err);
+    return null;
+  } finally {
+    await worker.terminate();
+  }
+}
+
+export interface OcrSession {
+  recognize(image: OcrImage): Promise<OcrResult>;
+  terminate(): Promise<void>;
+}
+
+/**
+ * Recognizer for a run of pages sharing one worker. With no languages given
+ * the script is detected on the first page, falling back to English.
+ */
+export function createOcrSession(languages: string[] = []): OcrSession {
+  let langs = languages;
+  let worker: Promise<Tesseract.Worker> | null = null;
+
+  return {
+    async recognize(image) {
+      if (!worker) {
+        if (langs.length === 0) langs = [(await detectOcrLanguage(image)) ?? "en"];
+        worker = createOcrWorker(langs);
+      }
+      const { data } = await (await worker).recognize(image);
+      return { text: data.text.trim(), confidence: data.confidence, languages: langs };
+    },
+    async terminate() {
+      if (worker) await (await worker).terminate();
+    },
+  };
+}
+
+export async function recognizeImage(image: OcrImage, languages: string[] = []): Promise<OcrResult> {
+  const session = createOcrSession(languages);
+  try {
+    return await session.recognize(image);
+  } finally {
+    await session.terminate();
+  }
+}
+
+export interface BatchOcrOptions {
+  languages?: string[];
+  /** Number of Tesseract workers; defaults to one per spare core, at most 4 */
+  concurrency?: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Recognize many images with a pool of workers. Jobs are queued in order and
+ * results keep that order. Without languages the script of the first image is used.
+ */
+export async function recognizeImages(images: OcrImage[], options: BatchOcrOptions = {}): Promise<OcrResult[]> {
+  if (images.length === 0) return [];
+  const Tesseract = await import("tesseract.js");
+  const langs = options.languages?.length ? options.languages : [(await detectOcrLanguage(images[0])) ?? "en"];
+  const defaultSize = Math.min(4, Math.max(1, (navigator.hardwareConcurrency || 2) - 1));
+  const size = Math.max(1, Math.min(options.concurrency ?? defaultSize, images.length));
+
+  const scheduler = Tesseract.createScheduler();
+  try {
+    await Promise.all(Array.from({ length: size }, async () => scheduler.addWorker(await createOcrWorker(langs))));
+
+    let done = 0;
+    options.onProgress?.(0, images.length);
+    return await Promise.all(images.map(async (image) => {
+      const { data } = await scheduler.addJob("recognize", image);
+      options.onProgress?.(++done, images.length);
+      return { text: data.text.trim(), confidence: data.confidence, languages: langs };
+    }));
+  } finally {
+    await scheduler.terminate();
+  }
+}
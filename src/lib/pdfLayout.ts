@@ -0,0 +1,206 @@
+/**
+ * Reading-order text reconstruction for PDF pages.
+ * pdf.js returns positioned text runs; this rebuilds lines from their
+ * coordinates, orders multi-column layouts column by column, and breaks
+ * paragraphs on spacing, indentation and font size changes.
+ */
+
+export interface PdfTextItem {
+  str: string;
+  /** [a, b, c, d, x, y] text-space transform; y grows upwards */
+  transform: number[];
+  width: number;
+  height: number;
+  hasEOL?: boolean;
+}
+
+interface Line {
+  text: string;
+  x: number;
+  endX: number;
+  y: number;
+  size: number;
+}
+
+interface Glyph {
+  item: PdfTextItem;
+  x: number;
+  endX: number;
+  y: number;
+  size: number;
+}
+
+const TERMINAL_PUNCTUATION = /[.!?…:;"”’»)\]]$/;
+// Heading lines are noticeably larger than body text
+const HEADING_RATIO = 1.15;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[sorted.length >> 1];
+}
+
+/** Join two consecutive lines of a paragraph, undoing end-of-line hyphenation. */
+function joinLines(first: string, second: string): string {
+  if (first.endsWith("\u00AD")) return first.slice(0, -1) + second;
+  if (/\p{L}-$/u.test(first) && /^\p{Ll}/u.test(second)) return first.slice(0, -1) + second;
+  return `${first} ${second}`;
+}
+
+/** Whether text after a column or page break continues the previous paragraph. */
+function continuesParagraph(previous: string, next: string): boolean {
+  return !TERMINAL_PUNCTUATION.test(previous) && /^\p{Ll}/u.test(next);
+}
+
+/** Group items into rows by baseline, then split rows into runs at wide gaps such as column gutters. */
+function buildLines(items: PdfTextItem[]): Line[] {
+  const glyphs: Glyph[] = items
+    .filter((item) => item.str.trim())
+    .map((item) => {
+      const size = item.height || Math.hypot(item.transform[2], item.transform[3]) || 10;
+      return { item, x: item.transform[4], endX: item.transform[4] + item.width, y: item.transform[5], size };
+    })
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const rows: Glyph[][] = [];
+  for (const glyph of glyphs) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row[0].y - glyph.y) <= Math.min(row[0].size, glyph.size) * 0.4) row.push(glyph);
+    else rows.push([glyph]);
+  }
+
+  const lines: Line[] = [];
+  for (const row of rows) {
+    row.sort((a, b) => a.x - b.x);
+    let line: Line | null = null;
+    let prev: Glyph | null = null;
+
+    for (const glyph of row) {
+      const gap = prev ? glyph.x - prev.endX : 0;
+      if (!line || !prev || prev.item.hasEOL || gap > Math.max(glyph.size, prev.size) * 1.5) {
+        line = { text: glyph.item.str, x: glyph.x, endX: glyph.endX, y: glyph.y, size: glyph.size };
+        lines.push(line);
+      } else {
+        const needsSpace = gap > glyph.size * 0.15 && !/\s$/.test(line.text) && !/^\s/.test(glyph.item.str);
+        line.text += (needsSpace ? " " : "") + glyph.item.str;
+        line.endX = Math.max(line.endX, glyph.endX);
+        line.size = Math.max(line.size, glyph.size);
+      }
+      prev = glyph;
+    }
+  }
+
+  return lines
+    .map((line) => ({ ...line, text: line.text.replace(/\s+/g, " ").trim() }))
+    .filter((line) => line.text);
+}
+
+/** Find an x position in the middle of the text area that (almost) no line crosses. */
+function findGutter(lines: Line[]): number | null {
+  const left = Math.min(...lines.map((l) => l.x));
+  const right = Math.max(...lines.map((l) => l.endX));
+  const width = right - left;
+  const minSide = Math.max(3, lines.length * 0.2);
+  let best: { x: number; crossing: number } | null = null;
+
+  for (const candidate of lines.map((l) => l.endX)) {
+    if (candidate < left + width * 0.2 || candidate > right - width * 0.2) continue;
+    const x = candidate + 0.5;
+    const leftCount = lines.filter((l) => l.endX <= x).length;
+    const rightCount = lines.filter((l) => l.x >= x).length;
+    const crossing = lines.length - leftCount - rightCount;
+    if (leftCount < minSide || rightCount < minSide || crossing > lines.length * 0.2) continue;
+    if (!best || crossing < best.crossing) best = { x, crossing };
+  }
+
+  return best?.x ?? null;
+}
+
+/**
+ * Split lines into blocks in reading order. Lines spanning the gutter (titles,
+ * full-width captions) separate bands; within a band the left column
+ * is read before the right, recursively for three or more columns.
+ */
+function orderBlocks(lines: Line[]): Line[][] {
+  const gutter = lines.length >= 6 ? findGutter(lines) : null;
+  if (gutter === null) return [lines];
+
+  const blocks: Line[][] = [];
+  let band: Line[] = [];
+  const flushBand = () => {
+    if (band.length === 0) return;
+    const leftColumn = band.filter((l) => l.endX <= gutter);
+    const rightColumn = band.filter((l) => l.x >= gutter);
+    if (leftColumn.length) blocks.push(...orderBlocks(leftColumn));
+    if (rightColumn.length) blocks.push(...orderBlocks(rightColumn));
+    band = [];
+  };
+
+  for (const line of lines) {
+    if (line.x < gutter && line.endX > gutter) {
+      flushBand();
+      blocks.push([line]);
+    } else {
+      band.push(line);
+    }
+  }
+  flushBand();
+  return blocks;
+}
+
+/** Break one column block into paragraphs. */
+function blockParagraphs(lines: Line[], bodySize: number): string[] {
+  const lineGap = median(lines.slice(1).map((l, i) => lines[i].y - l.y).filter((d) => d > 0)) || bodySize * 1.2;
+  const left = median(lines.map((l) => l.x));
+  const right = Math.max(...lines.map((l) => l.endX));
+  const paragraphs: string[] = [];
+
+  lines.forEach((line, i) => {
+    const prev = lines[i - 1];
+    const isHeading = line.size > bodySize * HEADING_RATIO;
+    const startsParagraph = !prev
+      || isHeading !== (prev.size > bodySize * HEADING_RATIO)
+      || Math.abs(line.size - prev.size) > bodySize * 0.1
+      || prev.y - line.y > lineGap * 1.4
+      || (!isHeading && line.x > left + bodySize * 0.8)
+      || (prev.endX < right - bodySize * 4 && TERMINAL_PUNCTUATION.test(prev.text));
+
+    if (startsParagraph) paragraphs.push(line.text);
+    else paragraphs[paragraphs.length - 1] = joinLines(paragraphs[paragraphs.length - 1], line.text);
+  });
+
+  return paragraphs;
+}
+
+/** Rebuild the text of one page as paragraphs separated by blank lines. */
+export function reconstructPageText(items: PdfTextItem[]): string {
+  const lines = buildLines(items);
+  if (lines.length === 0) return "";
+
+  const bodySize = median(lines.map((l) => l.size));
+  const paragraphs: string[] = [];
+
+  for (const block of orderBlocks(lines)) {
+    blockParagraphs(block, bodySize).forEach((paragraph, i) => {
+      const last = paragraphs[paragraphs.length - 1];
+      // A paragraph running from the bottom of one column to the top of the next
+      if (i === 0 && last && continuesParagraph(last, paragraph)) {
+        paragraphs[paragraphs.length - 1] = joinLines(last, paragraph);
+      } else {
+        paragraphs.push(paragraph);
+      }
+    });
+  }
+
+  return paragraphs.join("\n\n");
+}
+
+/** Join reconstructed pages, merging paragraphs split across a page break. */
+export function joinPageTexts(pages: string[]): string {
+  return pages.reduce((text, page) => {
+    const next = page.trim();
+    if (!next) return text;
+    if (!text) return next;
+    return continuesParagraph(text, next) ? joinLines(text, next) : `${text}\n\n${next}`;
+  }, "");
+}
@@ -3,7 +3,7 @@
  * Maps abbreviations/acronyms to their spoken form.
  */
 
-export const DEFAULT_DICTIONARY: Record<string, string> = {
+const ENGLISH: Record<string, string> = {
   // Tech terms
   "SQL": "sequel",
   "API": "A P I",
@@ -55,25 +55,413 @@ export const DEFAULT_DICTIONARY: Record<string, string> = {
 };
 
 /**
- * Apply pronunciation dictionary to text.
- * Replaces exact word matches (case-sensitive for acronyms).
+ * Built-in corrections per book language (codes from LANGUAGES): titles,
+ * common abbreviations and units, spelled out the way a narrator would say them.
+ */
+export const DEFAULT_DICTIONARIES: Record<string, Record<string, string>> = {
+  en: ENGLISH,
+
+  // Indian languages; Latin-script units and "Rs." are common in running text
+  hi: {
+    "डॉ.": "डॉक्टर", "प्रो.": "प्रोफेसर", "रु.": "रुपये", "Rs.": "रुपये", "कि.मी.": "किलोमीटर",
+    "km": "किलोमीटर", "kg": "किलोग्राम", "cm": "सेंटीमीटर",
+  },
+  ta: {
+    "டாக்.": "டாக்டர்", "Dr.": "டாக்டர்", "ரூ.": "ரூபாய்", "Rs.": "ரூபாய்",
+    "km": "கிலோமீட்டர்", "kg": "கிலோகிராம்", "cm": "சென்டிமீட்டர்",
+  },
+  te: {
+    "డా.": "డాక్టర్", "Dr.": "డాక్టర్", "రూ.": "రూపాయలు", "Rs.": "రూపాయలు",
+    "km": "కిలోమీటర్లు", "kg": "కిలోగ్రాములు", "cm": "సెంటీమీటర్లు",
+  },
+  bn: {
+    "ডা.": "ডাক্তার", "Dr.": "ডাক্তার", "টা.": "টাকা", "Rs.": "টাকা",
+    "km": "কিলোমিটার", "kg": "কিলোগ্রাম", "cm": "সেন্টিমিটার",
+  },
+  mr: {
+    "डॉ.": "डॉक्टर", "प्रा.": "प्राध्यापक", "रु.": "रुपये", "Rs.": "रुपये", "इ.": "इत्यादी",
+    "km": "किलोमीटर", "kg": "किलोग्रॅम", "cm": "सेंटिमीटर",
+  },
+  gu: {
+    "ડૉ.": "ડૉક્ટર", "Dr.": "ડૉક્ટર", "રૂ.": "રૂપિયા", "Rs.": "રૂપિયા",
+    "km": "કિલોમીટર", "kg": "કિલોગ્રામ", "cm": "સેન્ટિમીટર",
+  },
+  kn: {
+    "ಡಾ.": "ಡಾಕ್ಟರ್", "Dr.": "ಡಾಕ್ಟರ್", "ರೂ.": "ರೂಪಾಯಿ", "Rs.": "ರೂಪಾಯಿ",
+    "km": "ಕಿಲೋಮೀಟರ್", "kg": "ಕಿಲೋಗ್ರಾಂ", "cm": "ಸೆಂಟಿಮೀಟರ್",
+  },
+  ml: {
+    "ഡോ.": "ഡോക്ടർ", "Dr.": "ഡോക്ടർ", "രൂ.": "രൂപ", "Rs.": "രൂപ",
+    "km": "കിലോമീറ്റർ", "kg": "കിലോഗ്രാം", "cm": "സെന്റിമീറ്റർ",
+  },
+  pa: {
+    "ਡਾ.": "ਡਾਕਟਰ", "Dr.": "ਡਾਕਟਰ", "ਰੁ.": "ਰੁਪਏ", "Rs.": "ਰੁਪਏ",
+    "km": "ਕਿਲੋਮੀਟਰ", "kg": "ਕਿਲੋਗ੍ਰਾਮ", "cm": "ਸੈਂਟੀਮੀਟਰ",
+  },
+  ur: {
+    "Dr.": "ڈاکٹر", "Rs.": "روپے",
+    "km": "کلومیٹر", "kg": "کلوگرام", "cm": "سینٹی میٹر",
+  },
+
+  // European languages
+  es: {
+    "Sr.": "Señor", "Sra.": "Señora", "Srta.": "Señorita", "Dr.": "Doctor", "Dra.": "Doctora",
+    "Ud.": "usted", "Uds.": "ustedes", "etc.": "etcétera", "p. ej.": "por ejemplo", "EE. UU.": "Estados Unidos",
+    "aprox.": "aproximadamente", "pág.": "página", "núm.": "número",
+    "km": "kilómetros", "kg": "kilogramos", "cm": "centímetros",
+  },
+  fr: {
+    "Mme": "Madame", "Mlle": "Mademoiselle", "Dr": "Docteur", "etc.": "et cetera",
+    "p. ex.": "par exemple", "c.-à-d.": "c'est-à-dire", "env.": "environ", "n°": "numéro",
+    "km": "kilomètres", "kg": "kilogrammes", "cm": "centimètres",
+  },
+  de: {
+    "Dr.": "Doktor", "Hr.": "Herr", "Fr.": "Frau", "z. B.": "zum Beispiel", "d. h.": "das heißt",
+    "usw.": "und so weiter", "bzw.": "beziehungsweise", "ca.": "circa", "evtl.": "eventuell", "Nr.": "Nummer",
+    "km": "Kilometer", "kg": "Kilogramm", "cm": "Zentimeter",
+  },
+  it: {
+    "Sig.": "Signor", "Sig.ra": "Signora", "Dott.": "Dottor", "Prof.": "Professor", "ecc.": "eccetera",
+    "p. es.": "per esempio", "pag.": "pagina",
+    "km": "chilometri", "kg": "chilogrammi", "cm": "centimetri",
+  },
+  pt: {
+    "Sr.": "Senhor", "Sra.": "Senhora", "Dr.": "Doutor", "Dra.": "Doutora", "etc.": "etcétera",
+    "p. ex.": "por exemplo", "pág.": "página", "nº": "número",
+    "km": "quilômetros", "kg": "quilogramas", "cm": "centímetros",
+  },
+  ru: {
+    "т. е.": "то есть", "и т. д.": "и так далее", "и т. п.": "и тому подобное", "напр.": "например",
+    "стр.": "страница", "руб.": "рублей", "тыс.": "тысяч", "млн": "миллионов", "млрд": "миллиардов",
+    "км": "километров", "кг": "килограммов", "см": "сантиметров",
+  },
+  nl: {
+    "dhr.": "de heer", "mevr.": "mevrouw", "dr.": "dokter", "bijv.": "bijvoorbeeld", "d.w.z.": "dat wil zeggen",
+    "enz.": "enzovoort", "o.a.": "onder andere",
+    "km": "kilometer", "kg": "kilogram", "cm": "centimeter",
+  },
+  pl: {
+    "dr": "doktor", "prof.": "profesor", "np.": "na przykład", "itd.": "i tak dalej", "itp.": "i tym podobne",
+    "tzn.": "to znaczy", "ok.": "około", "ul.": "ulica",
+    "km": "kilometrów", "kg": "kilogramów", "cm": "centymetrów",
+  },
+  tr: {
+    "Dr.": "Doktor", "Prof.": "Profesör", "vb.": "ve benzeri", "vs.": "vesaire", "örn.": "örneğin",
+    "bkz.": "bakınız",
+    "km": "kilometre", "kg": "kilogram", "cm": "santimetre",
+  },
+
+  // East Asian and Arabic
+  zh: { "Dr.": "博士", "AI": "人工智能", "km": "公里", "kg": "公斤", "cm": "厘米" },
+  ja: { "Dr.": "ドクター", "AI": "エーアイ", "km": "キロメートル", "kg": "キログラム", "cm": "センチメートル" },
+  ko: { "Dr.": "박사", "AI": "에이아이", "km": "킬로미터", "kg": "킬로그램", "cm": "센티미터" },
+  ar: {
+    "د.": "دكتور", "إلخ": "إلى آخره",
+    "km": "كيلومتر", "كم": "كيلومتر", "kg": "كيلوغرام", "كغ": "كيلوغرام", "cm": "سنتيمتر", "سم": "سنتيمتر",
+  },
+};
+
+/** Built-in dictionary for a language code ("pt-BR" uses "pt"); empty for languages without one. */
+export function defaultDictionary(language: string): Record<string, string> {
+  return DEFAULT_DICTIONARIES[language] ?? DEFAULT_DICTIONARIES[language.split("-")[0].toLowerCase()] ?? {};
+}
+
+export type MatchMode = "word" | "substring" | "regex";
+
+export interface PronunciationRule {
+  /** Text to find, or a regular expression source in "regex" mode */
+  term: string;
+  /** Spoken form; in "regex" mode $1 and $<name> refer to groups */
+  replacement: string;
+  /** "word" (the default) only matches where the term isn't part of a longer word */
+  mode?: MatchMode;
+  /** Defaults to true so acronyms like "SQL" leave "sql" alone */
+  caseSensitive?: boolean;
+  /** Where rules overlap the higher priority wins; ties go to the longer match */
+  priority?: number;
+  /** Regular expression the text just before a match has to end with */
+  before?: string;
+  /** Regular expression the text just after a match has to start with */
+  after?: string;
+}
+
+/** Plain term → replacement entries, or full rules */
+export type Dictionary = Record<string, string> | PronunciationRule[];
+
+/**
+ * Built-in rules that depend on context, applied with the language's
+ * dictionary: "Dr. Smith" is a doctor, "Main Dr." a street.
+ */
+const CONTEXT_RULES: Record<string, PronunciationRule[]> = {
+  en: [
+    { term: "Dr.", replacement: "Drive", before: "\\p{Lu}\\p{Ll}+\\s", after: "(?!\\s*\\p{Lu}\\p{Ll})", priority: 1 },
+    { term: "St.", replacement: "Street", before: "\\p{Lu}\\p{Ll}+\\s", after: "(?!\\s*\\p{Lu}\\p{Ll})", priority: 1 },
+    { term: "St.", replacement: "Saint", after: "\\s*\\p{Lu}" },
+  ],
+};
+
+export function toRules(dict: Dictionary): PronunciationRule[] {
+  return Array.isArray(dict) ? dict : Object.entries(dict).map(([term, replacement]) => ({ term, replacement }));
+}
+
+/** Rules with the same key replace each other when dictionaries are layered */
+export function ruleKey(rule: PronunciationRule): string {
+  return [rule.mode ?? "word", rule.term, rule.before ?? "", rule.after ?? ""].join("\u0000");
+}
+
+/** Layer dictionaries; a rule in a later layer replaces one with the same key in an earlier one. */
+export function mergeRules(...layers: Dictionary[]): PronunciationRule[] {
+  const merged = new Map<string, PronunciationRule>();
+  for (const layer of layers) {
+    for (const rule of toRules(layer)) {
+      merged.delete(ruleKey(rule));
+      merged.set(ruleKey(rule), rule);
+    }
+  }
+  return Array.from(merged.values());
+}
+
+/** Short labels for how a rule differs from a plain case-sensitive word entry. */
+export function ruleTags(rule: PronunciationRule): string[] {
+  return [
+    rule.mode === "regex" && "pattern",
+    rule.mode === "substring" && "inside words",
+    rule.caseSensitive === false && "any case",
+    rule.priority && `priority ${rule.priority}`,
+    rule.before && `after /${rule.before}/`,
+    rule.after && `before /${rule.after}/`,
+  ].filter((tag): tag is string => Boolean(tag));
+}
+
+/** Built-in entries and context rules for a language. */
+export function defaultRules(language: string): PronunciationRule[] {
+  const context = CONTEXT_RULES[language] ?? CONTEXT_RULES[language.split("-")[0].toLowerCase()] ?? [];
+  return [...toRules(defaultDictionary(language)), ...context];
+}
+
+// Letters, combining marks (Indic vowel signs) and digits of any script
+const WORD_CHAR = "[\\p{L}\\p{M}\\p{N}]";
+const LETTER = "[\\p{L}\\p{M}]";
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** The global regular expression for a rule; throws a SyntaxError for invalid patterns or context. */
+export function compileRule(rule: PronunciationRule): RegExp {
+  const mode = rule.mode ?? "word";
+  let source = mode === "regex" ? rule.term : escapeRegExp(rule.term);
+  if (mode === "word") {
+    // A term edge that is a word character must not continue a word; a punctuation
+    // edge must not run into letters, so "w/" leaves "w/o" alone but "n°" still matches "n°5"
+    const isWord = (ch: string) => new RegExp(WORD_CHAR, "u").test(ch);
+    const start = isWord(rule.term[0]) ? `(?<!${WORD_CHAR})` : `(?<!${LETTER})`;
+    const end = isWord(rule.term[rule.term.length - 1]) ? `(?!${WORD_CHAR})` : `(?!${LETTER})`;
+    source = `${start}${source}${end}`;
+  }
+  if (mode === "regex") source = `(?:${source})`;
+  if (rule.before) source = `(?<=${rule.before})${source}`;
+  if (rule.after) source = `${source}(?=${rule.after})`;
+  return new RegExp(source, rule.caseSensitive === false ? "giu" : "gu");
+}
+
+/** Why a rule can't be used, or null when it is valid. */
+export function ruleError(rule: PronunciationRule): string | null {
+  if (!rule.term) return "Enter a word or pattern";
+  let regex: RegExp;
+  try {
+    regex = compileRule(rule);
+  } catch (err) {
+    return err instanceof Error ? err.message : "Invalid pattern";
+  }
+  if (regex.test("")) return "The pattern matches empty text";
+  return null;
+}
+
+export interface RuleMatch {
+  index: number;
+  text: string;
+  replacement: string;
+  rule: PronunciationRule;
+}
+
+/** A set of rules compiled once and applied in a single pass over each text. */
+export interface DictionaryMatcher {
+  apply(text: string): string;
+  matches(text: string): RuleMatch[];
+}
+
+interface TrieNode {
+  next: Map<string, TrieNode>;
+  /** Indices of the literal rules whose term ends here */
+  rules: number[];
+}
+
+const trieNode = (): TrieNode => ({ next: new Map(), rules: [] });
+
+// Per code unit, so folded text keeps its offsets; the rare characters whose lowercase is longer stay as they are
+const foldCase = (ch: string) => {
+  const lower = ch.toLowerCase();
+  return lower.length === ch.length ? lower : ch;
+};
+
+/** $&, $1–$99, $<name> and $$ in a pattern rule's replacement, as String.prototype.replace expands them */
+function expandReplacement(template: string, match: RegExpExecArray): string {
+  return template.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token, ref: string, name?: string) => {
+    if (ref === "$") return "$";
+    if (ref === "&") return match[0];
+    if (name !== undefined) return match.groups?.[name] ?? "";
+    const group = Number(ref);
+    if (group >= 1 && group < match.length) return match[group] ?? "";
+    // "$12" with fewer than twelve groups is group 1 followed by "2"
+    const first = Number(ref[0]);
+    if (ref.length === 2 && first >= 1 && first < match.length) return (match[first] ?? "") + ref[1];
+    return token;
+  });
+}
+
+/**
+ * Compile rules into a matcher that scans each text once. The scan jumps to
+ * the next place any term or pattern could start and picks among the rules
+ * there with a trie, so the cost barely grows with the number of rules. Where several rules match at the same place the
+ * highest priority wins, then the longest match, then the rule that comes
+ * later (custom entries after built-ins). Replacements are never matched
+ * again, and context is checked against the original text. Invalid rules are
+ * skipped.
+ */
+export function compileDictionary(rules: PronunciationRule[]): DictionaryMatcher {
+  const valid = rules.filter((rule) => !ruleError(rule));
+  // Checks that a rule, boundaries and context included, matches at an exact position
+  const sticky = valid.map((rule) => {
+    const regex = compileRule(rule);
+    return new RegExp(regex.source, regex.flags.replace("g", "y"));
+  });
+  const exact = trieNode();
+  const folded = trieNode();
+  const patterns: number[] = [];
+
+  valid.forEach((rule, index) => {
+    if (rule.mode === "regex") {
+      patterns.push(index);
+      return;
+    }
+    const ignoreCase = rule.caseSensitive === false;
+    let node = ignoreCase ? folded : exact;
+    for (const ch of rule.term.split("")) {
+      const key = ignoreCase ? foldCase(ch) : ch;
+      if (!node.next.has(key)) node.next.set(key, trieNode());
+      node = node.next.get(key)!;
+    }
+    node.rules.push(index);
+  });
+
+  // Where the next literal term could start, ignoring boundaries and context; the trie and sticky checks decide
+  const finder = (ignoreCase: boolean) => {
+    const terms = valid
+      .filter((rule) => rule.mode !== "regex" && (rule.caseSensitive === false) === ignoreCase)
+      .map((rule) => escapeRegExp(rule.term));
+    return terms.length ? new RegExp(terms.join("|"), ignoreCase ? "giu" : "gu") : null;
+  };
+  // Each finder's next match at or after the scan position: literal starts, then one per pattern rule
+  const finders = [finder(false), finder(true), ...patterns.map((index) => compileRule(valid[index]))];
+
+  const outranks = (rule: number, length: number, other: { rule: number; end: number; start: number }) => {
+    const priority = (valid[rule].priority ?? 0) - (valid[other.rule].priority ?? 0);
+    if (priority !== 0) return priority > 0;
+    if (length !== other.end - other.start) return length > other.end - other.start;
+    return rule > other.rule;
+  };
+
+  function scan(text: string, onMatch: (start: number, end: number, rule: number, match?: RegExpExecArray) => void) {
+    const upcoming: (RegExpExecArray | null | undefined)[] = finders.map(() => undefined);
+
+    let start = 0;
+    while (start < text.length) {
+      let next = text.length;
+      finders.forEach((regex, f) => {
+        if (!regex) return;
+        if (upcoming[f] === undefined || (upcoming[f] && upcoming[f].index < start)) {
+          regex.lastIndex = start;
+          upcoming[f] = regex.exec(text);
+        }
+        if (upcoming[f] && upcoming[f].index < next) next = upcoming[f].index;
+      });
+      if (next === text.length) break;
+      start = next;
+
+      let best: { rule: number; start: number; end: number; match?: RegExpExecArray } | null = null;
+      const consider = (rule: number, end: number, match?: RegExpExecArray) => {
+        if (!best || outranks(rule, end - start, best)) best = { rule, start, end, match };
+      };
+
+      for (const [root, ignoreCase] of [[exact, false], [folded, true]] as const) {
+        let node: TrieNode | undefined = root;
+        for (let k = start; k < text.length; k++) {
+          node = node.next.get(ignoreCase ? foldCase(text[k]) : text[k]);
+          if (!node) break;
+          for (const rule of node.rules) {
+            sticky[rule].lastIndex = start;
+            if (sticky[rule].test(text)) consider(rule, k + 1);
+          }
+        }
+      }
+
+      patterns.forEach((rule, p) => {
+        const match = upcoming[p + 2];
+        if (match && match.index === start && match[0].length > 0) consider(rule, start + match[0].length, match);
+      });
+
+      if (best) {
+        onMatch(best.start, best.end, best.rule, best.match);
+        start = best.end;
+      } else {
+        start += text.codePointAt(start)! > 0xffff ? 2 : 1;
+      }
+    }
+  }
+
+  const replacementFor = (rule: number, match?: RegExpExecArray) =>
+    match ? expandReplacement(valid[rule].replacement, match) : valid[rule].replacement;
+
+  return {
+    apply(text) {
+      const parts: string[] = [];
+      let last = 0;
+      scan(text, (start, end, rule, match) => {
+        parts.push(text.slice(last, start), replacementFor(rule, match));
+        last = end;
+      });
+      if (last === 0) return text;
+      parts.push(text.slice(last));
+      return parts.join("");
+    },
+    matches(text) {
+      const found: RuleMatch[] = [];
+      scan(text, (start, end, rule, match) => found.push({
+        index: start,
+        text: text.slice(start, end),
+        replacement: replacementFor(rule, match),
+        rule: valid[rule],
+      }));
+      return found;
+    },
+  };
+}
+
+/** The built-in rules for `language` with custom entries layered on top, compiled for reuse across paragraphs. */
+export function createDictionaryMatcher(customDict: Dictionary = {}, language = "en"): DictionaryMatcher {
+  return compileDictionary(mergeRules(defaultRules(language), customDict));
+}
+
+/**
+ * Apply the built-in rules for the text's language plus custom entries, which
+ * replace built-ins with the same key. Compile with createDictionaryMatcher
+ * instead when applying the same dictionary to many texts.
  */
 export function applyDictionary(
   text: string,
-  customDict: Record<string, string> = {}
+  customDict: Dictionary = {},
+  language = "en"
 ): string {
-  const dict = { ...DEFAULT_DICTIONARY, ...customDict };
-  let result = text;
-
-  for (const [key, replacement] of Object.entries(dict)) {
-    // Escape special regex chars in key
-    const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-    // Word boundary match
-    const regex = new RegExp(`\\b${escaped}\\b`, "g");
-    result = result.replace(regex, replacement);
-  }
-
-  return result;
+  return createDictionaryMatcher(customDict, language).apply(text);
 }
 
 /**
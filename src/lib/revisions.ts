@@ -0,0 +1,117 @@
+/**
+ * Paragraph-level diff between two versions of a book's text, used for the
+ * changes stored with each revision and for comparing revisions side by side.
+ */
+
+// Type aliases rather than interfaces so stored changes are assignable to the JSONB column type
+export type ParagraphDiff =
+  | { type: "equal"; before: number; after: number; text: string }
+  | { type: "removed"; before: number; text: string }
+  | { type: "added"; after: number; text: string }
+  | { type: "changed"; before: number; after: number; oldText: string; text: string };
+
+export type RevisionChange = Exclude<ParagraphDiff, { type: "equal" }>;
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+// Above this many table cells the edited region is compared by position instead of by LCS
+const MAX_LCS_CELLS = 4_000_000;
+
+/** Removed and added paragraphs of one edited block, paired up in order as changed paragraphs. */
+function pairBlock(removed: number[], added: number[], before: string[], after: string[]): ParagraphDiff[] {
+  const ops: ParagraphDiff[] = [];
+  const paired = Math.min(removed.length, added.length);
+  for (let k = 0; k < paired; k++) {
+    ops.push({ type: "changed", before: removed[k], after: added[k], oldText: before[removed[k]], text: after[added[k]] });
+  }
+  removed.slice(paired).forEach((i) => ops.push({ type: "removed", before: i, text: before[i] }));
+  added.slice(paired).forEach((j) => ops.push({ type: "added", after: j, text: after[j] }));
+  return ops;
+}
+
+/** Diff of before[b0..b1) against after[a0..a1), which share no common first or last paragraph. */
+function diffRegion(before: string[], after: string[], b0: number, b1: number, a0: number, a1: number): ParagraphDiff[] {
+  const n = b1 - b0;
+  const m = a1 - a0;
+  const range = (from: number, to: number) => Array.from({ length: to - from }, (_, k) => from + k);
+
+  if (n === 0 || m === 0 || (n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    return pairBlock(range(b0, b1), range(a0, a1), before, after);
+  }
+
+  // lcs[i * (m + 1) + j]: longest common subsequence of before[b0 + i..b1) and after[a0 + j..a1)
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = before[b0 + i] === after[a0 + j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const ops: ParagraphDiff[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+  const flush = () => {
+    ops.push(...pairBlock(removed, added, before, after));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && before[b0 + i] === after[a0 + j]) {
+      flush();
+      ops.push({ type: "equal", before: b0 + i, after: a0 + j, text: before[b0 + i] });
+      i++;
+      j++;
+    } else if (j >= m || (i < n && lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+      removed.push(b0 + i++);
+    } else {
+      added.push(a0 + j++);
+    }
+  }
+  flush();
+  return ops;
+}
+
+/**
+ * Align two paragraph lists. Paragraphs are matched by exact text; runs of
+ * removed and added paragraphs between matches are reported as changed pairs.
+ */
+export function diffParagraphs(before: string[], after: string[]): ParagraphDiff[] {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const ops: ParagraphDiff[] = [];
+  for (let i = 0; i < start; i++) ops.push({ type: "equal", before: i, after: i, text: before[i] });
+  ops.push(...diffRegion(before, after, start, endBefore, start, endAfter));
+  for (let k = 0; endBefore + k < before.length; k++) {
+    ops.push({ type: "equal", before: endBefore + k, after: endAfter + k, text: before[endBefore + k] });
+  }
+  return ops;
+}
+
+/** The non-equal part of a diff, as stored with a revision. */
+export function revisionChanges(before: string[], after: string[]): RevisionChange[] {
+  return diffParagraphs(before, after).filter((op): op is RevisionChange => op.type !== "equal");
+}
+
+export function diffStats(changes: ParagraphDiff[]): DiffStats {
+  return {
+    added: changes.filter((c) => c.type === "added").length,
+    removed: changes.filter((c) => c.type === "removed").length,
+    changed: changes.filter((c) => c.type === "changed").length,
+  };
+}
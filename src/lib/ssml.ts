@@ -0,0 +1,199 @@
+/**
+ * The SSML subset paragraphs may carry inline: <break>, <emphasis>, <phoneme>
+ * and <say-as>. Readers show paragraphs with the markup stripped; the cloud
+ * engine receives it as is, and the browser engine pauses at breaks and reads
+ * everything else as plain text.
+ */
+
+export type SsmlTagName = "break" | "emphasis" | "phoneme" | "say-as";
+
+export type EmphasisLevel = "strong" | "moderate" | "reduced";
+export type PhonemeAlphabet = "ipa" | "cmu-arpabet";
+export type SayAsKind = "characters" | "digits" | "cardinal" | "ordinal" | "date" | "telephone";
+
+export const SAY_AS_LABELS: Record<SayAsKind, string> = {
+  characters: "Letter by letter",
+  digits: "Digit by digit",
+  cardinal: "Number",
+  ordinal: "Ordinal",
+  date: "Date",
+  telephone: "Phone number",
+};
+
+export const BREAK_TIMES = ["250ms", "500ms", "1s", "2s", "3s"];
+
+// Pause lengths for <break strength="…"/>, and for a bare <break/> (medium)
+const BREAK_STRENGTH_MS: Record<string, number> = {
+  none: 0, "x-weak": 250, weak: 500, medium: 750, strong: 1000, "x-strong": 1500,
+};
+const EMPHASIS_LEVELS = ["strong", "moderate", "reduced", "none"];
+const PHONEME_ALPHABETS = ["ipa", "cmu-arpabet"];
+// Elements whose content is a spoken hint, so text rewriting must leave it alone
+const OPAQUE: SsmlTagName[] = ["phoneme", "say-as"];
+
+// Attribute values may contain ">" inside quotes (IPA rarely does, but stay safe)
+const TAG_RE = /<(\/?)(break|emphasis|phoneme|say-as)\b((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>/g;
+const TIME_RE = /^(\d+(?:\.\d+)?)\s*(ms|s)$/i;
+
+interface SsmlTag {
+  name: SsmlTagName;
+  closing: boolean;
+  selfClosing: boolean;
+  attrs: Record<string, string>;
+  start: number;
+  end: number;
+}
+
+function findTags(text: string): SsmlTag[] {
+  if (!text.includes("<")) return [];
+  return Array.from(text.matchAll(TAG_RE), (m) => ({
+    name: m[2] as SsmlTagName,
+    closing: m[1] === "/",
+    selfClosing: m[4] === "/",
+    attrs: Object.fromEntries(
+      Array.from(m[3].matchAll(/([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g), (a) => [a[1].toLowerCase(), a[2] ?? a[3]])
+    ),
+    start: m.index!,
+    end: m.index! + m[0].length,
+  }));
+}
+
+export function hasSsml(text: string): boolean {
+  return findTags(text).length > 0;
+}
+
+/** The text a listener hears the words of, as shown by readers: markup removed, content kept. */
+export function stripSsml(text: string): string {
+  return text.includes("<") ? text.replace(TAG_RE, "") : text;
+}
+
+/**
+ * Rewrite the plain text between tags, keeping the markup and the content of
+ * <phoneme> and <say-as> as written. Used so normalization and the
+ * pronunciation dictionary never touch attributes or explicit hints.
+ */
+export function mapSsmlText(text: string, rewrite: (plain: string) => string): string {
+  const tags = findTags(text);
+  if (tags.length === 0) return rewrite(text);
+
+  let result = "";
+  let last = 0;
+  let opaque = 0;
+  const flush = (end: number) => {
+    const run = text.slice(last, end);
+    result += opaque > 0 || !run ? run : rewrite(run);
+  };
+  for (const tag of tags) {
+    flush(tag.start);
+    result += text.slice(tag.start, tag.end);
+    if (OPAQUE.includes(tag.name) && !tag.selfClosing) opaque = Math.max(0, opaque + (tag.closing ? -1 : 1));
+    last = tag.end;
+  }
+  flush(text.length);
+  return result;
+}
+
+function breakMs(attrs: Record<string, string>): number {
+  const time = attrs.time?.trim().match(TIME_RE);
+  if (time) return Number(time[1]) * (time[2].toLowerCase() === "s" ? 1000 : 1);
+  return BREAK_STRENGTH_MS[attrs.strength] ?? BREAK_STRENGTH_MS.medium;
+}
+
+export interface SpokenPiece {
+  /** Plain text up to the next break */
+  text: string;
+  /** Offset of the piece in stripSsml(text) */
+  start: number;
+  /** Silence after the piece */
+  pauseMs: number;
+}
+
+/** Plain-text pieces separated by breaks, for engines that cannot read SSML. */
+export function splitAtBreaks(text: string): SpokenPiece[] {
+  const pieces: SpokenPiece[] = [];
+  let plain = "";
+  let pieceStart = 0;
+  let last = 0;
+  for (const tag of findTags(text)) {
+    plain += text.slice(last, tag.start);
+    last = tag.end;
+    if (tag.name !== "break" || tag.closing) continue;
+    pieces.push({ text: plain.slice(pieceStart), start: pieceStart, pauseMs: breakMs(tag.attrs) });
+    pieceStart = plain.length;
+  }
+  plain += text.slice(last);
+  pieces.push({ text: plain.slice(pieceStart), start: pieceStart, pauseMs: 0 });
+  return pieces;
+}
+
+/** What is wrong with a paragraph's markup, or null when it is valid. */
+export function ssmlError(text: string): string | null {
+  const open: SsmlTag[] = [];
+  for (const tag of findTags(text)) {
+    if (tag.name === "break") {
+      if (tag.closing) return "<break> has no closing tag; write <break time=\"1s\"/>";
+      if (tag.attrs.time !== undefined && !TIME_RE.test(tag.attrs.time.trim())) {
+        return `Break time "${tag.attrs.time}" should look like 500ms or 1.5s`;
+      }
+      if (tag.attrs.strength !== undefined && !(tag.attrs.strength in BREAK_STRENGTH_MS)) {
+        return `Unknown break strength "${tag.attrs.strength}"`;
+      }
+      continue;
+    }
+    if (tag.closing) {
+      const innermost = open.pop();
+      if (!innermost) return `</${tag.name}> has no opening tag`;
+      if (innermost.name !== tag.name) return `</${tag.name}> closes <${innermost.name}>`;
+      continue;
+    }
+    if (tag.selfClosing) return `<${tag.name}> needs content and a closing tag`;
+    if (tag.name === "emphasis" && tag.attrs.level !== undefined && !EMPHASIS_LEVELS.includes(tag.attrs.level)) {
+      return `Unknown emphasis level "${tag.attrs.level}"`;
+    }
+    if (tag.name === "phoneme") {
+      if (!tag.attrs.ph) return "<phoneme> needs a ph attribute with the pronunciation";
+      if (tag.attrs.alphabet !== undefined && !PHONEME_ALPHABETS.includes(tag.attrs.alphabet)) {
+        return `Phoneme alphabet should be ${PHONEME_ALPHABETS.join(" or ")}`;
+      }
+    }
+    if (tag.name === "say-as" && !(tag.attrs["interpret-as"] in SAY_AS_LABELS)) {
+      return `<say-as> needs interpret-as set to one of ${Object.keys(SAY_AS_LABELS).join(", ")}`;
+    }
+    open.push(tag);
+  }
+  return open.length > 0 ? `<${open[open.length - 1].name}> is never closed` : null;
+}
+
+const escapeAttr = (value: string) => value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+
+export type SsmlMarkup =
+  | { tag: "break"; time: string }
+  | { tag: "emphasis"; level: EmphasisLevel }
+  | { tag: "phoneme"; ph: string; alphabet: PhonemeAlphabet }
+  | { tag: "say-as"; interpretAs: SayAsKind };
+
+/**
+ * Insert markup into text: a break at `end`, any other element around
+ * text[start, end). Returns the new text and where the cursor belongs after it.
+ */
+export function insertSsml(text: string, start: number, end: number, markup: SsmlMarkup): { text: string; cursor: number } {
+  let open: string;
+  switch (markup.tag) {
+    case "break": {
+      const tag = `<break time="${escapeAttr(markup.time)}"/>`;
+      return { text: text.slice(0, end) + tag + text.slice(end), cursor: end + tag.length };
+    }
+    case "emphasis":
+      open = `<emphasis level="${markup.level}">`;
+      break;
+    case "phoneme":
+      open = `<phoneme alphabet="${markup.alphabet}" ph="${escapeAttr(markup.ph)}">`;
+      break;
+    case "say-as":
+      open = `<say-as interpret-as="${markup.interpretAs}">`;
+      break;
+  }
+  const close = `</${markup.tag}>`;
+  const wrapped = open + text.slice(start, end) + close;
+  return { text: text.slice(0, start) + wrapped + text.slice(end), cursor: start + wrapped.length };
+}
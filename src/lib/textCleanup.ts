@@ -0,0 +1,83 @@
+/**
+ * Removes page furniture from extracted pages: running headers and footers
+ * repeated across pages, and bare page numbers at the top or bottom of a page.
+ */
+
+export interface StrippedLine {
+  /** 0-based index of the page the line was removed from */
+  page: number;
+  text: string;
+  reason: "repeated" | "page-number";
+}
+
+export interface CleanupResult {
+  pages: string[];
+  removed: StrippedLine[];
+}
+
+// Lines this close to the top or bottom of a page are header/footer candidates
+const EDGE_LINES = 2;
+// Running headers are short; longer lines are body text even when they repeat
+const MAX_HEADER_LENGTH = 120;
+// A repeated line must appear on at least this share of the pages between its first and last occurrence,
+// so running headers are caught while chapter headings that recur every few dozen pages are kept
+const MIN_DENSITY = 0.4;
+
+// Arabic numbers, or well-formed lowercase Roman ones up to cccxcix for front matter, so that words
+// spelled with the same letters ("did", "mild", "civil", "mix") aren't dropped
+const PAGE_NUMBER =
+  /^(?:[Pp]age\s+)?[-–—([]?\s*(?:\d{1,4}|(?=[ivxlc])c{0,3}(?:xc|xl|l?x{0,3})(?:ix|iv|v?i{0,3}))\s*[-–—)\]]?(?:\s*(?:of|\/)\s*\d{1,4})?$/;
+
+/** Comparison key that ignores case, spacing and changing numbers (e.g. "Chapter 3 · 41"). */
+function lineKey(line: string): string {
+  return line.toLowerCase().replace(/\d+/g, "#").replace(/\s+/g, " ").trim();
+}
+
+/** Indices of the first and last few non-empty lines. */
+function edgeLineIndices(lines: string[]): number[] {
+  const filled = lines.map((l, i) => (l.trim() ? i : -1)).filter((i) => i >= 0);
+  return [...new Set([...filled.slice(0, EDGE_LINES), ...filled.slice(-EDGE_LINES)])];
+}
+
+export function cleanPages(pages: string[]): CleanupResult {
+  const pageLines = pages.map((page) => page.split("\n"));
+
+  // Pages on which each edge line appears
+  const occurrences = new Map<string, number[]>();
+  pageLines.forEach((lines, page) => {
+    const keys = new Set(edgeLineIndices(lines).map((i) => lineKey(lines[i])));
+    keys.forEach((key) => occurrences.set(key, [...(occurrences.get(key) ?? []), page]));
+  });
+
+  const minRepeats = Math.min(3, pages.length);
+  const repeated = new Set(
+    [...occurrences.entries()]
+      .filter(([, on]) => {
+        if (pages.length < 2 || on.length < minRepeats) return false;
+        return on.length / (on[on.length - 1] - on[0] + 1) >= MIN_DENSITY;
+      })
+      .map(([key]) => key)
+  );
+
+  const removed: StrippedLine[] = [];
+  const cleaned = pageLines.map((lines, page) => {
+    const drop = new Set<number>();
+    for (const i of edgeLineIndices(lines)) {
+      const text = lines[i].trim();
+      if (PAGE_NUMBER.test(text)) {
+        drop.add(i);
+        removed.push({ page, text, reason: "page-number" });
+      } else if (text.length <= MAX_HEADER_LENGTH && repeated.has(lineKey(text))) {
+        drop.add(i);
+        removed.push({ page, text, reason: "repeated" });
+      }
+    }
+    return lines
+      .filter((_, i) => !drop.has(i))
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  });
+
+  return { pages: cleaned, removed };
+}
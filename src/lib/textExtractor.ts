@@ -1,8 +1,42 @@
 /**
- * Multi-format text extraction: PDF, DOCX, TXT, Images (OCR)
+ * Multi-format text extraction: PDF, DOCX, EPUB, TXT, Images (OCR)
  */
 
-export type SupportedFormat = "pdf" | "docx" | "txt" | "image";
+import { reconstructPageText, joinPageTexts, PdfTextItem } from "@/lib/pdfLayout";
+import { recognizeImage, recognizeImages, createOcrSession, OcrSession } from "@/lib/ocr";
+import type { PageChapter } from "@/lib/chapters";
+import type { PDFDocumentProxy, PDFPageProxy } from "pdfjs-dist";
+
+export type SupportedFormat = "pdf" | "docx" | "epub" | "txt" | "image";
+
+export interface DocumentSection {
+  title: string;
+  text: string;
+}
+
+export interface ExtractedDocument {
+  text: string;
+  /** Chapter structure, for formats that carry one */
+  sections?: DocumentSection[];
+  /** Text of each page, for paged formats (PDF) and OCR */
+  pages?: string[];
+  /** Chapters by page: the PDF outline, or one per image of a page batch */
+  pageChapters?: PageChapter[];
+  /** Mean OCR confidence (0–100) per page; null for pages read from a text layer */
+  pageConfidence?: (number | null)[];
+  /** Languages OCR ran with, chosen or detected */
+  ocrLanguages?: string[];
+}
+
+export interface ExtractOptions {
+  /**
+   * Called after each page of a paged document is processed, and with stage "ocr"
+   * before a page without a text layer is recognized
+   */
+  onProgress?: (done: number, total: number, stage?: "text" | "ocr") => void;
+  /** App language codes to run OCR with; empty detects the script */
+  ocrLanguages?: string[];
+}
 
 export function detectFormat(file: File): SupportedFormat | null {
   const name = file.name.toLowerCase();
@@ -10,51 +44,379 @@ export function detectFormat(file: File): SupportedFormat | null {
 
   if (name.endsWith(".pdf") || type === "application/pdf") return "pdf";
   if (name.endsWith(".docx") || type === "application/vnd.openxmlformats-officedocument.wordprocessingml.document") return "docx";
+  if (name.endsWith(".epub") || type === "application/epub+zip") return "epub";
   if (name.endsWith(".txt") || type === "text/plain") return "txt";
   if (type.startsWith("image/") || /\.(png|jpe?g|gif|bmp|webp|tiff?)$/i.test(name)) return "image";
   return null;
 }
 
-export const ACCEPTED_TYPES = ".pdf,.docx,.txt,.png,.jpg,.jpeg,.gif,.bmp,.webp,.tiff";
-export const ACCEPTED_MIME = "application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/plain,image/*";
+export const ACCEPTED_TYPES = ".pdf,.docx,.epub,.txt,.png,.jpg,.jpeg,.gif,.bmp,.webp,.tiff";
+export const ACCEPTED_MIME = "application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,application/epub+zip,text/plain,image/*";
 
-export async function extractText(file: File, format: SupportedFormat): Promise<string> {
+export async function extractText(file: File, format: SupportedFormat, options: ExtractOptions = {}): Promise<ExtractedDocument> {
   switch (format) {
-    case "pdf":   return extractPDF(file);
+    case "pdf":   return extractPDF(file, options);
     case "docx":  return extractDOCX(file);
-    case "txt":   return extractTXT(file);
-    case "image": return extractImage(file);
+    case "epub":  return extractEPUB(file);
+    case "txt":   return { text: await extractTXT(file) };
+    case "image": return extractImage(file, options);
+  }
+}
+
+// Let the browser paint and handle input between pages of long documents
+const yieldToUI = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+/** Join the text of pages `from`..`to` (1-based, inclusive). */
+export function joinPages(pages: string[], from = 1, to = pages.length): string {
+  return joinPageTexts(pages.slice(Math.max(0, from - 1), to));
+}
+
+/**
+ * Page index each paragraph starts on, found by locating its opening words
+ * in the page texts in order. Used to attach per-page OCR confidence to paragraphs.
+ */
+export function locateParagraphPages(paragraphs: string[], pages: string[]): number[] {
+  let page = 0;
+  return paragraphs.map((paragraph) => {
+    const probe = paragraph.slice(0, 40);
+    const found = pages.findIndex((text, i) => i >= page && text.includes(probe));
+    if (found >= 0) page = found;
+    return page;
+  });
+}
+
+// Pages whose text layer has fewer visible characters than this are treated as scans
+const MIN_TEXT_LAYER_CHARS = 10;
+// Render scans at ~216 DPI, capped so huge pages stay within canvas memory limits
+const OCR_RENDER_SCALE = 3;
+const OCR_MAX_CANVAS_WIDTH = 3000;
+
+async function ocrPdfPage(page: PDFPageProxy, session: OcrSession) {
+  const base = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: Math.min(OCR_RENDER_SCALE, OCR_MAX_CANVAS_WIDTH / base.width) });
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+
+  try {
+    await page.render({ canvasContext: canvas.getContext("2d")!, viewport }).promise;
+    return await session.recognize(canvas);
+  } finally {
+    // Free the bitmap right away; large scans add up over hundreds of pages
+    canvas.width = canvas.height = 0;
   }
 }
 
-async function extractPDF(file: File): Promise<string> {
+type PdfOutlineNode = Awaited<ReturnType<PDFDocumentProxy["getOutline"]>>[number];
+
+/**
+ * Top-level outline entries with the page they point to. A single root entry
+ * (usually the book title) is skipped in favour of its children.
+ */
+async function readPdfOutline(pdf: PDFDocumentProxy): Promise<PageChapter[]> {
+  try {
+    let entries: PdfOutlineNode[] = (await pdf.getOutline()) ?? [];
+    while (entries.length === 1 && entries[0].items.length > 0) entries = entries[0].items;
+
+    const chapters: PageChapter[] = [];
+    for (const entry of entries) {
+      const dest = typeof entry.dest === "string" ? await pdf.getDestination(entry.dest) : entry.dest;
+      const target = dest?.[0];
+      if (target === undefined || target === null) continue;
+      const page = typeof target === "number" ? target : await pdf.getPageIndex(target);
+      const title = entry.title.replace(/\s+/g, " ").trim();
+      if (title) chapters.push({ title, page });
+    }
+    return chapters;
+  } catch (err) {
+    // A broken outline should not stop the text from being read
+    console.warn("Could not read PDF outline:", err);
+    return [];
+  }
+}
+
+async function extractPDF(file: File, { onProgress, ocrLanguages }: ExtractOptions): Promise<ExtractedDocument> {
   const pdfjsLib = await import("pdfjs-dist");
   const workerUrl = new URL("pdfjs-dist/build/pdf.worker.mjs", import.meta.url);
   pdfjsLib.GlobalWorkerOptions.workerSrc = workerUrl.toString();
 
   const arrayBuffer = await file.arrayBuffer();
   const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-  let fullText = "";
-
-  for (let i = 1; i <= Math.min(pdf.numPages, 50); i++) {
-    const page = await pdf.getPage(i);
-    const content = await page.getTextContent();
-    const pageText = content.items
-      .map((item: any) => ("str" in item ? item.str : ""))
-      .join(" ");
-    fullText += pageText + "\n";
+  const pages: string[] = [];
+  const pageConfidence: (number | null)[] = [];
+  let session: OcrSession | null = null;
+  let usedLanguages: string[] | undefined;
+  let outline: PageChapter[] = [];
+
+  try {
+    outline = await readPdfOutline(pdf);
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const content = await page.getTextContent();
+      const items = content.items.filter((item) => "str" in item) as PdfTextItem[];
+      const text = reconstructPageText(items);
+
+      if (text.replace(/\s/g, "").length >= MIN_TEXT_LAYER_CHARS) {
+        pages.push(text);
+        pageConfidence.push(null);
+      } else {
+        // No usable text layer: render the page and OCR it
+        onProgress?.(i, pdf.numPages, "ocr");
+        session ??= createOcrSession(ocrLanguages);
+        const result = await ocrPdfPage(page, session);
+        pages.push(result.text);
+        pageConfidence.push(result.confidence);
+        usedLanguages = result.languages;
+      }
+
+      // Release the page's parsed resources; only its text is kept
+      page.cleanup();
+      onProgress?.(i, pdf.numPages, "text");
+      await yieldToUI();
+    }
+  } finally {
+    await session?.terminate();
+    await pdf.destroy();
   }
 
-  if (!fullText.trim()) throw new Error("No text found in PDF. Try uploading as an image for OCR.");
-  return fullText.trim();
+  const fullText = joinPages(pages);
+  if (!fullText) throw new Error("No text found in PDF, even with OCR. Try a clearer scan.");
+  const doc: ExtractedDocument = { text: fullText, pages };
+  if (outline.length > 0) doc.pageChapters = outline;
+  return usedLanguages ? { ...doc, pageConfidence, ocrLanguages: usedLanguages } : doc;
 }
 
-async function extractDOCX(file: File): Promise<string> {
+/**
+ * DOCX via mammoth's HTML output, so Word heading styles survive. The document is
+ * split into chapters at its top heading level (Heading 1, or Heading 2 when there
+ * is no Heading 1); text before the first heading becomes its own section.
+ */
+async function extractDOCX(file: File): Promise<ExtractedDocument> {
   const mammoth = await import("mammoth");
   const arrayBuffer = await file.arrayBuffer();
-  const result = await mammoth.extractRawText({ arrayBuffer });
-  if (!result.value.trim()) throw new Error("No text found in DOCX file");
-  return result.value.trim();
+  const result = await mammoth.convertToHtml({ arrayBuffer });
+  const body = new DOMParser().parseFromString(result.value, "text/html").body;
+  const text = xhtmlToText(body);
+  if (!text) throw new Error("No text found in DOCX file");
+
+  const level = ["h1", "h2"].find((h) => body.querySelector(h));
+  if (!level) return { text };
+
+  const sections: DocumentSection[] = [];
+  let current: { title: string; nodes: Element[] } = { title: "Front matter", nodes: [] };
+  const flush = () => {
+    const wrapper = document.createElement("div");
+    current.nodes.forEach((node) => wrapper.appendChild(node.cloneNode(true)));
+    const sectionText = xhtmlToText(wrapper);
+    if (sectionText) sections.push({ title: current.title, text: sectionText });
+  };
+  for (const node of Array.from(body.children)) {
+    if (node.localName === level) {
+      flush();
+      const title = node.textContent?.replace(/\s+/g, " ").trim();
+      current = { title: title || `Chapter ${sections.length + 1}`, nodes: [] };
+    }
+    current.nodes.push(node);
+  }
+  flush();
+
+  return { text, sections };
+}
+
+// ── EPUB ──────────────────────────────────────────────────────────────
+
+const BLOCK_TAGS = new Set([
+  "address", "article", "aside", "blockquote", "dd", "div", "dl", "dt", "figcaption", "figure",
+  "footer", "h1", "h2", "h3", "h4", "h5", "h6", "header", "hr", "li", "ol", "p", "pre", "section",
+  "table", "td", "th", "tr", "ul",
+]);
+const SKIPPED_TAGS = new Set(["head", "script", "style", "svg", "math", "rt", "rp"]);
+
+/** Resolve a manifest/TOC href against the directory of the file that references it. */
+function resolveEpubPath(baseDir: string, href: string): string {
+  const parts = (baseDir + decodeURIComponent(href.split("#")[0])).split("/");
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === "..") resolved.pop();
+    else if (part && part !== ".") resolved.push(part);
+  }
+  return resolved.join("/");
+}
+
+function dirname(path: string): string {
+  return path.includes("/") ? path.slice(0, path.lastIndexOf("/") + 1) : "";
+}
+
+function byTag(root: Document | Element, tag: string): Element[] {
+  return Array.from(root.getElementsByTagNameNS("*", tag));
+}
+
+function parseXhtml(source: string): Document {
+  const doc = new DOMParser().parseFromString(source, "application/xhtml+xml");
+  // Many EPUBs ship HTML that is not well-formed XML; the HTML parser is forgiving
+  return byTag(doc, "parsererror").length > 0 ? new DOMParser().parseFromString(source, "text/html") : doc;
+}
+
+/**
+ * Visible text of an XHTML body, one paragraph per block element. The text is cut
+ * into parts at elements whose id is a key of `anchors`, titled with its value;
+ * the part before the first anchor has no title.
+ */
+function xhtmlToParts(root: Element, anchors = new Map<string, string>()): { title: string | null; text: string }[] {
+  const parts: { title: string | null; blocks: string[] }[] = [{ title: null, blocks: [] }];
+  let current = "";
+  const flush = () => {
+    const text = current.replace(/\s+/g, " ").trim();
+    if (text) parts[parts.length - 1].blocks.push(text);
+    current = "";
+  };
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      current += node.textContent;
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const tag = (node as Element).localName.toLowerCase();
+    if (SKIPPED_TAGS.has(tag)) return;
+    const id = (node as Element).getAttribute("id");
+    if (id && anchors.has(id)) {
+      flush();
+      parts.push({ title: anchors.get(id)!, blocks: [] });
+    }
+    if (tag === "br") {
+      current += " ";
+      return;
+    }
+    const isBlock = BLOCK_TAGS.has(tag);
+    if (isBlock) flush();
+    node.childNodes.forEach(walk);
+    if (isBlock) flush();
+  };
+  walk(root);
+  flush();
+  return parts.map((p) => ({ title: p.title, text: p.blocks.join("\n\n") }));
+}
+
+function xhtmlToText(root: Element): string {
+  return xhtmlToParts(root).map((p) => p.text).filter(Boolean).join("\n\n");
+}
+
+interface TocEntry {
+  title: string;
+  /** Element id the entry points to inside the file, if any */
+  fragment: string | null;
+}
+
+/** TOC entries keyed by content file path, from the EPUB 3 nav document or the EPUB 2 NCX. */
+async function readEpubToc(
+  readFile: (path: string) => Promise<string | null>,
+  opf: Document,
+  opfDir: string
+): Promise<Map<string, TocEntry[]>> {
+  const titles = new Map<string, TocEntry[]>();
+  const items = byTag(opf, "item");
+  const add = (baseDir: string, href: string | null, title: string | null | undefined) => {
+    const label = title?.replace(/\s+/g, " ").trim();
+    if (!href || !label) return;
+    const path = resolveEpubPath(baseDir, href);
+    const fragment = href.includes("#") ? decodeURIComponent(href.slice(href.indexOf("#") + 1)) || null : null;
+    const entries = titles.get(path) ?? [];
+    if (!entries.some((e) => e.fragment === fragment)) titles.set(path, [...entries, { title: label, fragment }]);
+  };
+
+  const navItem = items.find((i) => (i.getAttribute("properties") || "").split(/\s+/).includes("nav"));
+  if (navItem) {
+    const navPath = resolveEpubPath(opfDir, navItem.getAttribute("href") || "");
+    const source = await readFile(navPath);
+    if (source) {
+      const doc = parseXhtml(source);
+      const navs = byTag(doc, "nav");
+      const toc = navs.find((n) => n.getAttribute("epub:type") === "toc" ||
+        n.getAttributeNS("http://www.idpf.org/2007/ops", "type") === "toc") ?? navs[0];
+      if (toc) byTag(toc, "a").forEach((a) => add(dirname(navPath), a.getAttribute("href"), a.textContent));
+    }
+  }
+
+  if (titles.size === 0) {
+    const ncxId = byTag(opf, "spine")[0]?.getAttribute("toc");
+    const ncxItem = items.find((i) => i.getAttribute("id") === ncxId || i.getAttribute("media-type") === "application/x-dtbncx+xml");
+    if (ncxItem) {
+      const ncxPath = resolveEpubPath(opfDir, ncxItem.getAttribute("href") || "");
+      const source = await readFile(ncxPath);
+      if (source) {
+        const ncx = new DOMParser().parseFromString(source, "application/xml");
+        byTag(ncx, "navPoint").forEach((point) => {
+          const label = byTag(point, "text")[0]?.textContent;
+          const src = byTag(point, "content")[0]?.getAttribute("src") ?? null;
+          add(dirname(ncxPath), src, label);
+        });
+      }
+    }
+  }
+
+  return titles;
+}
+
+/**
+ * Read the OPF spine in order and return one section per chapter.
+ * Spine files without their own TOC entry (chapters split across files) are
+ * appended to the preceding chapter; files holding several chapters are split
+ * at the anchors the TOC points to.
+ */
+async function extractEPUB(file: File): Promise<ExtractedDocument> {
+  const { default: JSZip } = await import("jszip");
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const readFile = async (path: string) => (await zip.file(path)?.async("string")) ?? null;
+
+  const containerXml = await readFile("META-INF/container.xml");
+  const container = containerXml && new DOMParser().parseFromString(containerXml, "application/xml");
+  const opfPath = container ? byTag(container, "rootfile")[0]?.getAttribute("full-path") : null;
+  const opfXml = opfPath ? await readFile(opfPath) : null;
+  if (!opfPath || !opfXml) throw new Error("Invalid EPUB: package document not found");
+
+  const opf = new DOMParser().parseFromString(opfXml, "application/xml");
+  const opfDir = dirname(opfPath);
+  const manifest = new Map(byTag(opf, "item").map((i) => [i.getAttribute("id"), i.getAttribute("href")]));
+  const toc = await readEpubToc(readFile, opf, opfDir);
+
+  const sections: DocumentSection[] = [];
+  for (const itemref of byTag(opf, "itemref")) {
+    if (itemref.getAttribute("linear") === "no") continue;
+    const href = manifest.get(itemref.getAttribute("idref"));
+    if (!href) continue;
+
+    const path = resolveEpubPath(opfDir, href);
+    const source = await readFile(path);
+    if (!source) continue;
+
+    const doc = parseXhtml(source);
+    const body = byTag(doc, "body")[0] ?? doc.documentElement;
+
+    // Entries pointing at an element inside the body split the file; the rest title it as a whole
+    const ids = new Set(Array.from(body.querySelectorAll("[id]"), (el) => el.getAttribute("id")));
+    const entries = toc.get(path) ?? [];
+    const anchored = entries.filter((e) => e.fragment && ids.has(e.fragment));
+    const anchors = new Map(anchored.map((e) => [e.fragment!, e.title]));
+    const fileTitle = entries.find((e) => !anchored.includes(e))?.title;
+
+    xhtmlToParts(body, anchors).forEach((part) => {
+      if (!part.text) return;
+      if (part.title) {
+        sections.push({ title: part.title, text: part.text });
+        return;
+      }
+      if (!fileTitle && toc.size > 0 && sections.length > 0) {
+        sections[sections.length - 1].text += "\n\n" + part.text;
+        return;
+      }
+      const heading = ["h1", "h2", "h3"].map((h) => byTag(body, h)[0]?.textContent?.replace(/\s+/g, " ").trim()).find(Boolean);
+      sections.push({ title: fileTitle || heading || `Chapter ${sections.length + 1}`, text: part.text });
+    });
+  }
+
+  const fullText = sections.map((s) => s.text).join("\n\n");
+  if (!fullText.trim()) throw new Error("No text found in EPUB file");
+  return { text: fullText, sections };
 }
 
 async function extractTXT(file: File): Promise<string> {
@@ -63,11 +425,26 @@ async function extractTXT(file: File): Promise<string> {
   return text.trim();
 }
 
-async function extractImage(file: File): Promise<string> {
-  const Tesseract = await import("tesseract.js");
-  const { data: { text } } = await Tesseract.recognize(file, "eng", {
-    logger: () => {}, // suppress logs
+async function extractImage(file: File, { ocrLanguages }: ExtractOptions): Promise<ExtractedDocument> {
+  const { text, confidence, languages } = await recognizeImage(file, ocrLanguages);
+  if (!text) throw new Error("No text could be recognized from the image. Try a clearer image.");
+  return { text, pages: [text], pageConfidence: [confidence], ocrLanguages: languages };
+}
+
+/** OCR a batch of page images, in the given order, into one document with one chapter per page. */
+export async function extractImages(files: File[], { onProgress, ocrLanguages }: ExtractOptions = {}): Promise<ExtractedDocument> {
+  const results = await recognizeImages(files, {
+    languages: ocrLanguages,
+    onProgress: (done, total) => onProgress?.(done, total, "ocr"),
   });
-  if (!text.trim()) throw new Error("No text could be recognized from the image. Try a clearer image.");
-  return text.trim();
+  const pages = results.map((r) => r.text);
+  if (!pages.some(Boolean)) throw new Error("No text could be recognized from the images. Try clearer photos.");
+
+  return {
+    text: joinPages(pages),
+    pages,
+    pageChapters: pages.map((_, i) => ({ title: `Page ${i + 1}`, page: i })),
+    pageConfidence: results.map((r) => r.confidence),
+    ocrLanguages: results[0].languages,
+  };
 }
@@ -0,0 +1,727 @@
+/**
+ * Text normalization before TTS: numbers, ordinals, dates, times, currency,
+ * Roman numerals and units rewritten as the words a narrator would say, in
+ * the book's language. Runs before the pronunciation dictionary.
+ *
+ * Languages with a number speller (see numberWords.ts) get everything spelled
+ * out. The others keep their digits, which their voices read natively, but
+ * still get currency names and unit spacing the dictionary can pick up.
+ */
+
+import { NUMBER_SPELLERS, NumberSpeller } from "@/lib/numberWords";
+
+type Currency = "INR" | "USD" | "EUR" | "GBP" | "JPY";
+
+/** Singular and plural names, then the minor unit's (absent for currencies without one in use) */
+type CurrencyNames = [string, string, string?, string?];
+
+/**
+ * Singular and plural names of a scale word, then the word joining it to the currency (millones de dólares),
+ * and whether one of it is said without the number (mil, not un mil)
+ */
+type MagnitudeNames = [string, string, string?, boolean?];
+
+interface LanguageRules {
+  spell?: NumberSpeller;
+  decimalSeparator: "." | ",";
+  decimalWord?: string;
+  /** Read every digit after the decimal separator, as English does; otherwise short decimals are a number */
+  decimalDigits?: boolean;
+  minusWord?: string;
+  /** Joins the major and minor amounts of a price */
+  andWord?: string;
+  /** Read between the ends of a range such as 10–20 */
+  rangeWord?: string;
+  /** A cardinal as said before a noun: un kilómetro, ein Euro, una libra */
+  beforeNoun?: (words: string, feminine: boolean) => string;
+  /** Stems of the currency and unit names that are feminine: libra(s), roupie(s) */
+  feminine?: string[];
+  /** Whether a count takes the singular; defaults to exactly one */
+  singular?: (n: number) => boolean;
+  currencies: Partial<Record<Currency, CurrencyNames>>;
+  /** Scale words after an amount, by how they're written (see SCALE_WORDS) */
+  magnitudes?: Record<string, MagnitudeNames>;
+  units?: Record<string, [string, string]>;
+  months?: string[];
+  /** Numeric dates are written month first: 03/04/2025 is March 4 */
+  monthFirst?: boolean;
+  /** Numeric dates are read day first unless the month can't be a month */
+  date?: (day: number, month: string, year: number, before: string) => string;
+  time?: (hours: number, minutes: number, meridiem?: string) => string;
+  /** Matches a number with an ordinal suffix; group 1 is the number, group 2 the suffix */
+  ordinal?: RegExp;
+  ordinalWords?: (n: number, suffix: string) => string;
+  /** Words after which a Roman numeral is read as a number: Chapter XIV */
+  romanAfter?: string[];
+  /** Text before a four-digit number that makes it a year: in 1990 */
+  yearAfter?: RegExp;
+  /** 1990s → nineteen nineties */
+  decades?: (n: number) => string;
+}
+
+export interface NormalizationChange {
+  original: string;
+  spoken: string;
+}
+
+const CURRENCY_SYMBOLS: Record<string, Currency> = {
+  "₹": "INR", "Rs.": "INR", "Rs": "INR", "INR": "INR",
+  "$": "USD", "US$": "USD", "USD": "USD",
+  "€": "EUR", "EUR": "EUR",
+  "£": "GBP", "GBP": "GBP",
+  "¥": "JPY", "JPY": "JPY",
+};
+
+// Amounts are often written with a scale word: ₹5 crore, $3.2 million, $5k
+const SCALE_WORDS = ["lakh", "crore", "thousand", "million", "billion", "trillion", "k", "bn"];
+
+const ROMAN_VALUES: Record<string, number> = { I: 1, V: 5, X: 10, L: 50, C: 100, D: 500, M: 1000 };
+
+// Beyond this, numbers are more likely identifiers than quantities
+const MAX_SPOKEN = 999_999_999_999;
+
+// ── Languages ────────────────────────────────────────────────────────
+
+const en = NUMBER_SPELLERS.en;
+const es = NUMBER_SPELLERS.es;
+const fr = NUMBER_SPELLERS.fr;
+const de = NUMBER_SPELLERS.de;
+const it = NUMBER_SPELLERS.it;
+const pt = NUMBER_SPELLERS.pt;
+
+const plural = (word: string): [string, string] => [word, `${word}s`];
+const same = (word: string): [string, string] => [word, word];
+const alone = (one: string, many = one): MagnitudeNames => [one, many, undefined, true];
+
+const LANGUAGE_RULES: Record<string, LanguageRules> = {
+  en: {
+    spell: en,
+    decimalSeparator: ".",
+    decimalWord: "point",
+    decimalDigits: true,
+    minusWord: "minus",
+    andWord: "and",
+    rangeWord: "to",
+    currencies: {
+      INR: ["rupee", "rupees", "paisa", "paise"],
+      USD: ["dollar", "dollars", "cent", "cents"],
+      EUR: ["euro", "euros", "cent", "cents"],
+      GBP: ["pound", "pounds", "penny", "pence"],
+      JPY: ["yen", "yen"],
+    },
+    magnitudes: {
+      k: same("thousand"), thousand: same("thousand"), million: same("million"),
+      bn: same("billion"), billion: same("billion"), trillion: same("trillion"),
+      lakh: same("lakh"), crore: same("crore"),
+    },
+    units: {
+      "km/h": ["kilometer per hour", "kilometers per hour"], "mph": ["mile per hour", "miles per hour"],
+      "km": plural("kilometer"), "m": plural("meter"), "cm": plural("centimeter"), "mm": plural("millimeter"),
+      "kg": plural("kilogram"), "g": plural("gram"), "mg": plural("milligram"),
+      "l": plural("liter"), "ml": plural("milliliter"),
+      "°C": ["degree Celsius", "degrees Celsius"], "°F": ["degree Fahrenheit", "degrees Fahrenheit"],
+      "%": same("percent"),
+      "MB": plural("megabyte"), "GB": plural("gigabyte"), "TB": plural("terabyte"),
+      "MHz": same("megahertz"), "GHz": same("gigahertz"),
+    },
+    months: [
+      "January", "February", "March", "April", "May", "June",
+      "July", "August", "September", "October", "November", "December",
+    ],
+    // English books get the en-US voice, so dates are read the American way
+    monthFirst: true,
+    date: (day, month, year) => `${month} ${en.ordinal(day)}, ${en.year(year)}`,
+    time: (hours, minutes, meridiem) => {
+      const spokenMinutes = minutes === 0 ? (meridiem ? "" : " o'clock")
+        : minutes < 10 ? ` oh ${en.cardinal(minutes)}` : ` ${en.cardinal(minutes)}`;
+      return `${en.cardinal(hours)}${spokenMinutes}${meridiem ? ` ${meridiem[0].toLowerCase()} m` : ""}`;
+    },
+    ordinal: /(\d+)(st|nd|rd|th)/g,
+    ordinalWords: (n) => en.ordinal(n),
+    romanAfter: ["Chapter", "Part", "Book", "Volume", "Vol.", "Act", "Scene", "Section", "Appendix", "Article"],
+    yearAfter: /\b(in|since|until|till|by|from|of|during|before|after|around|circa|c\.|year)\s+$/i,
+    decades: (n) => en.year(n).replace(/y$/, "ie") + "s",
+  },
+
+  es: {
+    spell: es,
+    decimalSeparator: ",",
+    decimalWord: "coma",
+    minusWord: "menos",
+    andWord: "con",
+    rangeWord: "a",
+    // doscientas libras, but doscientos millones
+    beforeNoun: (words, feminine) => feminine
+      ? words.replace(/ientos(?! mill)/g, "ientas").replace(/uno$/, "una")
+      : words.replace(/veintiuno$/, "veintiún").replace(/uno$/, "un"),
+    feminine: ["rupia", "libra", "milla"],
+    currencies: {
+      INR: ["rupia", "rupias", "paisa", "paisas"],
+      USD: ["dólar", "dólares", "centavo", "centavos"],
+      EUR: ["euro", "euros", "céntimo", "céntimos"],
+      GBP: ["libra", "libras", "penique", "peniques"],
+      JPY: ["yen", "yenes"],
+    },
+    magnitudes: {
+      k: alone("mil"), thousand: alone("mil"), million: ["millón", "millones", "de"],
+      bn: [...same("mil millones"), "de"], billion: [...same("mil millones"), "de"], trillion: ["billón", "billones", "de"],
+    },
+    units: {
+      "km/h": ["kilómetro por hora", "kilómetros por hora"], "mph": ["milla por hora", "millas por hora"],
+      "km": plural("kilómetro"), "m": plural("metro"), "cm": plural("centímetro"), "mm": plural("milímetro"),
+      "kg": plural("kilogramo"), "g": plural("gramo"), "mg": plural("miligramo"),
+      "l": plural("litro"), "ml": plural("mililitro"),
+      "°C": ["grado Celsius", "grados Celsius"], "°F": ["grado Fahrenheit", "grados Fahrenheit"],
+      "%": same("por ciento"),
+      "MB": plural("megabyte"), "GB": plural("gigabyte"), "TB": plural("terabyte"),
+      "MHz": plural("megahercio"), "GHz": plural("gigahercio"),
+    },
+    months: [
+      "enero", "febrero", "marzo", "abril", "mayo", "junio",
+      "julio", "agosto", "septiembre", "octubre", "noviembre", "diciembre",
+    ],
+    date: (day, month, year) => `${day === 1 ? "primero" : es.cardinal(day)} de ${month} de ${es.cardinal(year)}`,
+    time: (hours, minutes) => minutes === 0
+      ? `${es.cardinal(hours)} en punto`
+      : `${es.cardinal(hours)} y ${es.cardinal(minutes)}`,
+    ordinal: /(\d+)\.?([ºª])/g,
+    ordinalWords: (n, suffix) => es.ordinal(n, suffix === "ª"),
+    romanAfter: ["Capítulo", "Parte", "Libro", "Tomo", "Volumen", "Acto", "Escena", "Sección"],
+  },
+
+  fr: {
+    spell: fr,
+    decimalSeparator: ",",
+    decimalWord: "virgule",
+    minusWord: "moins",
+    andWord: "et",
+    rangeWord: "à",
+    singular: (n) => Math.abs(n) < 2,
+    beforeNoun: (words, feminine) => feminine ? words.replace(/\bun$/, "une") : words,
+    feminine: ["roupie", "livre"],
+    currencies: {
+      INR: ["roupie", "roupies", "paisa", "paisas"],
+      USD: ["dollar", "dollars", "cent", "cents"],
+      EUR: ["euro", "euros", "centime", "centimes"],
+      GBP: ["livre", "livres", "penny", "pence"],
+      JPY: ["yen", "yens"],
+    },
+    magnitudes: {
+      k: alone("mille"), thousand: alone("mille"), million: ["million", "millions", "de"],
+      bn: ["milliard", "milliards", "de"], billion: ["milliard", "milliards", "de"], trillion: ["billion", "billions", "de"],
+    },
+    units: {
+      "km/h": ["kilomètre par heure", "kilomètres par heure"], "mph": ["mille par heure", "milles par heure"],
+      "km": plural("kilomètre"), "m": plural("mètre"), "cm": plural("centimètre"), "mm": plural("millimètre"),
+      "kg": plural("kilogramme"), "g": plural("gramme"), "mg": plural("milligramme"),
+      "l": plural("litre"), "ml": plural("millilitre"),
+      "°C": ["degré Celsius", "degrés Celsius"], "°F": ["degré Fahrenheit", "degrés Fahrenheit"],
+      "%": same("pour cent"),
+      "Mo": plural("mégaoctet"), "Go": plural("gigaoctet"), "To": plural("téraoctet"),
+      "MB": plural("mégaoctet"), "GB": plural("gigaoctet"), "TB": plural("téraoctet"),
+      "MHz": same("mégahertz"), "GHz": same("gigahertz"),
+    },
+    months: [
+      "janvier", "février", "mars", "avril", "mai", "juin",
+      "juillet", "août", "septembre", "octobre", "novembre", "décembre",
+    ],
+    date: (day, month, year) => `${day === 1 ? "premier" : fr.cardinal(day)} ${month} ${fr.cardinal(year)}`,
+    time: (hours, minutes) =>
+      `${hours === 1 ? "une" : fr.cardinal(hours)} heure${hours > 1 ? "s" : ""}${minutes ? ` ${fr.cardinal(minutes)}` : ""}`,
+    ordinal: /(\d+)(er|re|ème|e|ᵉ)/g,
+    ordinalWords: (n, suffix) => fr.ordinal(n, suffix === "re"),
+    romanAfter: ["Chapitre", "Partie", "Livre", "Tome", "Volume", "Acte", "Scène", "Section"],
+  },
+
+  de: {
+    spell: de,
+    decimalSeparator: ",",
+    decimalWord: "Komma",
+    minusWord: "minus",
+    andWord: "und",
+    rangeWord: "bis",
+    beforeNoun: (words, feminine) => words.replace(/eins$/, feminine ? "eine" : "ein"),
+    feminine: ["Rupie", "Meile", "Million", "Milliarde", "Billion"],
+    currencies: {
+      INR: ["Rupie", "Rupien", "Paisa", "Paise"],
+      USD: ["Dollar", "Dollar", "Cent", "Cent"],
+      EUR: ["Euro", "Euro", "Cent", "Cent"],
+      GBP: ["Pfund", "Pfund", "Penny", "Pence"],
+      JPY: ["Yen", "Yen"],
+    },
+    magnitudes: {
+      k: same("tausend"), thousand: same("tausend"), million: ["Million", "Millionen"],
+      bn: ["Milliarde", "Milliarden"], billion: ["Milliarde", "Milliarden"], trillion: ["Billion", "Billionen"],
+    },
+    units: {
+      "km/h": same("Kilometer pro Stunde"), "mph": ["Meile pro Stunde", "Meilen pro Stunde"],
+      "km": same("Kilometer"), "m": same("Meter"), "cm": same("Zentimeter"), "mm": same("Millimeter"),
+      "kg": same("Kilogramm"), "g": same("Gramm"), "mg": same("Milligramm"),
+      "l": same("Liter"), "ml": same("Milliliter"),
+      "°C": same("Grad Celsius"), "°F": same("Grad Fahrenheit"),
+      "%": same("Prozent"),
+      "MB": same("Megabyte"), "GB": same("Gigabyte"), "TB": same("Terabyte"),
+      "MHz": same("Megahertz"), "GHz": same("Gigahertz"),
+    },
+    months: [
+      "Januar", "Februar", "März", "April", "Mai", "Juni",
+      "Juli", "August", "September", "Oktober", "November", "Dezember",
+    ],
+    // "am 3.4.2025" → am dritten April; otherwise der dritte April
+    date: (day, month, year, before) =>
+      `${de.ordinal(day)}${/\b(am|vom|zum|seit|ab|bis)\s+$/i.test(before) ? "n" : ""} ${month} ${de.year(year)}`,
+    time: (hours, minutes) =>
+      `${hours === 1 ? "ein" : de.cardinal(hours)} Uhr${minutes ? ` ${de.cardinal(minutes)}` : ""}`,
+    romanAfter: ["Kapitel", "Teil", "Buch", "Band", "Akt", "Szene", "Abschnitt"],
+    yearAfter: /\b(im Jahre?|seit|bis|von|um|ab|vor|nach)\s+$/i,
+  },
+
+  it: {
+    spell: it,
+    decimalSeparator: ",",
+    decimalWord: "virgola",
+    minusWord: "meno",
+    andWord: "e",
+    rangeWord: "a",
+    beforeNoun: (words, feminine) => words.replace(/uno$/, feminine ? "una" : "un"),
+    feminine: ["rupia", "sterlin"],
+    currencies: {
+      INR: ["rupia", "rupie", "paisa", "paise"],
+      USD: ["dollaro", "dollari", "centesimo", "centesimi"],
+      EUR: ["euro", "euro", "centesimo", "centesimi"],
+      GBP: ["sterlina", "sterline", "penny", "pence"],
+      JPY: same("yen"),
+    },
+    magnitudes: {
+      k: alone("mille", "mila"), thousand: alone("mille", "mila"), million: ["milione", "milioni", "di"],
+      bn: ["miliardo", "miliardi", "di"], billion: ["miliardo", "miliardi", "di"], trillion: ["bilione", "bilioni", "di"],
+    },
+    units: {
+      "km/h": ["chilometro orario", "chilometri orari"], "mph": ["miglio orario", "miglia orarie"],
+      "km": ["chilometro", "chilometri"], "m": ["metro", "metri"], "cm": ["centimetro", "centimetri"],
+      "mm": ["millimetro", "millimetri"], "kg": ["chilogrammo", "chilogrammi"], "g": ["grammo", "grammi"],
+      "mg": ["milligrammo", "milligrammi"], "l": ["litro", "litri"], "ml": ["millilitro", "millilitri"],
+      "°C": ["grado Celsius", "gradi Celsius"], "°F": ["grado Fahrenheit", "gradi Fahrenheit"],
+      "%": same("per cento"),
+      "MB": same("megabyte"), "GB": same("gigabyte"), "TB": same("terabyte"),
+      "MHz": same("megahertz"), "GHz": same("gigahertz"),
+    },
+    months: [
+      "gennaio", "febbraio", "marzo", "aprile", "maggio", "giugno",
+      "luglio", "agosto", "settembre", "ottobre", "novembre", "dicembre",
+    ],
+    date: (day, month, year) => `${day === 1 ? "primo" : it.cardinal(day)} ${month} ${it.cardinal(year)}`,
+    time: (hours, minutes) => `${it.cardinal(hours)}${minutes ? ` e ${it.cardinal(minutes)}` : ""}`,
+    ordinal: /(\d+)\.?([ºª])/g,
+    ordinalWords: (n, suffix) => it.ordinal(n, suffix === "ª"),
+    romanAfter: ["Capitolo", "Parte", "Libro", "Volume", "Atto", "Scena", "Sezione"],
+  },
+
+  pt: {
+    spell: pt,
+    decimalSeparator: ",",
+    decimalWord: "vírgula",
+    minusWord: "menos",
+    andWord: "e",
+    rangeWord: "a",
+    // duas libras, duzentas libras, but duzentos milhões
+    beforeNoun: (words, feminine) => feminine
+      ? words.replace(/entos(?! milh)/g, "entas").replace(/\bum$/, "uma").replace(/\bdois$/, "duas")
+      : words,
+    feminine: ["rupia", "libra", "milha"],
+    currencies: {
+      INR: ["rupia", "rupias", "paisa", "paisas"],
+      USD: ["dólar", "dólares", "centavo", "centavos"],
+      EUR: ["euro", "euros", "cêntimo", "cêntimos"],
+      GBP: ["libra", "libras", "pêni", "pence"],
+      JPY: ["iene", "ienes"],
+    },
+    magnitudes: {
+      k: alone("mil"), thousand: alone("mil"), million: ["milhão", "milhões", "de"],
+      bn: ["bilhão", "bilhões", "de"], billion: ["bilhão", "bilhões", "de"], trillion: ["trilhão", "trilhões", "de"],
+    },
+    units: {
+      "km/h": ["quilômetro por hora", "quilômetros por hora"], "mph": ["milha por hora", "milhas por hora"],
+      "km": plural("quilômetro"), "m": plural("metro"), "cm": plural("centímetro"), "mm": plural("milímetro"),
+      "kg": plural("quilograma"), "g": plural("grama"), "mg": plural("miligrama"),
+      "l": plural("litro"), "ml": plural("mililitro"),
+      "°C": ["grau Celsius", "graus Celsius"], "°F": ["grau Fahrenheit", "graus Fahrenheit"],
+      "%": same("por cento"),
+      "MB": plural("megabyte"), "GB": plural("gigabyte"), "TB": plural("terabyte"),
+      "MHz": same("megahertz"), "GHz": same("gigahertz"),
+    },
+    months: [
+      "janeiro", "fevereiro", "março", "abril", "maio", "junho",
+      "julho", "agosto", "setembro", "outubro", "novembro", "dezembro",
+    ],
+    date: (day, month, year) => `${day === 1 ? "primeiro" : pt.cardinal(day)} de ${month} de ${pt.cardinal(year)}`,
+    time: (hours, minutes) => minutes === 0 ? `${pt.cardinal(hours)} horas` : `${pt.cardinal(hours)} e ${pt.cardinal(minutes)}`,
+    ordinal: /(\d+)\.?([ºª])/g,
+    ordinalWords: (n, suffix) => pt.ordinal(n, suffix === "ª"),
+    romanAfter: ["Capítulo", "Parte", "Livro", "Tomo", "Volume", "Ato", "Cena", "Seção"],
+  },
+};
+
+// Rupee and paisa names for Indian languages without a number speller
+const RUPEE_NAMES: Record<string, CurrencyNames> = {
+  hi: ["रुपया", "रुपये", "पैसा", "पैसे"],
+  mr: ["रुपया", "रुपये", "पैसा", "पैसे"],
+  ta: ["ரூபாய்", "ரூபாய்", "பைசா", "பைசா"],
+  te: ["రూపాయి", "రూపాయలు", "పైసా", "పైసలు"],
+  bn: ["টাকা", "টাকা", "পয়সা", "পয়সা"],
+  gu: ["રૂપિયો", "રૂપિયા", "પૈસો", "પૈસા"],
+  kn: ["ರೂಪಾಯಿ", "ರೂಪಾಯಿ", "ಪೈಸೆ", "ಪೈಸೆ"],
+  ml: ["രൂപ", "രൂപ", "പൈസ", "പൈസ"],
+  pa: ["ਰੁਪਇਆ", "ਰੁਪਏ", "ਪੈਸਾ", "ਪੈਸੇ"],
+  ur: ["روپیہ", "روپے", "پیسہ", "پیسے"],
+};
+
+// Languages without a speller that write 3,5 for three and a half
+const DECIMAL_COMMA = new Set(["ru", "nl", "pl", "tr"]);
+
+function rulesFor(language: string): LanguageRules {
+  const base = language.split("-")[0].toLowerCase();
+  return LANGUAGE_RULES[language] ?? LANGUAGE_RULES[base] ?? {
+    decimalSeparator: DECIMAL_COMMA.has(base) ? "," : ".",
+    currencies: RUPEE_NAMES[base] ? { INR: RUPEE_NAMES[base] } : {},
+  };
+}
+
+// ── Numbers ──────────────────────────────────────────────────────────
+
+/**
+ * Source for a written number: Indian and Western grouping with a decimal point, or European grouping (points or
+ * spaces) with a comma. Comma languages also take 1,250.50, which can only be English-style, as prices often are.
+ */
+function numberPattern(rules: LanguageRules): string {
+  return rules.decimalSeparator === "."
+    ? "\\d{1,3}(?:,\\d{2,3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?"
+    : "\\d{1,3}(?:,\\d{3})+\\.\\d+|\\d{1,3}(?:[. \\u00A0\\u202F]\\d{3})+(?:,\\d+)?|\\d+(?:,\\d+)?";
+}
+
+function parseNumber(raw: string, rules: LanguageRules): { integer: number; digits: string; fraction: string } {
+  // With both separators present, the last one is the decimal separator
+  const decimal = raw.includes(",") && raw.includes(".")
+    ? (raw.lastIndexOf(",") > raw.lastIndexOf(".") ? "," : ".")
+    : rules.decimalSeparator;
+  const [digits, fraction = ""] = raw.replace(decimal === "." ? /[, \u00A0\u202F]/g : /[. \u00A0\u202F]/g, "").split(decimal);
+  return { integer: Number(digits), digits, fraction };
+}
+
+function isSingular(n: number, rules: LanguageRules): boolean {
+  return rules.singular ? rules.singular(n) : n === 1;
+}
+
+/** A written number in words, or null when it should be left for the voice to read */
+function speakNumber(raw: string, rules: LanguageRules): string | null {
+  const { spell } = rules;
+  const { integer, digits, fraction } = parseNumber(raw, rules);
+  if (!spell || integer > MAX_SPOKEN || (digits.length > 1 && digits.startsWith("0"))) return null;
+  if (!fraction) return spell.cardinal(integer);
+  // tres coma cincuenta, but three point five zero
+  const decimals = !rules.decimalDigits && fraction.length <= 2 && !fraction.startsWith("0")
+    ? spell.cardinal(Number(fraction))
+    : [...fraction].map((d) => spell.cardinal(Number(d))).join(" ");
+  return `${spell.cardinal(integer)} ${rules.decimalWord} ${decimals}`;
+}
+
+function parseRoman(numeral: string): number | null {
+  let total = 0;
+  for (let i = 0; i < numeral.length; i++) {
+    const value = ROMAN_VALUES[numeral[i]];
+    const next = ROMAN_VALUES[numeral[i + 1]] ?? 0;
+    total += value < next ? -value : value;
+  }
+  // Reject non-canonical forms such as IIII or IC, which are more likely words or initials
+  return toRoman(total) === numeral ? total : null;
+}
+
+function toRoman(n: number): string {
+  const table: [number, string][] = [
+    [1000, "M"], [900, "CM"], [500, "D"], [400, "CD"], [100, "C"], [90, "XC"],
+    [50, "L"], [40, "XL"], [10, "X"], [9, "IX"], [5, "V"], [4, "IV"], [1, "I"],
+  ];
+  let result = "";
+  for (const [value, symbol] of table) {
+    while (n >= value) {
+      result += symbol;
+      n -= value;
+    }
+  }
+  return result;
+}
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// ── Rules ────────────────────────────────────────────────────────────
+
+// Text is a list of segments; matched segments are frozen so later rules don't read them again.
+// A rule that returns the match unchanged freezes it as written.
+interface Segment {
+  text: string;
+  original?: string;
+}
+
+/** `before` is all the text ahead of the match, frozen segments included */
+type Replacer = (match: RegExpMatchArray, before: string) => string | null;
+
+function applyRule(segments: Segment[], pattern: RegExp, replace: Replacer): Segment[] {
+  const result: Segment[] = [];
+  let preceding = "";
+  for (const segment of segments) {
+    if (segment.original !== undefined) {
+      result.push(segment);
+      preceding += segment.text;
+      continue;
+    }
+    let last = 0;
+    for (const match of segment.text.matchAll(pattern)) {
+      const start = match.index!;
+      const spoken = replace(match, preceding + segment.text.slice(0, start));
+      if (spoken === null) continue;
+      if (start > last) result.push({ text: segment.text.slice(last, start) });
+      result.push({ text: spoken, original: match[0] });
+      last = start + match[0].length;
+    }
+    if (last < segment.text.length) result.push({ text: segment.text.slice(last) });
+    preceding += segment.text;
+  }
+  return result;
+}
+
+// Not glued to a word, another number or a decimal point on either side
+const NOT_AFTER = "(?<![\\p{L}\\p{N}.,]|\\p{L}-)";
+const NOT_BEFORE = "(?![\\p{L}\\p{N}]|[.,]\\d)";
+
+// A hyphen is a minus sign only at the start of a word: -5 °C, (-3), but not 555-1234
+const MINUS_AFTER = /(?:^|[\s([])$/;
+
+// Phone numbers, ISBNs and other codes, left for the voice: 555-1234, 978-3-16-148410-0, +44 20 7946 0958
+const CODE = /(?<![\p{L}\p{N}])(?:\+\d[\d ]*\d|\d+(?:-\d+)+)(?![\p{L}\p{N}])/gu;
+
+// Units of one letter are read only when spaced from the number, so 4g and 5m stay as written
+const isSingleLetter = (unit: string) => /^\p{L}$/u.test(unit);
+
+const isYearRange = (from: string, to: string) =>
+  /^\d{4}$/.test(from) && /^\d{4}$/.test(to) && Number(from) >= 1000 && Number(from) < Number(to) && Number(to) < 3000;
+
+function normalizeSegments(text: string, rules: LanguageRules): Segment[] {
+  const { spell } = rules;
+  const num = `(?:${numberPattern(rules)})`;
+  const say = (raw: string) => speakNumber(raw, rules);
+  // The number as said before `name`, in its gender
+  const noun = (words: string, name: string) => rules.beforeNoun
+    ? rules.beforeNoun(words, rules.feminine?.some((stem) => name.startsWith(stem)) ?? false)
+    : words;
+  const count = (n: number, name: string) => spell ? noun(spell.cardinal(n), name) : String(n);
+  const named = (n: number, one: string, many: string) => `${count(n, one)} ${isSingular(n, rules) ? one : many}`;
+  let segments: Segment[] = [{ text }];
+
+  // Currency: ₹1,250.50, $5k, 12,50 €
+  const symbols = Object.keys(CURRENCY_SYMBOLS).sort((a, b) => b.length - a.length).map(escapeRegex).join("|");
+  const magnitudes = SCALE_WORDS.join("|");
+  const speakPrice = (symbol: string, raw: string, magnitude?: string) => {
+    const names = rules.currencies[CURRENCY_SYMBOLS[symbol]];
+    if (!names) return null;
+    const [one, many, minorOne, minorMany] = names;
+    const { integer, fraction } = parseNumber(raw, rules);
+    if (magnitude) {
+      const [scaleOne, scaleMany, of, bare] = rules.magnitudes[magnitude.toLowerCase()];
+      const single = !fraction && isSingular(integer, rules);
+      const scale = single ? scaleOne : scaleMany;
+      const amount = single && bare ? scale : `${noun(say(raw) ?? raw, scale)} ${scale}`;
+      return `${amount}${of ? ` ${of}` : ""} ${many}`;
+    }
+    if (integer > MAX_SPOKEN) return null;
+    // ¥1.5 or $1,000.005: more decimals than the minor unit takes, so the amount is read as a number
+    if (fraction && (!minorOne || fraction.length > 2)) return `${say(raw) ?? raw} ${many}`;
+    const minor = fraction ? Number(fraction.padEnd(2, "0")) : 0;
+    if (!minor) return named(integer, one, many);
+    // £0.99 is ninety-nine pence
+    if (integer === 0) return named(minor, minorOne, minorMany);
+    return `${named(integer, one, many)}${rules.andWord ? ` ${rules.andWord}` : ""} ${named(minor, minorOne, minorMany)}`;
+  };
+  segments = applyRule(
+    segments,
+    new RegExp(`(?<![\\p{L}\\p{N}])(${symbols})\\s?(${num})(?![.,]\\d)(?:\\s?(${magnitudes})(?!\\p{L}))?`, "gu"),
+    // Kept as written when the language has no name for the scale word, rather than mixing in English
+    (m) => m[3] && !rules.magnitudes?.[m[3].toLowerCase()] ? m[0] : speakPrice(m[1], m[2], m[3])
+  );
+  segments = applyRule(
+    segments,
+    new RegExp(`${NOT_AFTER}(${num})\\s?(€|₹|\\$|£|EUR|USD|INR|GBP)(?![\\p{L}\\p{N}])`, "gu"),
+    (m) => speakPrice(m[2], m[1])
+  );
+
+  // Currency names written out, where the number agrees with them: un euro, una libra, une roupie
+  if (spell && rules.beforeNoun) {
+    const names = [...new Set(Object.values(rules.currencies).flat())]
+      .filter(Boolean).sort((a, b) => b.length - a.length).map(escapeRegex).join("|");
+    segments = applyRule(
+      segments,
+      new RegExp(`${NOT_AFTER}(${num})(\\s+)(${names})(?![\\p{L}\\p{N}])`, "gu"),
+      (m) => {
+        const { integer, fraction } = parseNumber(m[1], rules);
+        if (fraction || say(m[1]) === null) return null;
+        return `${count(integer, m[3])}${m[2]}${m[3]}`;
+      }
+    );
+  }
+
+  // Dates: 2025-04-03 and 03/04/2025, in the language's order unless that can't be right
+  if (rules.date && rules.months) {
+    const { date, months } = rules;
+    const speakDate = (day: number, month: number, year: number, before: string) => {
+      if (month > 12 && day <= 12) [day, month] = [month, day];
+      if (day < 1 || day > 31 || month < 1 || month > 12) return null;
+      return date(day, months[month - 1], year, before);
+    };
+    segments = applyRule(
+      segments,
+      /(?<![\p{L}\p{N}])(\d{4})-(\d{2})-(\d{2})(?![\p{L}\p{N}])/gu,
+      (m, before) => speakDate(Number(m[3]), Number(m[2]), Number(m[1]), before)
+    );
+    // 3.4.2025 only where a point can't be a decimal point
+    const separator = rules.decimalSeparator === "," ? "[/.]" : "/";
+    segments = applyRule(
+      segments,
+      new RegExp(`(?<![\\p{L}\\p{N}.,/])(\\d{1,2})(${separator})(\\d{1,2})\\2(\\d{4}|\\d{2})(?![\\p{L}\\p{N}]|[.,/]\\d)`, "gu"),
+      (m, before) => {
+        const year = Number(m[4]);
+        const [day, month] = rules.monthFirst ? [m[3], m[1]] : [m[1], m[3]];
+        return speakDate(Number(day), Number(month), m[4].length === 2 ? (year < 50 ? 2000 : 1900) + year : year, before);
+      }
+    );
+  }
+
+  // Times: 10:30, 7:05 pm
+  if (rules.time) {
+    const { time } = rules;
+    segments = applyRule(
+      segments,
+      /(?<![\p{L}\p{N}:])([01]?\d|2[0-3]):([0-5]\d)(?:\s?([AaPp])\.?[Mm]\.?)?(?![\p{L}\p{N}]|:\d)/gu,
+      (m) => time(Number(m[1]), Number(m[2]), m[3])
+    );
+  }
+
+  // Decades: 1990s, '60s
+  if (rules.decades) {
+    const { decades } = rules;
+    segments = applyRule(
+      segments,
+      /(?<![\p{L}\p{N}])('?)(\d{2}|\d{4})s(?![\p{L}\p{N}])/gu,
+      (m) => m[2].endsWith("0") && (m[2].length === 4 || m[1] || Number(m[2]) >= 20) ? decades(Number(m[2])) : null
+    );
+  }
+
+  // Ordinals: 21st, 3º, 2e
+  if (rules.ordinal && rules.ordinalWords) {
+    const { ordinalWords } = rules;
+    segments = applyRule(
+      segments,
+      new RegExp(`(?<![\\p{L}\\p{N}])${rules.ordinal.source}(?![\\p{L}\\p{N}])`, "gu"),
+      (m) => Number(m[1]) > MAX_SPOKEN ? null : ordinalWords(Number(m[1]), m[2])
+    );
+  }
+
+  // Roman numerals after a heading word: Chapter XIV
+  if (spell && rules.romanAfter) {
+    const keywords = rules.romanAfter.map(escapeRegex).join("|");
+    segments = applyRule(
+      segments,
+      new RegExp(`(?<![\\p{L}])(${keywords})(\\s+)([IVXLCDM]+)(?![\\p{L}\\p{N}])`, "gu"),
+      (m) => {
+        const value = parseRoman(m[3]);
+        return value === null ? null : `${m[1]}${m[2]}${spell.cardinal(value)}`;
+      }
+    );
+  }
+
+  // Ranges: 10–20 with an en dash; with a hyphen only years, 1914-1918, as hyphens also join codes
+  if (spell && rules.rangeWord) {
+    segments = applyRule(
+      segments,
+      new RegExp(`${NOT_AFTER}(${num})(\\s?–\\s?|-)(${num})${NOT_BEFORE}`, "gu"),
+      (m) => {
+        const years = isYearRange(m[1], m[3]);
+        if (m[2] === "-" && !years) return null;
+        const from = years ? spell.year(Number(m[1])) : say(m[1]);
+        const to = years ? spell.year(Number(m[3])) : say(m[3]);
+        return from && to ? `${from} ${rules.rangeWord} ${to}` : null;
+      }
+    );
+  }
+
+  segments = applyRule(segments, CODE, (m) => m[0]);
+
+  // Units: 3.5kg, 20 °C, 15%, 5 m
+  if (rules.units) {
+    const { units } = rules;
+    const keys = (singleLetter: boolean) => Object.keys(units)
+      .filter((unit) => isSingleLetter(unit) === singleLetter)
+      .sort((a, b) => b.length - a.length).map(escapeRegex).join("|");
+    segments = applyRule(
+      segments,
+      new RegExp(`${NOT_AFTER}(-?)(${num})(?:\\s?(${keys(false)})|\\s(${keys(true)}))(?![\\p{L}\\p{N}])`, "gu"),
+      (m, before) => {
+        const amount = say(m[2]);
+        if (amount === null || (m[1] && !MINUS_AFTER.test(before))) return null;
+        const { integer, fraction } = parseNumber(m[2], rules);
+        const [one, many] = units[m[3] ?? m[4]];
+        const unit = isSingular(fraction ? Number(`${integer}.${fraction}`) : integer, rules) ? one : many;
+        return `${m[1] ? `${rules.minusWord} ` : ""}${fraction ? amount : noun(amount, one)} ${unit}`;
+      }
+    );
+  } else {
+    // Space out units so the pronunciation dictionary can match them: 3.5kg → 3.5 kg
+    segments = applyRule(
+      segments,
+      /(?<![\p{L}])(\d)(km|kg|cm|mm|ml|mg)(?![\p{L}\p{N}])/gu,
+      (m) => `${m[1]} ${m[2]}`
+    );
+  }
+
+  // Years after a preposition: in 1990
+  if (spell && rules.yearAfter) {
+    const { yearAfter } = rules;
+    segments = applyRule(
+      segments,
+      new RegExp(`${NOT_AFTER}(\\d{4})${NOT_BEFORE}`, "gu"),
+      (m, before) => yearAfter.test(before) ? spell.year(Number(m[1])) : null
+    );
+  }
+
+  // Everything else: -5, 1,250, 3.14
+  if (spell) {
+    segments = applyRule(
+      segments,
+      new RegExp(`(?:(?<![\\p{L}\\p{N}])(-))?${NOT_AFTER}(${num})${NOT_BEFORE}`, "gu"),
+      (m, before) => {
+        const words = say(m[2]);
+        if (words === null) return null;
+        if (!m[1]) return words;
+        return MINUS_AFTER.test(before) ? `${rules.minusWord} ${words}` : `${m[1]}${words}`;
+      }
+    );
+  }
+
+  return segments;
+}
+
+/**
+ * Rewrite numbers, dates, times, currency, Roman numerals and units in `text`
+ * as spoken words for `language`, with the list of replacements made.
+ */
+export function normalizeWithChanges(text: string, language = "en"): { text: string; changes: NormalizationChange[] } {
+  const segments = normalizeSegments(text, rulesFor(language));
+  return {
+    text: segments.map((s) => s.text).join(""),
+    changes: segments
+      .filter((s) => s.original !== undefined && s.original !== s.text)
+      .map((s) => ({ original: s.original!, spoken: s.text })),
+  };
+}
+
+export function normalizeText(text: string, language = "en"): string {
+  return normalizeWithChanges(text, language).text;
+}
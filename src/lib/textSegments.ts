@@ -0,0 +1,81 @@
+/**
+ * Sentence and word ranges within a paragraph, used for read-along highlighting.
+ * Ranges are [start, end) character offsets into the original string.
+ */
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+const SENTENCE_RE = /[^.!?।。！？]*[.!?।。！？]+["'”’)\]]*\s*|[^.!?।。！？]+$/g;
+
+/** Split text into sentences that together cover every character. */
+export function splitSentences(text: string): TextRange[] {
+  const ranges: TextRange[] = [];
+  for (const match of text.matchAll(SENTENCE_RE)) {
+    if (match[0].length === 0) continue;
+    ranges.push({ start: match.index!, end: match.index! + match[0].length });
+  }
+  return ranges;
+}
+
+export function findRange(ranges: TextRange[], charIndex: number): number {
+  return ranges.findIndex((r) => charIndex >= r.start && charIndex < r.end);
+}
+
+/** The word containing (or starting at) charIndex, if any. */
+export function wordAt(text: string, charIndex: number, charLength?: number): TextRange | null {
+  if (charIndex < 0 || charIndex >= text.length) return null;
+  if (charLength && charLength > 0) return { start: charIndex, end: charIndex + charLength };
+
+  let start = charIndex;
+  while (start > 0 && !/\s/.test(text[start - 1])) start--;
+  let end = charIndex;
+  while (end < text.length && !/\s/.test(text[end])) end++;
+  return end > start ? { start, end } : null;
+}
+
+export interface CharacterAlignment {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+}
+
+/**
+ * Map a TTS character alignment back onto the source text.
+ * Returns ascending [charOffset, startSeconds] pairs; characters the engine
+ * dropped or normalized (extra whitespace, trimmed joins) are skipped.
+ */
+export function alignmentToOffsets(text: string, alignment: CharacterAlignment): [number, number][] {
+  const offsets: [number, number][] = [];
+  let pos = 0;
+
+  alignment.characters.forEach((ch, i) => {
+    if (/\s/.test(ch)) return;
+    // Look a short distance ahead so one unmatched character cannot derail the rest
+    const found = text.indexOf(ch, pos);
+    if (found === -1 || found - pos > 20) return;
+    offsets.push([found, alignment.character_start_times_seconds[i]]);
+    pos = found + ch.length;
+  });
+
+  return offsets;
+}
+
+/** Character offset being spoken at the given time, or -1 before the first character. */
+export function offsetAtTime(offsets: [number, number][], seconds: number): number {
+  let lo = 0, hi = offsets.length - 1, result = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (offsets[mid][1] <= seconds) { result = offsets[mid][0]; lo = mid + 1; }
+    else hi = mid - 1;
+  }
+  return result;
+}
+
+/** Start time of the first aligned character at or after charOffset, or 0 if unknown. */
+export function timeAtOffset(offsets: [number, number][], charOffset: number): number {
+  const hit = offsets.find(([offset]) => offset >= charOffset);
+  return hit ? hit[1] : 0;
+}
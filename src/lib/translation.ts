@@ -0,0 +1,109 @@
+/**
+ * Paragraph translation pipeline with pluggable providers.
+ * Paragraphs are grouped into batches, each batch is retried with backoff,
+ * and progress is reported per batch.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export interface TranslationProvider {
+  id: string;
+  /** Translate texts in order; must return exactly one result per input. */
+  translateBatch(texts: string[], targetLanguage: string, sourceLanguage?: string): Promise<string[]>;
+}
+
+export interface TranslateOptions {
+  provider: TranslationProvider;
+  targetLanguage: string;
+  /** Omit to let the provider detect the source language. */
+  sourceLanguage?: string;
+  maxBatchSize?: number;
+  maxBatchChars?: number;
+  retries?: number;
+  retryDelayMs?: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// Edge function provider (supabase/functions/translate)
+export function createSupabaseTranslationProvider(): TranslationProvider {
+  return {
+    id: "supabase",
+    async translateBatch(texts, targetLanguage, sourceLanguage) {
+      const { data, error } = await supabase.functions.invoke("translate", {
+        body: { texts, target: targetLanguage, source: sourceLanguage },
+      });
+      if (error) throw new Error(error.message);
+      if (!Array.isArray(data?.translations)) throw new Error("Invalid translation response");
+      return data.translations;
+    },
+  };
+}
+
+/**
+ * Group paragraph indices into batches bounded by count and total characters.
+ * A single paragraph longer than maxChars gets a batch of its own.
+ */
+export function batchParagraphs(paragraphs: string[], maxSize: number, maxChars: number): number[][] {
+  const batches: number[][] = [];
+  let current: number[] = [];
+  let chars = 0;
+
+  paragraphs.forEach((p, i) => {
+    if (current.length > 0 && (current.length >= maxSize || chars + p.length > maxChars)) {
+      batches.push(current);
+      current = [];
+      chars = 0;
+    }
+    current.push(i);
+    chars += p.length;
+  });
+
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+async function withRetry<T>(fn: () => Promise<T>, retries: number, delayMs: number): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (attempt >= retries) throw err;
+      await new Promise((r) => setTimeout(r, delayMs * 2 ** attempt));
+    }
+  }
+}
+
+/**
+ * Translate paragraphs batch by batch, preserving order.
+ * Empty paragraphs are passed through without being sent to the provider.
+ */
+export async function translateParagraphs(paragraphs: string[], options: TranslateOptions): Promise<string[]> {
+  const {
+    provider, targetLanguage, sourceLanguage,
+    maxBatchSize = 20, maxBatchChars = 4500,
+    retries = 2, retryDelayMs = 1000, onProgress,
+  } = options;
+
+  const result = [...paragraphs];
+  const pending = paragraphs.map((p, i) => i).filter((i) => paragraphs[i].trim());
+  const batches = batchParagraphs(pending.map((i) => paragraphs[i]), maxBatchSize, maxBatchChars)
+    .map((batch) => batch.map((j) => pending[j]));
+
+  onProgress?.(0, batches.length);
+
+  for (let b = 0; b < batches.length; b++) {
+    const indices = batches[b];
+    const translated = await withRetry(async () => {
+      const out = await provider.translateBatch(indices.map((i) => paragraphs[i]), targetLanguage, sourceLanguage);
+      if (out.length !== indices.length) {
+        throw new Error(`Expected ${indices.length} translations, got ${out.length}`);
+      }
+      return out;
+    }, retries, retryDelayMs);
+
+    indices.forEach((idx, j) => { result[idx] = translated[j]; });
+    onProgress?.(b + 1, batches.length);
+  }
+
+  return result;
+}
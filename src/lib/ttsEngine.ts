@@ -1,20 +1,71 @@
 /**
- * Browser-only TTS engine using SpeechSynthesis API (no API keys needed).
+ * TTS engines: the browser SpeechSynthesis API (offline, no API keys needed)
+ * and the ElevenLabs `text-to-speech` edge function played through an audio element.
+ * Both take paragraph text with SSML markup (see ssml.ts) and report character
+ * offsets into the text with the markup stripped.
  */
 
+import { supabase } from "@/integrations/supabase/client";
+import { CharacterAlignment, alignmentToOffsets, offsetAtTime, timeAtOffset, wordAt } from "@/lib/textSegments";
+import { splitAtBreaks, stripSsml } from "@/lib/ssml";
+
 export type BrowserVoice = { id: string; label: string };
 
+export type TTSEngineId = "browser" | "cloud";
+
+export interface SpeakOptions {
+  lang: string;
+  rate: number;
+  /** Browser: voice index as a string. Cloud: ElevenLabs voice id. */
+  voice?: string;
+  /** Called once audio actually starts playing. */
+  onStart?: () => void;
+  /** Playback position in seconds; duration is NaN when the engine cannot know it. */
+  onProgress?: (position: number, duration: number) => void;
+  /** Character offset (and length, when known) of the word being spoken, in the text without markup. */
+  onBoundary?: (charIndex: number, charLength?: number) => void;
+  /** Book paragraph being spoken, so the cloud cache can record it. */
+  chunk?: ChunkRef;
+  /**
+   * Resume point within the text (offset without markup); each engine uses whichever part it can honour.
+   * `seconds` is on the audio clock of `engine`, so other engines can't seek by it.
+   */
+  startAt?: { charOffset?: number; seconds?: number; engine?: TTSEngineId | null };
+}
+
+export interface ChunkRef {
+  audiobookId: string;
+  paragraphIndex: number;
+}
+
+export interface TTSEngine {
+  id: TTSEngineId;
+  label: string;
+  /** Resolves when the text has finished playing or playback was stopped. */
+  speak(text: string, options: SpeakOptions): Promise<void>;
+  pause(): void;
+  resume(): void;
+  stop(): void;
+  setRate(rate: number): void;
+  /** Only engines backed by an audio file can seek. */
+  seek?(seconds: number): void;
+  /** Start generating audio for text that is likely to be spoken next. */
+  prefetch?(text: string, options: SpeakOptions): void;
+}
+
 // Get available browser voices
 export function getBrowserVoices(): BrowserVoice[] {
   const voices = window.speechSynthesis.getVoices();
   return voices.map((v, i) => ({ id: String(i), label: `${v.name} (${v.lang})` }));
 }
 
+/** Speak plain text; markup is not understood, so callers strip it first. */
 export function synthesizeOffline(
   text: string,
   lang: string = "en-US",
   rate: number = 1.0,
-  voiceIndex?: number
+  voiceIndex?: number,
+  onBoundary?: (charIndex: number, charLength?: number) => void
 ): Promise<void> {
   return new Promise((resolve, reject) => {
     window.speechSynthesis.cancel();
@@ -25,6 +76,11 @@ export function synthesizeOffline(
       const voices = window.speechSynthesis.getVoices();
       if (voices[voiceIndex]) utter.voice = voices[voiceIndex];
     }
+    if (onBoundary) {
+      utter.onboundary = (e) => {
+        if (e.name === "word") onBoundary(e.charIndex, e.charLength || undefined);
+      };
+    }
     utter.onend = () => resolve();
     utter.onerror = (e) => reject(e);
     window.speechSynthesis.speak(utter);
@@ -53,3 +109,257 @@ export function getLangCode(lang: string): string {
   };
   return map[lang] || "en-US";
 }
+
+// Browser engine
+// SpeechSynthesis exposes no playback clock, so elapsed time is measured on the wall clock
+const browserClock = { base: 0, startedAt: 0, pausedAt: null as number | null, rate: 1 };
+// Incremented by stop() and every speak(), so an utterance chain split at breaks stops itself
+let browserRequest = 0;
+
+function browserElapsed() {
+  const now = browserClock.pausedAt ?? Date.now();
+  return browserClock.base + ((now - browserClock.startedAt) / 1000) * browserClock.rate;
+}
+
+// Silence for an SSML break, shortened at faster rates and held while paused
+async function browserBreak(ms: number, request: number) {
+  let left = ms / browserClock.rate;
+  while (left > 0 && request === browserRequest) {
+    const step = Math.min(left, 100);
+    await new Promise((resolve) => setTimeout(resolve, step));
+    if (browserClock.pausedAt === null) left -= step;
+  }
+}
+
+export const browserEngine: TTSEngine = {
+  id: "browser",
+  label: "Browser TTS",
+  async speak(text, { lang, rate, voice, startAt, onStart, onProgress, onBoundary }) {
+    const request = ++browserRequest;
+    // Restart from the beginning of the word containing the resume offset
+    const plain = stripSsml(text);
+    const requested = Math.min(startAt?.charOffset ?? 0, plain.length);
+    const from = requested > 0 ? (wordAt(plain, requested)?.start ?? requested) : 0;
+
+    const base = startAt?.engine === "browser" ? startAt.seconds ?? 0 : 0;
+    Object.assign(browserClock, { base, startedAt: Date.now(), pausedAt: null, rate });
+    onStart?.();
+    try {
+      // One utterance per stretch between breaks, with the pauses timed here
+      for (const piece of splitAtBreaks(text)) {
+        if (piece.start + piece.text.length <= from && piece.start < from) continue;
+        const offset = Math.max(piece.start, from);
+        const spoken = piece.text.slice(offset - piece.start);
+        if (spoken.trim()) {
+          await synthesizeOffline(spoken, lang, rate, voice !== undefined ? Number(voice) : undefined, (index, length) => {
+            onBoundary?.(offset + index, length);
+            onProgress?.(browserElapsed(), NaN);
+          });
+        }
+        if (request !== browserRequest) return;
+        if (piece.pauseMs > 0) await browserBreak(piece.pauseMs, request);
+        if (request !== browserRequest) return;
+      }
+    } catch (e) {
+      // cancel() surfaces as an "interrupted"/"canceled" error; treat it as a normal stop
+      const reason = (e as SpeechSynthesisErrorEvent)?.error;
+      if (reason !== "interrupted" && reason !== "canceled") throw e;
+    }
+  },
+  pause: () => {
+    browserClock.pausedAt ??= Date.now();
+    pauseTTS();
+  },
+  resume: () => {
+    if (browserClock.pausedAt !== null) {
+      browserClock.startedAt += Date.now() - browserClock.pausedAt;
+      browserClock.pausedAt = null;
+    }
+    resumeTTS();
+  },
+  stop: () => {
+    browserRequest++;
+    stopTTS();
+  },
+  // SpeechSynthesis cannot change rate mid-utterance; it applies from the next paragraph
+  setRate: () => {},
+};
+
+// Cloud engine (ElevenLabs via supabase/functions/text-to-speech)
+export const CLOUD_VOICES: BrowserVoice[] = [
+  { id: "JBFqnCBsd6RMkjVDRZzb", label: "George (warm, narration)" },
+  { id: "21m00Tcm4TlvDq8ikWAM", label: "Rachel (calm)" },
+  { id: "EXAVITQu4vr4xnSDxMaL", label: "Sarah (soft)" },
+  { id: "onwK4e9ZLuTAKqWW03F9", label: "Daniel (authoritative)" },
+  { id: "XB0fDUnXU5powFXDhCwa", label: "Charlotte (expressive)" },
+  { id: "pqHfZKP75CyOZxaNHR9c", label: "Bill (documentary)" },
+];
+
+const TTS_FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/text-to-speech`;
+
+interface CloudRequestOptions {
+  voiceId?: string;
+  /** Book language; some markup (phonemes) is only honoured for English */
+  language?: string;
+  chunk?: ChunkRef;
+  signal?: AbortSignal;
+}
+
+async function requestCloudTTS(
+  text: string,
+  { voiceId, language, chunk, signal }: CloudRequestOptions,
+  withTimestamps: boolean
+): Promise<Response> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const key = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+  const response = await fetch(TTS_FUNCTION_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      apikey: key,
+      Authorization: `Bearer ${session?.access_token ?? key}`,
+    },
+    body: JSON.stringify({
+      text, voiceId, language, withTimestamps, audiobookId: chunk?.audiobookId, paragraphIndex: chunk?.paragraphIndex,
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `TTS request failed (${response.status})`);
+  }
+  return response;
+}
+
+export async function synthesizeCloud(text: string, options: CloudRequestOptions = {}): Promise<Blob> {
+  return (await requestCloudTTS(text, options, false)).blob();
+}
+
+export interface TimedAudio {
+  blob: Blob;
+  /** Null for audio cached before alignments were stored. */
+  alignment: CharacterAlignment | null;
+}
+
+export async function synthesizeCloudTimed(text: string, options: CloudRequestOptions = {}): Promise<TimedAudio> {
+  const { audio, alignment } = await (await requestCloudTTS(text, options, true)).json();
+  const bytes = Uint8Array.from(atob(audio), (c) => c.charCodeAt(0));
+  return { blob: new Blob([bytes], { type: "audio/mpeg" }), alignment };
+}
+
+// A few upcoming paragraphs generated ahead of playback, keyed by voice + text
+const PREFETCH_LIMIT = 3;
+const prefetched = new Map<string, Promise<TimedAudio>>();
+
+function prefetchKey(text: string, voice?: string) {
+  return `${voice ?? ""}\u0000${text}`;
+}
+
+let cloudAudio: HTMLAudioElement | null = null;
+let cloudFinish: (() => void) | null = null;
+// Ends the pending speak() with an error, for failures outside it such as a blocked resume
+let cloudFail: ((err: unknown) => void) | null = null;
+let cloudRequest = 0;
+
+function releaseCloudAudio() {
+  if (cloudAudio) {
+    cloudAudio.pause();
+    URL.revokeObjectURL(cloudAudio.src);
+    cloudAudio = null;
+  }
+  cloudFinish?.();
+  cloudFinish = null;
+  cloudFail = null;
+}
+
+export const cloudEngine: TTSEngine = {
+  id: "cloud",
+  label: "ElevenLabs",
+  async speak(text, { lang, rate, voice, chunk, startAt, onStart, onProgress, onBoundary }) {
+    releaseCloudAudio();
+    const request = ++cloudRequest;
+    const key = prefetchKey(text, voice);
+    const pending = prefetched.get(key);
+    prefetched.delete(key);
+    const synthesize = () => synthesizeCloudTimed(text, { voiceId: voice, language: lang, chunk });
+    const { blob, alignment } = await (pending ? pending.catch(synthesize) : synthesize());
+    // stop() or another speak() happened while the audio was being generated
+    if (request !== cloudRequest) return;
+
+    const audio = new Audio(URL.createObjectURL(blob));
+    audio.playbackRate = rate;
+    cloudAudio = audio;
+
+    const offsets = alignment ? alignmentToOffsets(stripSsml(text), alignment) : null;
+    const startTime = startAt?.charOffset && offsets
+      ? timeAtOffset(offsets, startAt.charOffset)
+      : startAt?.engine === "cloud" ? startAt.seconds ?? 0 : 0;
+
+    // Follow the audio clock frame by frame so word highlighting keeps up with speech
+    let lastOffset = -1;
+    const trackBoundary = () => {
+      if (cloudAudio !== audio || !offsets || audio.paused) return;
+      const offset = offsetAtTime(offsets, audio.currentTime);
+      if (offset !== lastOffset && offset >= 0) {
+        lastOffset = offset;
+        onBoundary?.(offset);
+      }
+      requestAnimationFrame(trackBoundary);
+    };
+
+    await new Promise<void>((resolve, reject) => {
+      const fail = (err: unknown) => {
+        if (cloudAudio === audio) {
+          cloudFinish = null;
+          releaseCloudAudio();
+        }
+        reject(err instanceof Error ? err : new Error("Audio playback failed"));
+      };
+      cloudFinish = resolve;
+      cloudFail = fail;
+      audio.onplay = trackBoundary;
+      audio.ontimeupdate = () => onProgress?.(audio.currentTime, audio.duration);
+      audio.onloadedmetadata = () => {
+        if (startTime > 0) audio.currentTime = Math.min(startTime, audio.duration);
+        onProgress?.(audio.currentTime, audio.duration);
+      };
+      audio.onended = () => { releaseCloudAudio(); };
+      audio.onerror = () => fail(new Error("Audio playback failed"));
+      audio.play().then(() => onStart?.(), fail);
+    });
+  },
+  pause: () => cloudAudio?.pause(),
+  resume: () => {
+    const audio = cloudAudio;
+    audio?.play().catch((err) => {
+      if (cloudAudio === audio) cloudFail?.(err);
+    });
+  },
+  stop: () => {
+    cloudRequest++;
+    releaseCloudAudio();
+  },
+  setRate: (rate) => {
+    if (cloudAudio) cloudAudio.playbackRate = rate;
+  },
+  seek: (seconds) => {
+    if (cloudAudio && Number.isFinite(cloudAudio.duration)) {
+      cloudAudio.currentTime = Math.max(0, Math.min(seconds, cloudAudio.duration));
+    }
+  },
+  prefetch: (text, { lang, voice, chunk }) => {
+    const key = prefetchKey(text, voice);
+    if (prefetched.has(key)) return;
+    if (prefetched.size >= PREFETCH_LIMIT) prefetched.delete(prefetched.keys().next().value);
+    const request = synthesizeCloudTimed(text, { voiceId: voice, language: lang, chunk });
+    // A failed prefetch is retried by speak(); avoid unhandled rejections meanwhile
+    request.catch(() => prefetched.delete(key));
+    prefetched.set(key, request);
+  },
+};
+
+export function getEngine(id: TTSEngineId): TTSEngine {
+  return id === "cloud" ? cloudEngine : browserEngine;
+}
@@ -1,13 +1,15 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
 import {
-  BookOpen, Upload, Library, User as UserIcon, LogOut,
-  Menu, Headphones, ChevronRight, BarChart2, Mic2, Wifi, WifiOff
+  BookOpen, Upload, Library, FileText, User as UserIcon, LogOut,
+  Menu, Headphones, ChevronRight, BarChart2, Mic2, Wifi, WifiOff, Files
 } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import { AudiobookEntry, getBooks } from "@/lib/audiobookStore";
+import { clearRenderedParagraphs, pruneRenderedParagraphs } from "@/lib/audioExport";
 import { useOnlineStatus } from "@/hooks/useOnlineStatus";
 import UploadSection from "@/components/dashboard/UploadSection";
+import BatchImport from "@/components/dashboard/BatchImport";
 import AudioLibrary from "@/components/dashboard/AudioLibrary";
 import Profile from "@/components/dashboard/Profile";
 
@@ -24,7 +26,9 @@ export default function Dashboard() {
   const navigate = useNavigate();
   const isOnline = useOnlineStatus();
   const [tab, setTab]           = useState<Tab>("upload");
+  const [uploadMode, setUploadMode] = useState<"single" | "batch">("single");
   const [books, setBooks]       = useState<AudiobookEntry[]>([]);
+  const [editingBook, setEditingBook] = useState<AudiobookEntry | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [loading, setLoading] = useState(true);
 
@@ -42,8 +46,38 @@ export default function Dashboard() {
     setTab("library");
   };
 
+  // Batch imports stay on the queue instead of jumping to the library
+  const handleBookImported = useCallback((book: AudiobookEntry) => {
+    setBooks(prev => [book, ...prev]);
+  }, []);
+
+  // Rendered export audio is cached per paragraph in the browser; drop what no longer matches the book
   const handleDelete = (id: string) => {
+    clearRenderedParagraphs(id).catch((e) => console.error("Clearing rendered audio failed:", e));
     setBooks(prev => prev.filter(b => b.id !== id));
+    if (editingBook?.id === id) setEditingBook(null);
+  };
+
+  const handleEdit = (book: AudiobookEntry) => {
+    setEditingBook(book);
+    setUploadMode("single");
+    setTab("upload");
+  };
+
+  const handleBookChanged = (book: AudiobookEntry) => {
+    pruneRenderedParagraphs(book).catch((e) => console.error("Clearing rendered audio failed:", e));
+    setBooks(prev => prev.map(b => b.id === book.id ? book : b));
+  };
+
+  const handleBookUpdated = (book: AudiobookEntry) => {
+    handleBookChanged(book);
+    setEditingBook(null);
+    setTab("library");
+  };
+
+  const handleCancelEdit = () => {
+    setEditingBook(null);
+    setTab("library");
   };
 
   const initials = (user?.name || "U")
@@ -52,13 +86,15 @@ export default function Dashboard() {
   const totalWords = books.reduce((s, b) => s + b.wordCount, 0);
 
   const tabTitle: Record<Tab, string> = {
-    upload:  "Convert PDF to Audio",
+    upload:  editingBook ? "Edit Audiobook" : "Convert PDF to Audio",
     library: "My Audiobooks",
     profile: "Profile & Settings",
   };
 
   const tabDesc: Record<Tab, string> = {
-    upload:  "Upload a PDF, choose a language, and create an audiobook in seconds.",
+    upload:  editingBook
+      ? `Correct the text, title or language of “${editingBook.title}”.`
+      : "Upload a PDF, choose a language, and create an audiobook in seconds.",
     library: `You have ${books.length} audiobook${books.length !== 1 ? "s" : ""} in your library.`,
     profile: "Manage your account details and preferences.",
   };
@@ -204,9 +240,40 @@ export default function Dashboard() {
 
         {/* Content */}
         <main className="flex-1 p-6 max-w-3xl mx-auto w-full">
-          {tab === "upload" && (
+          {tab === "upload" && !editingBook && (
+            <div className="flex gap-1 p-1 bg-muted rounded-xl w-fit mb-6">
+              {([["single", FileText, "Single file"], ["batch", Files, "Bulk import"]] as const).map(([mode, Icon, label]) => (
+                <button
+                  key={mode}
+                  onClick={() => setUploadMode(mode)}
+                  className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors ${
+                    uploadMode === mode ? "bg-card text-foreground shadow-sm" : "text-muted-foreground hover:text-foreground"
+                  }`}
+                >
+                  <Icon className="w-3.5 h-3.5" />{label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Kept mounted so the queue keeps importing while other tabs are open */}
+          <div className={tab === "upload" && uploadMode === "batch" ? "" : "hidden"}>
+            <BatchImport onBookCreated={handleBookImported} />
+          </div>
+
+          {tab === "upload" && uploadMode === "single" && (
             <div className="space-y-6 animate-fade-up">
-              <UploadSection onBookCreated={handleBookCreated} />
+              {editingBook ? (
+                <UploadSection
+                  key={editingBook.id}
+                  editingBook={editingBook}
+                  onBookCreated={handleBookCreated}
+                  onBookUpdated={handleBookUpdated}
+                  onCancelEdit={handleCancelEdit}
+                />
+              ) : (
+                <UploadSection onBookCreated={handleBookCreated} />
+              )}
 
               {books.length > 0 && (
                 <div className="glass-card p-4 flex items-center gap-4">
@@ -239,7 +306,7 @@ export default function Dashboard() {
                   <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
                 </div>
               ) : (
-                <AudioLibrary books={books} onDelete={handleDelete} />
+                <AudioLibrary books={books} onDelete={handleDelete} onEdit={handleEdit} onUpdate={handleBookChanged} />
               )}
             </div>
           )}
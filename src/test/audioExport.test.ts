@@ -0,0 +1,172 @@
+import { describe, it, expect } from "vitest";
+import { buildM4b, buildMp3, exportAudiobook, parseMp3, ExportChapter, Mp3Info } from "@/lib/audioExport";
+import type { AudiobookEntry } from "@/lib/audiobookStore";
+
+// MPEG-1 Layer III, 128 kbps, 44.1 kHz, mono: 417-byte frames of 1152 samples
+const MPEG1_HEADER = [0xff, 0xfb, 0x90, 0xc0];
+// MPEG-2 Layer III, 64 kbps, 22.05 kHz, stereo: 208-byte frames of 576 samples
+const MPEG2_HEADER = [0xff, 0xf3, 0x80, 0x00];
+
+function frames(header: number[], size: number, count: number): Uint8Array {
+  const bytes = new Uint8Array(size * count);
+  for (let i = 0; i < count; i++) bytes.set(header, i * size);
+  return bytes;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  parts.reduce((offset, p) => { out.set(p, offset); return offset + p.length; }, 0);
+  return out;
+}
+
+// An ID3v2 tag with an empty body and padding, as encoders prepend
+const ID3_TAG = Uint8Array.of(0x49, 0x44, 0x33, 4, 0, 0, 0, 0, 0, 20, ...new Array(20).fill(0));
+const ID3V1_TAG = concat(new TextEncoder().encode("TAG"), new Uint8Array(125));
+
+const blobBytes = (blob: Blob) => new Promise<Uint8Array>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(blob);
+});
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+const view = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+const CHAPTERS: ExportChapter[] = [
+  { title: "Opening", startMs: 0, endMs: 2612 },
+  { title: "Ünïcode títle", startMs: 2612, endMs: 5224 },
+];
+
+function chunk(count: number): Mp3Info {
+  return parseMp3(frames(MPEG1_HEADER, 417, count));
+}
+
+describe("parseMp3", () => {
+  it("skips ID3 tags and trailing junk and counts MPEG-1 frames", () => {
+    const info = parseMp3(concat(ID3_TAG, frames(MPEG1_HEADER, 417, 10), ID3V1_TAG));
+
+    expect(info.frameSizes).toEqual(new Array(10).fill(417));
+    expect(info.data.length).toBe(4170);
+    expect(info.data[0]).toBe(0xff);
+    expect(info.sampleRate).toBe(44100);
+    expect(info.channels).toBe(1);
+    expect(info.samplesPerFrame).toBe(1152);
+    expect(info.durationMs).toBeCloseTo((10 * 1152 * 1000) / 44100);
+  });
+
+  it("reads MPEG-2 frames", () => {
+    const info = parseMp3(frames(MPEG2_HEADER, 208, 5));
+
+    expect(info.frameSizes).toEqual(new Array(5).fill(208));
+    expect(info.sampleRate).toBe(22050);
+    expect(info.channels).toBe(2);
+    expect(info.samplesPerFrame).toBe(576);
+  });
+
+  it("throws when there are no frames", () => {
+    expect(() => parseMp3(new Uint8Array(100))).toThrow("No MP3 audio frames found");
+  });
+});
+
+// ID3v2.4 frames of a tag: id → bodies
+function id3Frames(bytes: Uint8Array): { id: string; body: Uint8Array }[] {
+  const syncsafe = (at: number) => (bytes[at] << 21) | (bytes[at + 1] << 14) | (bytes[at + 2] << 7) | bytes[at + 3];
+  const end = 10 + syncsafe(6);
+  const result: { id: string; body: Uint8Array }[] = [];
+  for (let at = 10; at + 10 <= end; ) {
+    const size = syncsafe(at + 4);
+    if (size === 0) break;
+    result.push({ id: text(bytes.subarray(at, at + 4)), body: bytes.subarray(at + 10, at + 10 + size) });
+    at += 10 + size;
+  }
+  return result;
+}
+
+describe("buildMp3", () => {
+  it("writes a CTOC listing every CHAP with its times, followed by the audio", async () => {
+    const bytes = await blobBytes(buildMp3([chunk(100), chunk(100)], CHAPTERS, "Book"));
+    const tag = id3Frames(bytes);
+
+    expect(tag.map((f) => f.id)).toEqual(["TIT2", "CTOC", "CHAP", "CHAP"]);
+    expect(text(tag[0].body.subarray(1))).toBe("Book");
+
+    const toc = tag[1].body;
+    expect(text(toc.subarray(0, 3))).toBe("toc");
+    expect(toc[5]).toBe(2); // entry count
+    expect(text(toc.subarray(6))).toBe("ch0\0ch1\0");
+
+    // Element id, start and end ms, two unused byte offsets, then an embedded TIT2 frame
+    const chapters = tag.slice(2).map(({ body }) => {
+      const id = text(body.subarray(0, body.indexOf(0)));
+      const times = view(body.subarray(id.length + 1));
+      const title = body.subarray(id.length + 17);
+      return [id, times.getUint32(0), times.getUint32(4), text(title.subarray(0, 4)), text(title.subarray(11))];
+    });
+    expect(chapters).toEqual([
+      ["ch0", 0, 2612, "TIT2", "Opening"],
+      ["ch1", 2612, 5224, "TIT2", "Ünïcode títle"],
+    ]);
+
+    expect(parseMp3(bytes).frameSizes).toHaveLength(200);
+  });
+
+  it("rejects an export with nothing rendered", () => {
+    expect(() => buildMp3([], [], "Book")).toThrow("no rendered audio");
+  });
+});
+
+// Top-level or child MP4 boxes: type → payload
+function boxes(bytes: Uint8Array): Map<string, Uint8Array> {
+  const result = new Map<string, Uint8Array>();
+  for (let at = 0; at + 8 <= bytes.length; ) {
+    const size = view(bytes).getUint32(at);
+    if (size < 8) break;
+    result.set(text(bytes.subarray(at + 4, at + 8)), bytes.subarray(at + 8, at + size));
+    at += size;
+  }
+  return result;
+}
+
+const child = (bytes: Uint8Array, ...path: string[]) => path.reduce((b, type) => boxes(b).get(type)!, bytes);
+
+describe("buildM4b", () => {
+  it("writes Nero chapters, the frame table and an offset pointing at the audio", async () => {
+    const bytes = await blobBytes(buildM4b([chunk(100), chunk(100)], CHAPTERS, "Book"));
+    expect([...boxes(bytes).keys()]).toEqual(["ftyp", "moov", "mdat"]);
+
+    const chpl = child(bytes, "moov", "udta", "chpl");
+    expect(chpl[8]).toBe(2);
+    const chapters: [number, string][] = [];
+    for (let at = 9, i = 0; i < chpl[8]; i++) {
+      const start = Number(view(chpl).getBigUint64(at)) / 10000;
+      const length = chpl[at + 8];
+      chapters.push([start, text(chpl.subarray(at + 9, at + 9 + length))]);
+      at += 9 + length;
+    }
+    expect(chapters).toEqual([[0, "Opening"], [2612, "Ünïcode títle"]]);
+
+    const stbl = child(bytes, "moov", "trak", "mdia", "minf", "stbl");
+    const stsz = view(child(stbl, "stsz"));
+    expect(stsz.getUint32(8)).toBe(200);
+    expect(stsz.getUint32(12)).toBe(417);
+
+    const offset = view(child(stbl, "stco")).getUint32(8);
+    expect([...bytes.subarray(offset, offset + 4)]).toEqual(MPEG1_HEADER);
+    expect(bytes.length - offset).toBe(200 * 417);
+
+    const mvhd = view(child(bytes, "moov", "mvhd"));
+    expect(mvhd.getUint32(12)).toBe(1000);
+    expect(mvhd.getUint32(16)).toBe(Math.round((200 * 1152 * 1000) / 44100));
+  });
+
+  it("rejects an export with nothing rendered", () => {
+    expect(() => buildM4b([], [], "Book")).toThrow("no rendered audio");
+  });
+});
+
+describe("exportAudiobook", () => {
+  it("rejects a book without text before rendering anything", async () => {
+    const book = { id: "b", title: "Empty", paragraphs: ["", "  "], chapters: [] } as unknown as AudiobookEntry;
+    await expect(exportAudiobook(book, "mp3", { voiceId: "v" })).rejects.toThrow("no text to export");
+  });
+});
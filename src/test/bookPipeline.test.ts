@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from "vitest";
+import { buildBook, BookDraft } from "@/lib/bookPipeline";
+import { translateParagraphs } from "@/lib/translation";
+
+vi.mock("@/lib/translation", () => ({
+  createSupabaseTranslationProvider: () => ({}),
+  translateParagraphs: vi.fn(async (paragraphs: string[]) => paragraphs.map((p) => `[translated] ${p}`)),
+}));
+
+const DRAFT: BookDraft = {
+  title: "Book",
+  sourceName: "book.txt",
+  sourceSize: 10,
+  originalText: "",
+  paragraphs: [],
+  chapters: [],
+};
+
+const OPTIONS = { userId: "u", language: "en", sourceLanguage: "en", dictionary: { GIF: "GIF image" } };
+
+describe("buildBook", () => {
+  it("normalizes and applies the dictionary once to paragraphs left as saved", async () => {
+    const saved = await buildBook({ ...DRAFT, paragraphs: ["A GIF for $5.", "Page 2"] }, OPTIONS);
+    expect(saved.paragraphs).toEqual(["A GIF image for five dollars.", "Page two"]);
+
+    const edited = await buildBook(
+      { ...DRAFT, paragraphs: [...saved.paragraphs, "Another GIF"] },
+      { ...OPTIONS, processed: saved.paragraphs },
+    );
+    expect(edited.paragraphs).toEqual(["A GIF image for five dollars.", "Page two", "Another GIF image"]);
+  });
+
+  it("only translates a book set to detect its language when it isn't in the audio language", async () => {
+    const english = ["It was the best of times, it was the worst of times, and the light was with us."];
+    const same = await buildBook({ ...DRAFT, paragraphs: english }, { ...OPTIONS, sourceLanguage: "auto" });
+    expect(same.paragraphs).toEqual(english);
+    expect(translateParagraphs).not.toHaveBeenCalled();
+
+    const other = await buildBook({ ...DRAFT, paragraphs: english }, { ...OPTIONS, language: "fr", sourceLanguage: "auto" });
+    expect(other.paragraphs[0]).toMatch(/^\[translated\]/);
+    expect(translateParagraphs).toHaveBeenCalledWith(english, expect.objectContaining({ sourceLanguage: "en", targetLanguage: "fr" }));
+  });
+});
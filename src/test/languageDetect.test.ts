@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { detectLanguage } from "@/lib/languageDetect";
+
+const SAMPLES: [string, string][] = [
+  ["en", "It was the best of times, it was the worst of times, and the light was with us."],
+  ["es", "En un lugar de la Mancha, de cuyo nombre no quiero acordarme, no ha mucho tiempo que vivía un hidalgo."],
+  ["fr", "Longtemps, je me suis couché de bonne heure. Parfois, à peine ma bougie éteinte, mes yeux se fermaient si vite que je n'avais pas le temps de me dire que je m'endors."],
+  ["de", "Als Gregor Samsa eines Morgens aus unruhigen Träumen erwachte, fand er sich in seinem Bett zu einem ungeheueren Ungeziefer verwandelt, und es war nicht die Zeit."],
+  ["it", "Nel mezzo del cammin di nostra vita mi ritrovai per una selva oscura, ché la diritta via era smarrita, e non so come."],
+  ["pt", "No meio do caminho tinha uma pedra, e não me esqueço desse acontecimento na vida de minhas retinas tão fatigadas para sempre."],
+  ["nl", "Het is niet de bedoeling dat je dat boek van de plank haalt, maar ik wil er ook een voor mij."],
+  ["pl", "Litwo! Ojczyzno moja! ty jesteś jak zdrowie, ile cię trzeba cenić, ten tylko się dowie, kto cię stracił, i nie wie co to jest."],
+  ["tr", "Bu kitap çok güzel bir hikaye ve bir gün daha okumak için sonra gelmek istiyorum, ama o kadar kolay değil."],
+  ["ru", "Все счастливые семьи похожи друг на друга, каждая несчастливая семья несчастлива по-своему."],
+  ["ar", "كان يا ما كان في قديم الزمان، رجل من أهل المدينة ذهب إلى السوق مع ابنه في هذا اليوم."],
+  ["ur", "یہ کتاب میرے دوست کی ہے اور میں اسے کل واپس کروں گا، لیکن وہ گھر میں نہیں تھا۔"],
+  ["hi", "यह किताब मेरे दोस्त की है और मैं इसे कल वापस करूँगा, लेकिन वह घर में नहीं था।"],
+  ["mr", "हे पुस्तक माझ्या मित्राचे आहे आणि मी ते उद्या परत करणार आहे, पण तो घरी नाही."],
+  ["ta", "இது என் நண்பனின் புத்தகம்."],
+  ["ko", "이 책은 내 친구의 책입니다."],
+  ["ja", "この本は私の友達の本です。"],
+  ["zh", "这本书是我朋友的书。"],
+];
+
+describe("detectLanguage", () => {
+  for (const [code, text] of SAMPLES) {
+    it(`detects ${code}`, () => {
+      expect(detectLanguage(text)).toBe(code);
+    });
+  }
+
+  it("gives up without letters or without telling words", () => {
+    expect(detectLanguage("")).toBeNull();
+    expect(detectLanguage("1234 — 5678")).toBeNull();
+    expect(detectLanguage("Xylophone quartz")).toBeNull();
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import { reviewImport, rulesFromCsv, rulesFromPls, rulesToCsv, rulesToPls } from "@/lib/lexicon";
+import { PronunciationRule } from "@/lib/pronunciationDict";
+
+const RULES: PronunciationRule[] = [
+  { term: "Dr.", replacement: "Doctor", mode: "word", caseSensitive: true, priority: 0, before: undefined, after: "\\s+\\p{Lu}" },
+  { term: "tomato", replacement: '<phoneme alphabet="ipa" ph="təˈmɑːtoʊ">tomato</phoneme>', mode: "word", caseSensitive: false, priority: 0 },
+  { term: "colour", replacement: "color, \"British\"", mode: "substring", caseSensitive: true, priority: 2 },
+  { term: "(\\d+)x", replacement: "$1 times", mode: "regex", caseSensitive: true, priority: -1 },
+];
+
+describe("rulesFromCsv", () => {
+  it("reads a header in any order and fills in missing options", () => {
+    const { rules, issues } = rulesFromCsv("replacement,term,priority\r\nsequel,SQL,3\r\n");
+    expect(issues).toEqual([]);
+    expect(rules).toEqual([
+      { term: "SQL", replacement: "sequel", mode: "word", caseSensitive: true, priority: 3, before: undefined, after: undefined },
+    ]);
+  });
+
+  it("takes a headerless two-column glossary, semicolons and quoted cells", () => {
+    const { rules } = rulesFromCsv('\uFEFFNYC;New York City\n"a;b";"line one\nline ""two"""\n');
+    expect(rules.map((r) => [r.term, r.replacement])).toEqual([
+      ["NYC", "New York City"],
+      ["a;b", 'line one\nline "two"'],
+    ]);
+  });
+
+  it("reports bad rows by line and keeps the last of repeated terms", () => {
+    const { rules, issues } = rulesFromCsv([
+      "term,replacement,mode,case_sensitive,priority,extra",
+      "GIF,jif,word,true,0,x",
+      ",nothing",
+      "PNG,",
+      "JPG,jay peg,fuzzy",
+      "SVG,ess vee gee,word,maybe",
+      "BMP,bitmap,word,true,1.5",
+      "GIF,gif,word,true,0",
+      "re(,x,regex",
+    ].join("\n"));
+
+    expect(rules).toEqual([expect.objectContaining({ term: "GIF", replacement: "gif" })]);
+    expect(issues.map((i) => i.at)).toEqual(["Line 1", "Line 3", "Line 4", "Line 5", "Line 6", "Line 7", "Line 8", "Line 9"]);
+    expect(issues[0].message).toContain('Unknown column "extra"');
+    expect(issues[6].message).toBe("Repeats line 2, which it replaces");
+  });
+
+  it("needs a replacement column when there is a header", () => {
+    expect(rulesFromCsv("term,mode\nGIF,word").issues).toEqual([
+      { at: "Line 1", message: "The header has no replacement column" },
+    ]);
+  });
+});
+
+describe("rulesFromPls", () => {
+  it("reads aliases and IPA or CMU phonemes for every grapheme", () => {
+    const { rules, issues } = rulesFromPls(`<?xml version="1.0" encoding="UTF-8"?>
+      <lexicon version="1.0" xmlns="http://www.w3.org/2005/01/pronunciation-lexicon" alphabet="ipa" xml:lang="en-US">
+        <lexeme><grapheme>W3C</grapheme><alias>World Wide Web Consortium</alias></lexeme>
+        <lexeme><grapheme>read</grapheme><grapheme>reed</grapheme><phoneme>riːd</phoneme></lexeme>
+        <lexeme><grapheme>data</grapheme><phoneme alphabet="cmu-arpabet">D EY1 T AH0</phoneme></lexeme>
+        <lexeme><grapheme>x</grapheme><phoneme alphabet="x-sampa">eks</phoneme></lexeme>
+        <lexeme><alias>orphan</alias></lexeme>
+      </lexicon>`);
+
+    expect(rules.map((r) => [r.term, r.replacement])).toEqual([
+      ["W3C", "World Wide Web Consortium"],
+      ["read", '<phoneme alphabet="ipa" ph="riːd">read</phoneme>'],
+      ["reed", '<phoneme alphabet="ipa" ph="riːd">reed</phoneme>'],
+      ["data", '<phoneme alphabet="cmu-arpabet" ph="D EY1 T AH0">data</phoneme>'],
+    ]);
+    expect(issues).toEqual([
+      { at: "Entry 4", message: '"x" uses the x-sampa alphabet; only ipa and cmu-arpabet are supported' },
+      { at: "Entry 5", message: "Missing grapheme" },
+    ]);
+  });
+
+  it("rejects files that are not lexicons", () => {
+    expect(rulesFromPls("<html></html>").issues[0].at).toBe("File");
+    expect(rulesFromPls("not xml").rules).toEqual([]);
+  });
+});
+
+describe("round trips", () => {
+  it("keeps every rule option through CSV", () => {
+    const { rules, issues } = rulesFromCsv(rulesToCsv(RULES));
+    expect(issues).toEqual([]);
+    expect(rules).toEqual(RULES);
+  });
+
+  it("keeps whole-word rules without context through PLS and counts the rest as skipped", () => {
+    const { xml, skipped } = rulesToPls(RULES, "en");
+    expect(skipped).toBe(3);
+    expect(xml).toContain('xml:lang="en"');
+    expect(rulesFromPls(xml).rules.map((r) => [r.term, r.replacement])).toEqual([[RULES[1].term, RULES[1].replacement]]);
+  });
+
+  it("escapes XML in PLS aliases", () => {
+    const { xml } = rulesToPls([{ term: "R&D", replacement: "research <and> development" }]);
+    expect(rulesFromPls(xml).rules).toEqual([
+      expect.objectContaining({ term: "R&D", replacement: "research <and> development" }),
+    ]);
+  });
+});
+
+describe("reviewImport", () => {
+  it("sorts imported rules into new, changed, unchanged and built-in repeats or overrides", () => {
+    const existing = [
+      { term: "GIF", replacement: "jif" },
+      { term: "SQL", replacement: "sequel" },
+    ];
+    const builtIns = [
+      { term: "Dr.", replacement: "Doctor" },
+      { term: "St.", replacement: "Street" },
+    ];
+    const imported = [
+      { term: "GIF", replacement: "jif" },
+      { term: "SQL", replacement: "S Q L" },
+      { term: "Dr.", replacement: "Doctor" },
+      { term: "St.", replacement: "Saint" },
+      { term: "PNG", replacement: "ping" },
+    ];
+
+    expect(reviewImport(imported, existing, builtIns).map(({ status, previous }) => [status, previous])).toEqual([
+      ["unchanged", undefined],
+      ["changed", "sequel"],
+      ["builtIn", undefined],
+      ["overridesBuiltIn", "Street"],
+      ["new", undefined],
+    ]);
+  });
+
+  it("counts a different priority or case setting as a change", () => {
+    const existing = [{ term: "GIF", replacement: "jif" }];
+    expect(reviewImport([{ term: "GIF", replacement: "jif", priority: 1 }], existing, [])[0].status).toBe("changed");
+    expect(reviewImport([{ term: "GIF", replacement: "jif", caseSensitive: false }], existing, [])[0].status).toBe("changed");
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { joinPageTexts, PdfTextItem, reconstructPageText } from "@/lib/pdfLayout";
+
+// A pdf.js text run at (x, y) of 10pt text unless given; y grows upwards
+function item(str: string, x: number, y: number, width: number, size = 10): PdfTextItem {
+  return { str, transform: [size, 0, 0, size, x, y], width, height: size };
+}
+
+// One run per line of a column, 12pt apart from the top
+function column(x: number, width: number, top: number, lines: string[]): PdfTextItem[] {
+  return lines.map((line, i) => item(line, x, top - i * 12, width));
+}
+
+describe("reconstructPageText", () => {
+  it("joins runs on a baseline and spaces them by their gaps", () => {
+    const items = [item("Hel", 50, 700, 15), item("lo", 65, 700, 10), item("world", 80, 700, 25)];
+    expect(reconstructPageText(items)).toBe("Hello world");
+  });
+
+  it("reads the left column before the right, below a full-width title", () => {
+    const items = [
+      // Interleaved the way a PDF may store rows across both columns
+      ...column(300, 200, 700, ["continues in the right", "column and ends here."]),
+      item("A Two Column Page", 50, 750, 450, 16),
+      ...column(50, 200, 700, ["The left column is read", "first, from top to bot-", "tom, before the right", "column, and its text"]),
+      ...column(300, 200, 664, ["Another paragraph", "follows it."]),
+    ];
+
+    expect(reconstructPageText(items).split("\n\n")).toEqual([
+      "A Two Column Page",
+      "The left column is read first, from top to bottom, before the right column, and its text continues in the right column and ends here.",
+      "Another paragraph follows it.",
+    ]);
+  });
+
+  it("starts paragraphs at indents and short lines, and undoes soft hyphens", () => {
+    const items = [
+      ...column(50, 400, 700, ["This paragraph has a recon\u00AD", "struction across lines and"]),
+      item("ends short.", 50, 676, 60),
+      item("An indented line starts the next", 70, 664, 380),
+      item("paragraph.", 50, 652, 60),
+    ];
+    expect(reconstructPageText(items).split("\n\n")).toEqual([
+      "This paragraph has a reconstruction across lines and ends short.",
+      "An indented line starts the next paragraph.",
+    ]);
+  });
+});
+
+describe("joinPageTexts", () => {
+  it("merges a paragraph running over a page break, hyphenated or not", () => {
+    expect(joinPageTexts(["It was a dark and", "stormy night. The rain was bro-", "ken by the wind."]))
+      .toBe("It was a dark and stormy night. The rain was broken by the wind.");
+  });
+
+  it("keeps finished paragraphs apart and skips blank pages", () => {
+    expect(joinPageTexts(["The end.", "  ", "Chapter Two", "Begins."])).toBe("The end.\n\nChapter Two\n\nBegins.");
+  });
+});
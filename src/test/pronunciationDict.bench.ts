@@ -0,0 +1,33 @@
+import { bench, describe } from "vitest";
+import { compileDictionary, PronunciationRule } from "@/lib/pronunciationDict";
+
+// A few hundred custom entries over a long book, the case the single-pass matcher is for
+const RULES: PronunciationRule[] = Array.from({ length: 300 }, (_, i) => ({
+  term: `TERM${i}`,
+  replacement: `term number ${i}`,
+}));
+
+const WORDS = ["the", "quick", "brown", "fox", "TERM7", "jumps", "over", "TERM250", "lazy", "dog."];
+const BOOK = Array.from({ length: 300_000 }, (_, i) => WORDS[i % WORDS.length]).join(" ");
+
+// The previous approach: one regular expression per entry, each rescanning the whole text
+function applyPerRule(text: string, rules: PronunciationRule[]): string {
+  let result = text;
+  for (const rule of rules) {
+    const escaped = rule.term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    result = result.replace(new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])${escaped}(?![\\p{L}\\p{M}\\p{N}])`, "gu"), rule.replacement);
+  }
+  return result;
+}
+
+describe("300 entries on a 300k-word book", () => {
+  const matcher = compileDictionary(RULES);
+
+  bench("compiled single pass", () => {
+    matcher.apply(BOOK);
+  }, { iterations: 3, time: 0 });
+
+  bench("one regex per entry", () => {
+    applyPerRule(BOOK, RULES);
+  }, { iterations: 3, time: 0 });
+});
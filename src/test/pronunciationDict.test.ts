@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyDictionary,
+  compileDictionary,
+  mergeRules,
+  ruleError,
+  PronunciationRule,
+} from "@/lib/pronunciationDict";
+
+// Only the given rules, without the built-in dictionary
+const apply = (text: string, rules: PronunciationRule[]) => compileDictionary(rules).apply(text);
+
+describe("compileDictionary overlapping keys", () => {
+  it("prefers the longest key at the same position regardless of rule order", () => {
+    const rules = [
+      { term: "w/", replacement: "with" },
+      { term: "w/o", replacement: "without" },
+    ];
+    expect(apply("tea w/o sugar, w/ milk", rules)).toBe("tea without sugar, with milk");
+    expect(apply("tea w/o sugar, w/ milk", [...rules].reverse())).toBe("tea without sugar, with milk");
+  });
+
+  it("prefers a multi-word key over its first word", () => {
+    const rules = [
+      { term: "New", replacement: "new" },
+      { term: "New York", replacement: "the Big Apple" },
+    ];
+    expect(apply("New York is New", rules)).toBe("the Big Apple is new");
+  });
+
+  it("never rewrites a replacement", () => {
+    const rules = [
+      { term: "A", replacement: "B" },
+      { term: "B", replacement: "C" },
+    ];
+    expect(apply("A B", rules)).toBe("B C");
+  });
+
+  it("takes the leftmost match when keys overlap at different positions", () => {
+    const rules = [
+      { term: "ab", replacement: "1", mode: "substring" as const },
+      { term: "bc", replacement: "2", mode: "substring" as const },
+    ];
+    expect(apply("abc", rules)).toBe("1c");
+  });
+
+  it("lets priority outrank length", () => {
+    const rules = [
+      { term: "New York", replacement: "the Big Apple" },
+      { term: "New", replacement: "brand new", priority: 1 },
+    ];
+    expect(apply("New York", rules)).toBe("brand new York");
+  });
+
+  it("breaks ties in favour of the later rule", () => {
+    const rules: PronunciationRule[] = [
+      { term: "read", replacement: "reed" },
+      { term: "read", replacement: "red", mode: "substring" },
+    ];
+    expect(apply("I read", rules)).toBe("I red");
+  });
+
+  it("compares pattern and literal matches by length", () => {
+    const rules: PronunciationRule[] = [
+      { term: "3x", replacement: "thrice" },
+      { term: "(\\d+)x faster", replacement: "$1 times faster", mode: "regex" },
+    ];
+    expect(apply("3x faster, then 3x", rules)).toBe("3 times faster, then thrice");
+  });
+
+  it("matches case-insensitive and case-sensitive keys together", () => {
+    const rules: PronunciationRule[] = [
+      { term: "sql", replacement: "sequel", caseSensitive: false },
+      { term: "SQL Server", replacement: "sequel server" },
+    ];
+    expect(apply("Sql and SQL Server", rules)).toBe("sequel and sequel server");
+  });
+});
+
+describe("compileDictionary rules", () => {
+  it("respects word boundaries in any script", () => {
+    expect(apply("SQLite uses SQL", [{ term: "SQL", replacement: "sequel" }])).toBe("SQLite uses sequel");
+    expect(apply("см и смотреть", [{ term: "см", replacement: "сантиметров" }])).toBe("сантиметров и смотреть");
+  });
+
+  it("expands groups in pattern replacements", () => {
+    const rules: PronunciationRule[] = [
+      { term: "(?<n>\\d+)%", replacement: "$<n> percent", mode: "regex" },
+      { term: "#(\\w+)", replacement: "hashtag $1 ($&, $$)", mode: "regex" },
+    ];
+    expect(apply("50% #tts", rules)).toBe("50 percent hashtag tts (#tts, $)");
+  });
+
+  it("checks context against the original text", () => {
+    const rules: PronunciationRule[] = [
+      { term: "Dr.", replacement: "Drive", before: "\\p{Lu}\\p{Ll}+\\s", priority: 1 },
+      { term: "Dr.", replacement: "Doctor" },
+    ];
+    expect(apply("Dr. Who lives on Main Dr.", rules)).toBe("Doctor Who lives on Main Drive");
+  });
+
+  it("skips invalid rules", () => {
+    const broken = { term: "(", replacement: "x", mode: "regex" as const };
+    expect(ruleError(broken)).not.toBeNull();
+    expect(apply("a ( b", [broken, { term: "b", replacement: "bee" }])).toBe("a ( bee");
+  });
+});
+
+describe("applyDictionary", () => {
+  it("layers custom entries over the built-in dictionary for the language", () => {
+    expect(applyDictionary("Dr. Smith and Main Dr.", {}, "en")).toBe("Doctor Smith and Main Drive");
+    expect(applyDictionary("AI and ML", { AI: "A I" }, "en")).toBe("A I and Machine Learning");
+  });
+
+  it("merges rules by key, later layers replacing earlier ones", () => {
+    const merged = mergeRules({ SQL: "sequel" }, [{ term: "SQL", replacement: "S Q L" }]);
+    expect(merged).toEqual([{ term: "SQL", replacement: "S Q L" }]);
+  });
+});
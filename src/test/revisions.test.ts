@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { diffParagraphs, diffStats, revisionChanges } from "@/lib/revisions";
+
+describe("diffParagraphs", () => {
+  it("matches everything when nothing changed", () => {
+    expect(diffParagraphs(["a", "b"], ["a", "b"])).toEqual([
+      { type: "equal", before: 0, after: 0, text: "a" },
+      { type: "equal", before: 1, after: 1, text: "b" },
+    ]);
+    expect(revisionChanges(["a", "b"], ["a", "b"])).toEqual([]);
+  });
+
+  it("numbers the paragraphs after an insertion by their new position", () => {
+    expect(diffParagraphs(["a", "b"], ["x", "a", "b"])).toEqual([
+      { type: "added", after: 0, text: "x" },
+      { type: "equal", before: 0, after: 1, text: "a" },
+      { type: "equal", before: 1, after: 2, text: "b" },
+    ]);
+  });
+
+  it("reports an insertion and a deletion in the middle", () => {
+    expect(revisionChanges(["a", "b", "c"], ["a", "x", "b", "c"])).toEqual([{ type: "added", after: 1, text: "x" }]);
+    expect(revisionChanges(["a", "b", "c"], ["a", "c"])).toEqual([{ type: "removed", before: 1, text: "b" }]);
+  });
+
+  it("pairs replaced paragraphs as changed and reports the rest as removed or added", () => {
+    expect(revisionChanges(["a", "b", "c"], ["a", "B", "c"])).toEqual([
+      { type: "changed", before: 1, after: 1, oldText: "b", text: "B" },
+    ]);
+    expect(revisionChanges(["a", "b", "c", "d"], ["a", "X", "d"])).toEqual([
+      { type: "changed", before: 1, after: 1, oldText: "b", text: "X" },
+      { type: "removed", before: 2, text: "c" },
+    ]);
+    expect(revisionChanges(["a", "b", "d"], ["a", "X", "Y", "d"])).toEqual([
+      { type: "changed", before: 1, after: 1, oldText: "b", text: "X" },
+      { type: "added", after: 2, text: "Y" },
+    ]);
+  });
+
+  it("trims a shared prefix and suffix made of repeated paragraphs", () => {
+    expect(revisionChanges(["intro", "rep", "rep", "end"], ["intro", "rep", "end"])).toEqual([
+      { type: "removed", before: 2, text: "rep" },
+    ]);
+  });
+
+  it("aligns repeated paragraphs by their longest common run", () => {
+    expect(diffParagraphs(["s", "a", "b", "a", "e"], ["t", "a", "a", "f"])).toEqual([
+      { type: "changed", before: 0, after: 0, oldText: "s", text: "t" },
+      { type: "equal", before: 1, after: 1, text: "a" },
+      { type: "removed", before: 2, text: "b" },
+      { type: "equal", before: 3, after: 2, text: "a" },
+      { type: "changed", before: 4, after: 3, oldText: "e", text: "f" },
+    ]);
+  });
+
+  it("compares an edited region too large for LCS paragraph by paragraph", () => {
+    const before = Array.from({ length: 2100 }, (_, i) => `Paragraph ${i}`);
+    // A paragraph inserted at the top and a new last one leave nothing to trim, so the whole book is one region
+    const after = ["Inserted", ...before.slice(0, -1), "Last"];
+
+    const changes = revisionChanges(before, after);
+    expect(diffStats(changes)).toEqual({ added: 1, removed: 0, changed: 2100 });
+    expect(changes[0]).toEqual({ type: "changed", before: 0, after: 0, oldText: "Paragraph 0", text: "Inserted" });
+    expect(changes[2100]).toEqual({ type: "added", after: 2100, text: "Last" });
+
+    // The same edit on a smaller book is found exactly
+    const small = before.slice(0, 100);
+    expect(diffStats(revisionChanges(small, ["Inserted", ...small.slice(0, -1), "Last"])))
+      .toEqual({ added: 1, removed: 0, changed: 1 });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { hasSsml, insertSsml, mapSsmlText, splitAtBreaks, ssmlError, stripSsml } from "@/lib/ssml";
+
+const NESTED = 'Say <emphasis level="strong">the <phoneme alphabet="ipa" ph="təˈmɑːtoʊ">tomato</phoneme> 3 times</emphasis>.';
+// A ">" inside a quoted attribute doesn't end the tag
+const QUOTED = `Go <phoneme ph="a>b" alphabet='ipa'>now</phoneme>!`;
+
+describe("stripSsml", () => {
+  it("removes tags and keeps their content", () => {
+    expect(stripSsml(NESTED)).toBe("Say the tomato 3 times.");
+    expect(stripSsml(QUOTED)).toBe("Go now!");
+    expect(stripSsml('Wait<break time="1s"/> here')).toBe("Wait here");
+  });
+
+  it("leaves other angle brackets and unknown tags alone", () => {
+    expect(stripSsml("a < b and <b>bold</b>")).toBe("a < b and <b>bold</b>");
+    expect(hasSsml("a < b and <b>bold</b>")).toBe(false);
+    expect(hasSsml(QUOTED)).toBe(true);
+  });
+});
+
+describe("mapSsmlText", () => {
+  const upper = (text: string) => text.toUpperCase();
+
+  it("rewrites text between tags but not the markup or phoneme content", () => {
+    expect(mapSsmlText(NESTED, upper)).toBe(
+      'SAY <emphasis level="strong">THE <phoneme alphabet="ipa" ph="təˈmɑːtoʊ">tomato</phoneme> 3 TIMES</emphasis>.'
+    );
+    expect(mapSsmlText(QUOTED, upper)).toBe(`GO <phoneme ph="a>b" alphabet='ipa'>now</phoneme>!`);
+  });
+
+  it("keeps say-as content, and a self-closing tag doesn't open an opaque run", () => {
+    expect(mapSsmlText('Call <say-as interpret-as="digits">42</say-as> now', upper))
+      .toBe('CALL <say-as interpret-as="digits">42</say-as> NOW');
+    expect(mapSsmlText('a<break time="1s"/>b', upper)).toBe('A<break time="1s"/>B');
+  });
+
+  it("passes text without markup through whole and skips empty runs", () => {
+    const runs: string[] = [];
+    mapSsmlText("plain text", (t) => { runs.push(t); return t; });
+    mapSsmlText('<emphasis>x</emphasis>', (t) => { runs.push(t); return t; });
+    expect(runs).toEqual(["plain text", "x"]);
+  });
+});
+
+describe("splitAtBreaks", () => {
+  it("splits at breaks with offsets into the stripped text", () => {
+    const text = 'One <emphasis>two</emphasis><break time="1.5s"/> three<break strength="weak"/><break/>four';
+    const pieces = splitAtBreaks(text);
+    expect(pieces).toEqual([
+      { text: "One two", start: 0, pauseMs: 1500 },
+      { text: " three", start: 7, pauseMs: 500 },
+      { text: "", start: 13, pauseMs: 750 },
+      { text: "four", start: 13, pauseMs: 0 },
+    ]);
+    for (const piece of pieces) expect(stripSsml(text).slice(piece.start, piece.start + piece.text.length)).toBe(piece.text);
+  });
+
+  it("returns the whole text as one piece without breaks", () => {
+    expect(splitAtBreaks(NESTED)).toEqual([{ text: "Say the tomato 3 times.", start: 0, pauseMs: 0 }]);
+  });
+});
+
+describe("ssmlError", () => {
+  it("accepts valid and nested markup", () => {
+    expect(ssmlError(NESTED)).toBeNull();
+    expect(ssmlError(QUOTED)).toBeNull();
+    expect(ssmlError('a<break time="500ms"/>b<break strength="x-strong"/>')).toBeNull();
+  });
+
+  const INVALID: [string, string][] = [
+    ["<emphasis>open", "<emphasis> is never closed"],
+    ["close</emphasis>", "</emphasis> has no opening tag"],
+    ['<emphasis><say-as interpret-as="digits">1</emphasis></say-as>', "</emphasis> closes <say-as>"],
+    ['<break time="1s"></break>', "<break> has no closing tag; write <break time=\"1s\"/>"],
+    ['<break time="soon"/>', 'Break time "soon" should look like 500ms or 1.5s'],
+    ['<break strength="loud"/>', 'Unknown break strength "loud"'],
+    ['<emphasis level="loud">x</emphasis>', 'Unknown emphasis level "loud"'],
+    ["<phoneme>x</phoneme>", "<phoneme> needs a ph attribute with the pronunciation"],
+    ['<phoneme ph="x" alphabet="x-sampa">x</phoneme>', "Phoneme alphabet should be ipa or cmu-arpabet"],
+    ['<say-as interpret-as="money">5</say-as>', "<say-as> needs interpret-as set to one of characters, digits, cardinal, ordinal, date, telephone"],
+    ["<emphasis/>", "<emphasis> needs content and a closing tag"],
+  ];
+  for (const [text, message] of INVALID) {
+    it(`reports ${text}`, () => {
+      expect(ssmlError(text)).toBe(message);
+    });
+  }
+});
+
+describe("insertSsml", () => {
+  it("wraps a selection, escapes attributes and moves the cursor past the markup", () => {
+    const { text, cursor } = insertSsml("say tomato now", 4, 10, { tag: "phoneme", ph: 'tə"m', alphabet: "ipa" });
+    expect(text).toBe('say <phoneme alphabet="ipa" ph="tə&quot;m">tomato</phoneme> now');
+    expect(text.slice(cursor)).toBe(" now");
+    expect(stripSsml(text)).toBe("say tomato now");
+  });
+
+  it("puts a break at the end of the selection", () => {
+    expect(insertSsml("ab", 0, 1, { tag: "break", time: "1s" })).toEqual({ text: 'a<break time="1s"/>b', cursor: 19 });
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { cleanPages } from "@/lib/textCleanup";
+
+// Body lines that differ from page to page in words (numbers are ignored), so only the furniture repeats
+const TREES = ["alder", "birch", "cedar", "elm", "fir", "hazel", "larch", "maple", "oak", "pine"];
+const body = (page: number) => [1, 2, 3].map((line) => `Line ${line} under the ${TREES[page]}.`).join("\n");
+
+const page = (n: number, top: string | null, bottom: string | null) => [top, body(n), bottom].filter((l) => l !== null).join("\n");
+
+describe("cleanPages", () => {
+  it("strips running headers and page numbers from the page edges", () => {
+    const pages = [1, 2, 3, 4].map((n) => page(n, "The Book Title", String(n)));
+    const { pages: cleaned, removed } = cleanPages(pages);
+
+    expect(cleaned).toEqual([1, 2, 3, 4].map(body));
+    expect(removed).toEqual([1, 2, 3, 4].flatMap((n) => [
+      { page: n - 1, text: "The Book Title", reason: "repeated" },
+      { page: n - 1, text: String(n), reason: "page-number" },
+    ]));
+  });
+
+  it("takes numbered headers as the same line and reads page number styles", () => {
+    const pages = [
+      page(1, "Chapter 3 · 41", "Page 41 of 300"),
+      page(2, "Chapter 3 · 42", "— 42 —"),
+      page(3, "Chapter 3 · 43", "(43)"),
+    ];
+    expect(cleanPages(pages).pages).toEqual([1, 2, 3].map(body));
+  });
+
+  it("drops Roman page numbers but keeps words spelled with the same letters", () => {
+    const numbered = ["xii", "iv", "xlix", "cccxcix"].map((n, i) => page(i, null, n));
+    expect(cleanPages(numbered).removed.map((r) => r.text)).toEqual(["xii", "iv", "xlix", "cccxcix"]);
+
+    const words = ["did", "mild", "civil", "mix", "livid"].map((word, i) => page(i, null, word));
+    expect(cleanPages(words).pages).toEqual(words);
+  });
+
+  it("keeps headings that only recur every few pages", () => {
+    const pages = Array.from({ length: 10 }, (_, i) => page(i, [0, 5, 9].includes(i) ? "Interlude" : null, null));
+    expect(cleanPages(pages).removed).toEqual([]);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { normalizeText, normalizeWithChanges } from "@/lib/textNormalizer";
+
+// [language, written, spoken]
+const CASES: [string, string, string][] = [
+  ["en", "It costs $1,250.50.", "It costs one thousand two hundred fifty dollars and fifty cents."],
+  ["en", "£0.99", "ninety-nine pence"],
+  ["en", "$1,000.005", "one thousand point zero zero five dollars"],
+  ["en", "¥1.5", "one point five yen"],
+  ["en", "₹5 crore", "five crore rupees"],
+  ["en", "$3.2 million", "three point two million dollars"],
+  ["en", "03/04/2025", "March fourth, twenty twenty-five"],
+  ["en", "13/04/2025", "April thirteenth, twenty twenty-five"],
+  ["en", "2025-04-03", "April third, twenty twenty-five"],
+  ["en", "at 7:05 pm", "at seven oh five p m"],
+  ["en", "the 21st of the 1990s", "the twenty-first of the nineteen nineties"],
+  ["en", "Chapter XIV", "Chapter fourteen"],
+  ["en", "pages 10–20", "pages ten to twenty"],
+  ["en", "the war of 1914-1918", "the war of nineteen fourteen to nineteen eighteen"],
+  ["en", "It was -5 °C (-4 at night)", "It was minus five degrees Celsius (minus four at night)"],
+  ["en", "3.5kg and 5 g", "three point five kilograms and five grams"],
+  ["en", "15%", "fifteen percent"],
+  ["en", "in 1990", "in nineteen ninety"],
+
+  ["es", "12,50 €", "doce euros con cincuenta céntimos"],
+  ["es", "1 euro y 1 libra", "un euro y una libra"],
+  ["es", "21 libras o 200 libras", "veintiuna libras o doscientas libras"],
+  ["es", "el 3/4/2025", "el tres de abril de dos mil veinticinco"],
+  ["es", "a las 10:30", "a las diez y treinta"],
+  ["es", "1 km", "un kilómetro"],
+  ["es", "1 mph", "una milla por hora"],
+  ["es", "Costó $5k", "Costó cinco mil dólares"],
+  ["es", "$1k", "mil dólares"],
+  ["es", "$1 million", "un millón de dólares"],
+
+  ["fr", "₹1,250.50", "mille deux cent cinquante roupies et cinquante paisas"],
+  ["fr", "₹1", "une roupie"],
+  ["fr", "21 livres", "vingt et une livres"],
+  ["fr", "3,5 km", "trois virgule cinq kilomètres"],
+  ["fr", "le 03/04/2025", "le trois avril deux mille vingt-cinq"],
+  ["fr", "le 2e", "le deuxième"],
+  ["fr", "$5k", "cinq mille dollars"],
+  ["fr", "$2 million", "deux millions de dollars"],
+
+  ["de", "1.250,50 €", "eintausendzweihundertfünfzig Euro und fünfzig Cent"],
+  ["de", "1 Euro, 1 Rupie", "ein Euro, eine Rupie"],
+  ["de", "$1 million", "eine Million Dollar"],
+  ["de", "€3 billion", "drei Milliarden Euro"],
+  ["de", "am 3.4.2025", "am dritten April zweitausendfünfundzwanzig"],
+  ["de", "um 10:30", "um zehn Uhr dreißig"],
+  ["de", "Kapitel IV", "Kapitel vier"],
+
+  ["it", "1 euro e 1 sterlina", "un euro e una sterlina"],
+  ["it", "21 sterline", "ventuna sterline"],
+  ["it", "1 km", "un chilometro"],
+  ["it", "il 3/4/2025", "il tre aprile duemilaventicinque"],
+
+  ["pt", "2 libras e 200 libras", "duas libras e duzentas libras"],
+  ["pt", "2 euros", "dois euros"],
+  ["pt", "2 mph", "duas milhas por hora"],
+  ["pt", "às 10:00", "às dez horas"],
+];
+
+// Text the normalizer must leave as written
+const UNCHANGED: [string, string][] = [
+  ["en", "Call 555-1234 today."],
+  ["en", "ISBN 978-3-16-148410-0"],
+  ["en", "+44 20 7946 0958"],
+  ["en", "I have 4g LTE"],
+  ["en", "a 5m lead"],
+  ["en", "COVID-19"],
+  ["es", "Llame al 555-1234"],
+  ["fr", "ISBN 978-3-16-148410-0"],
+  ["de", "Tel. 030-123456"],
+  // No Spanish or Hindi word for the scale, so no English one either
+  ["es", "₹5 crore"],
+  ["hi", "₹5 crore"],
+];
+
+describe("normalizeText", () => {
+  for (const [language, written, spoken] of CASES) {
+    it(`${language}: ${written}`, () => {
+      expect(normalizeText(written, language)).toBe(spoken);
+    });
+  }
+
+  for (const [language, text] of UNCHANGED) {
+    it(`${language}: leaves ${text}`, () => {
+      expect(normalizeText(text, language)).toBe(text);
+    });
+  }
+
+  it("reads a hyphen as minus only at the start of a word", () => {
+    expect(normalizeText("10-15 and 3 -2", "en")).toBe("10-15 and three minus two");
+  });
+
+  it("keeps digits for languages without a number speller but names the currency", () => {
+    expect(normalizeText("₹5", "hi")).toBe("5 रुपये");
+  });
+});
+
+describe("normalizeWithChanges", () => {
+  it("lists replacements but not the codes kept as written", () => {
+    expect(normalizeWithChanges("Call 555-1234 for $5", "en").changes).toEqual([
+      { original: "$5", spoken: "five dollars" },
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from "vitest";
+import { batchParagraphs, translateParagraphs, TranslationProvider } from "@/lib/translation";
+
+// Tags each text with the target language
+function createMockTranslationProvider(): TranslationProvider {
+  return {
+    id: "mock",
+    async translateBatch(texts, targetLanguage) {
+      return texts.map((t) => `[${targetLanguage}] ${t}`);
+    },
+  };
+}
+
+describe("batchParagraphs", () => {
+  it("splits by batch size", () => {
+    expect(batchParagraphs(["a", "b", "c", "d", "e"], 2, 1000)).toEqual([[0, 1], [2, 3], [4]]);
+  });
+
+  it("splits by character budget and keeps oversized paragraphs alone", () => {
+    expect(batchParagraphs(["aaaa", "bb", "cccccccc", "d"], 10, 6)).toEqual([[0, 1], [2], [3]]);
+  });
+});
+
+describe("translateParagraphs", () => {
+  it("translates in order and reports progress per batch", async () => {
+    const progress: [number, number][] = [];
+    const result = await translateParagraphs(["one", "two", "three"], {
+      provider: createMockTranslationProvider(),
+      targetLanguage: "hi",
+      maxBatchSize: 2,
+      onProgress: (done, total) => progress.push([done, total]),
+    });
+
+    expect(result).toEqual(["[hi] one", "[hi] two", "[hi] three"]);
+    expect(progress).toEqual([[0, 2], [1, 2], [2, 2]]);
+  });
+
+  it("passes empty paragraphs through untouched", async () => {
+    const provider = createMockTranslationProvider();
+    const spy = vi.spyOn(provider, "translateBatch");
+    const result = await translateParagraphs(["hello", "  ", "world"], { provider, targetLanguage: "ta" });
+
+    expect(result).toEqual(["[ta] hello", "  ", "[ta] world"]);
+    expect(spy).toHaveBeenCalledWith(["hello", "world"], "ta", undefined);
+  });
+
+  it("retries a failing batch", async () => {
+    let calls = 0;
+    const provider: TranslationProvider = {
+      id: "flaky",
+      async translateBatch(texts) {
+        calls++;
+        if (calls === 1) throw new Error("temporary");
+        return texts.map((t) => t.toUpperCase());
+      },
+    };
+
+    const result = await translateParagraphs(["abc"], { provider, targetLanguage: "en", retryDelayMs: 0 });
+    expect(result).toEqual(["ABC"]);
+    expect(calls).toBe(2);
+  });
+
+  it("gives up after the retry budget", async () => {
+    const provider: TranslationProvider = {
+      id: "broken",
+      translateBatch: async () => { throw new Error("down"); },
+    };
+
+    await expect(
+      translateParagraphs(["abc"], { provider, targetLanguage: "en", retries: 1, retryDelayMs: 0 })
+    ).rejects.toThrow("down");
+  });
+
+  it("rejects providers that return the wrong number of results", async () => {
+    const provider: TranslationProvider = { id: "short", translateBatch: async () => [] };
+
+    await expect(
+      translateParagraphs(["a", "b"], { provider, targetLanguage: "fr", retries: 0 })
+    ).rejects.toThrow("Expected 2 translations, got 0");
+  });
+});
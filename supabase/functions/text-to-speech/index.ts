@@ -1,10 +1,222 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { encode as base64Encode, decode as base64Decode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+  "Access-Control-Expose-Headers": "x-cache",
 };
 
+const MODEL_ID = "eleven_multilingual_v2";
+// Only the English v2 models read <phoneme>; the multilingual model would speak the tag
+const PHONEME_MODEL_ID = "eleven_flash_v2";
+const CACHE_BUCKET = "tts-cache";
+// ElevenLabs has a 5000 character limit per request
+const MAX_SEGMENT_CHARS = 5000;
+// Context passed to neighbouring requests so prosody carries across segment joins
+const CONTEXT_CHARS = 500;
+// mp3_44100_128 is constant bitrate, so duration follows from byte length
+const MP3_BYTES_PER_SECOND = 128000 / 8;
+// Longest pause ElevenLabs honours for a <break>
+const MAX_BREAK_SECONDS = 3;
+
+// The SSML subset paragraphs may carry (src/lib/ssml.ts)
+const SSML_TAG = /<(\/?)(break|emphasis|phoneme|say-as)\b((?:[^>"']|"[^"]*"|'[^']*')*?)\/?>/g;
+const BREAK_STRENGTH_SECONDS: Record<string, number> = {
+  none: 0, "x-weak": 0.25, weak: 0.5, medium: 0.75, strong: 1, "x-strong": 1.5,
+};
+// say-as kinds ElevenLabs would otherwise read as whole words or numbers
+const SPELLED_OUT = ["characters", "digits"];
+
+interface CharacterAlignment {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Split text into segments of at most maxChars, preferring sentence boundaries,
+ * then clause/word boundaries, and hard-splitting only unbroken runs (e.g. CJK).
+ */
+function splitIntoSegments(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) return [text];
+
+  // Every character lands in exactly one sentence, including leading punctuation and an unterminated tail
+  const sentences = text.match(/[^.!?।。！？]*[.!?।。！？]+["'”’)\]]*\s*|[^.!?।。！？]+$/g) || [text];
+  const pieces: string[] = [];
+
+  for (const sentence of sentences) {
+    if (sentence.length <= maxChars) {
+      pieces.push(sentence);
+      continue;
+    }
+    let rest = sentence;
+    while (rest.length > maxChars) {
+      const window = rest.slice(0, maxChars);
+      const cut = Math.max(window.lastIndexOf(", "), window.lastIndexOf("; "), window.lastIndexOf(" "));
+      const at = cut > maxChars / 2 ? cut + 1 : maxChars;
+      pieces.push(rest.slice(0, at));
+      rest = rest.slice(at);
+    }
+    if (rest) pieces.push(rest);
+  }
+
+  const segments: string[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    if (current && current.length + piece.length > maxChars) {
+      segments.push(current.trim());
+      current = "";
+    }
+    current += piece;
+  }
+  if (current.trim()) segments.push(current.trim());
+  return segments;
+}
+
+function attribute(attrs: string, name: string): string | undefined {
+  const match = attrs.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`));
+  return match ? match[1] ?? match[2] : undefined;
+}
+
+function breakSeconds(attrs: string): number {
+  const time = attribute(attrs, "time")?.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s)$/i);
+  const seconds = time
+    ? Number(time[1]) / (time[2].toLowerCase() === "ms" ? 1000 : 1)
+    : BREAK_STRENGTH_SECONDS[attribute(attrs, "strength") ?? "medium"] ?? BREAK_STRENGTH_SECONDS.medium;
+  return Math.min(seconds, MAX_BREAK_SECONDS);
+}
+
+/**
+ * Rewrite paragraph markup into what ElevenLabs reads: breaks in seconds,
+ * phonemes when the model supports them, letter/digit say-as spelled out with
+ * spaces, and emphasis and other say-as unwrapped to their text.
+ */
+function toElevenLabsMarkup(text: string, phonemes: boolean): string {
+  if (!text.includes("<")) return text;
+  return text
+    .replace(/<say-as\b([^>]*)>([\s\S]*?)<\/say-as>/g, (_, attrs: string, content: string) =>
+      SPELLED_OUT.includes(attribute(attrs, "interpret-as") ?? "")
+        ? Array.from(content.replace(SSML_TAG, "")).filter((ch) => ch.trim()).join(" ")
+        : content)
+    .replace(SSML_TAG, (tag, _closing: string, name: string, attrs: string) => {
+      if (name === "break") {
+        const seconds = breakSeconds(attrs);
+        return seconds > 0 ? `<break time="${seconds}s" />` : "";
+      }
+      return name === "phoneme" && phonemes ? tag : "";
+    });
+}
+
+const stripMarkup = (text: string) => text.replace(SSML_TAG, "");
+
+/** splitIntoSegments for text with markup: tags count toward the limit but are never cut. */
+function splitMarkedUp(text: string, maxChars: number): string[] {
+  // Same length, no spaces or sentence ends, so the split offsets carry over to the original
+  const masked = text.replace(SSML_TAG, (tag) => "x".repeat(tag.length));
+  let pos = 0;
+  return splitIntoSegments(masked, maxChars).map((segment) => {
+    const start = masked.indexOf(segment, pos);
+    pos = start + segment.length;
+    return text.slice(start, pos);
+  });
+}
+
+/** Drop tag characters from an alignment that covers the sent text, so offsets follow the spoken words. */
+function withoutMarkup(alignment: CharacterAlignment, text: string): CharacterAlignment {
+  if (!text.includes("<") || alignment.characters.join("") !== text) return alignment;
+  const inTag = new Uint8Array(text.length);
+  for (const m of text.matchAll(SSML_TAG)) inTag.fill(1, m.index!, m.index! + m[0].length);
+
+  const keep: number[] = [];
+  let offset = 0;
+  alignment.characters.forEach((ch, i) => {
+    if (!inTag[offset]) keep.push(i);
+    offset += ch.length;
+  });
+  return {
+    characters: keep.map((i) => alignment.characters[i]),
+    character_start_times_seconds: keep.map((i) => alignment.character_start_times_seconds[i]),
+    character_end_times_seconds: keep.map((i) => alignment.character_end_times_seconds[i]),
+  };
+}
+
+class UpstreamError extends Error {
+  constructor(public status: number) {
+    super(`ElevenLabs request failed with status ${status}`);
+  }
+}
+
+async function synthesizeSegment(
+  apiKey: string,
+  modelId: string,
+  voiceId: string,
+  speed: number,
+  text: string,
+  context: { previousText?: string; nextText?: string; previousRequestIds: string[] }
+): Promise<{ audio: Uint8Array; alignment: CharacterAlignment | null; requestId: string | null }> {
+  // The timestamps endpoint costs the same and lets clients highlight along with the audio
+  const response = await fetch(
+    `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}/with-timestamps?output_format=mp3_44100_128`,
+    {
+      method: "POST",
+      headers: {
+        "xi-api-key": apiKey,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        text,
+        model_id: modelId,
+        voice_settings: {
+          stability: 0.5,
+          similarity_boost: 0.75,
+          style: 0.5,
+          use_speaker_boost: true,
+          speed,
+        },
+        // Request stitching: up to 3 previous generations condition this one
+        ...(context.previousRequestIds.length
+          ? { previous_request_ids: context.previousRequestIds.slice(-3) }
+          : context.previousText ? { previous_text: context.previousText } : {}),
+        ...(context.nextText ? { next_text: context.nextText } : {}),
+      }),
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("ElevenLabs TTS error:", response.status, errorText);
+    throw new UpstreamError(response.status);
+  }
+
+  const { audio_base64, alignment } = await response.json();
+  return {
+    audio: base64Decode(audio_base64),
+    alignment: alignment ? withoutMarkup(alignment, text) : null,
+    requestId: response.headers.get("request-id"),
+  };
+}
+
+/** Concatenate segment alignments, shifting each by the audio length before it. */
+function mergeAlignments(parts: { audio: Uint8Array; alignment: CharacterAlignment | null }[]): CharacterAlignment | null {
+  if (parts.some((p) => !p.alignment)) return null;
+  const merged: CharacterAlignment = { characters: [], character_start_times_seconds: [], character_end_times_seconds: [] };
+  let offset = 0;
+  for (const { audio, alignment } of parts) {
+    merged.characters.push(...alignment!.characters);
+    merged.character_start_times_seconds.push(...alignment!.character_start_times_seconds.map((t) => t + offset));
+    merged.character_end_times_seconds.push(...alignment!.character_end_times_seconds.map((t) => t + offset));
+    offset += audio.length / MP3_BYTES_PER_SECOND;
+  }
+  return merged;
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -19,7 +231,9 @@ serve(async (req) => {
       });
     }
 
-    const { text, voiceId = "JBFqnCBsd6RMkjVDRZzb", speed = 1.0 } = await req.json();
+    const {
+      text, voiceId = "JBFqnCBsd6RMkjVDRZzb", speed = 1.0, language, withTimestamps = false, audiobookId, paragraphIndex,
+    } = await req.json();
 
     if (!text || typeof text !== "string") {
       return new Response(JSON.stringify({ error: "Text is required" }), {
@@ -28,55 +242,120 @@ serve(async (req) => {
       });
     }
 
-    // ElevenLabs has a 5000 character limit per request
-    const trimmedText = text.substring(0, 5000);
+    const clampedSpeed = Math.max(0.7, Math.min(1.2, speed));
+    const usePhonemes = /<phoneme\b/.test(text) && String(language ?? "").toLowerCase().startsWith("en");
+    const modelId = usePhonemes ? PHONEME_MODEL_ID : MODEL_ID;
 
-    const response = await fetch(
-      `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}?output_format=mp3_44100_128`,
-      {
-        method: "POST",
-        headers: {
-          "xi-api-key": ELEVENLABS_API_KEY,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          text: trimmedText,
-          model_id: "eleven_multilingual_v2",
-          voice_settings: {
-            stability: 0.5,
-            similarity_boost: 0.75,
-            style: 0.5,
-            use_speaker_boost: true,
-            speed: Math.max(0.7, Math.min(1.2, speed)),
-          },
-        }),
+    const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const cacheKey = await sha256Hex(JSON.stringify([text, voiceId, clampedSpeed, modelId]));
+    const cachePath = `${cacheKey}.mp3`;
+    const alignmentPath = `${cacheKey}.json`;
+
+    let audioBuffer: ArrayBuffer;
+    let alignment: CharacterAlignment | null = null;
+    let cacheStatus: "HIT" | "MISS";
+
+    const { data: cached } = await admin.storage.from(CACHE_BUCKET).download(cachePath);
+    if (cached) {
+      audioBuffer = await cached.arrayBuffer();
+      cacheStatus = "HIT";
+      if (withTimestamps) {
+        const { data: cachedAlignment } = await admin.storage.from(CACHE_BUCKET).download(alignmentPath);
+        if (cachedAlignment) alignment = JSON.parse(await cachedAlignment.text());
       }
-    );
+    } else {
+      // Synthesize long text segment by segment; MP3 frames concatenate into one stream
+      const segments = splitMarkedUp(toElevenLabsMarkup(text, usePhonemes), MAX_SEGMENT_CHARS);
+      const parts: { audio: Uint8Array; alignment: CharacterAlignment | null }[] = [];
+      const requestIds: string[] = [];
+
+      try {
+        for (let i = 0; i < segments.length; i++) {
+          const { requestId, ...part } = await synthesizeSegment(ELEVENLABS_API_KEY, modelId, voiceId, clampedSpeed, segments[i], {
+            previousText: segments[i - 1] && stripMarkup(segments[i - 1]).slice(-CONTEXT_CHARS),
+            nextText: segments[i + 1] && stripMarkup(segments[i + 1]).slice(0, CONTEXT_CHARS),
+            previousRequestIds: requestIds,
+          });
+          parts.push(part);
+          if (requestId) requestIds.push(requestId);
+        }
+      } catch (e) {
+        if (!(e instanceof UpstreamError)) throw e;
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("ElevenLabs TTS error:", response.status, errorText);
+        if (e.status === 429) {
+          return new Response(JSON.stringify({ error: "Rate limit exceeded. Please try again later." }), {
+            status: 429,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
 
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: "Rate limit exceeded. Please try again later." }), {
-          status: 429,
+        return new Response(JSON.stringify({ error: "TTS generation failed" }), {
+          status: 500,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         });
       }
 
-      return new Response(JSON.stringify({ error: "TTS generation failed" }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+      const combined = new Uint8Array(parts.reduce((n, p) => n + p.audio.length, 0));
+      parts.reduce((offset, p) => { combined.set(p.audio, offset); return offset + p.audio.length; }, 0);
+      audioBuffer = combined.buffer;
+      alignment = mergeAlignments(parts);
+      cacheStatus = "MISS";
+
+      const { error: uploadError } = await admin.storage
+        .from(CACHE_BUCKET)
+        .upload(cachePath, audioBuffer, { contentType: "audio/mpeg", upsert: true });
+      if (uploadError) console.error("TTS cache write failed:", uploadError);
+
+      if (alignment) {
+        const { error: alignmentError } = await admin.storage
+          .from(CACHE_BUCKET)
+          .upload(alignmentPath, JSON.stringify(alignment), { contentType: "application/json", upsert: true });
+        if (alignmentError) console.error("TTS alignment cache write failed:", alignmentError);
+      }
     }
 
-    const audioBuffer = await response.arrayBuffer();
+    // Record which book paragraph this audio belongs to, for prefetch and "rendered" status
+    if (audiobookId && Number.isInteger(paragraphIndex)) {
+      const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+      const { data: { user } } = token ? await admin.auth.getUser(token) : { data: { user: null } };
+
+      if (user) {
+        const { data: book } = await admin
+          .from("audiobooks")
+          .select("id")
+          .eq("id", audiobookId)
+          .eq("user_id", user.id)
+          .maybeSingle();
+
+        if (book) {
+          const { error: chunkError } = await admin.from("audio_chunks").upsert(
+            {
+              user_id: user.id,
+              audiobook_id: audiobookId,
+              paragraph_index: paragraphIndex,
+              voice_id: voiceId,
+              cache_key: cacheKey,
+              byte_size: audioBuffer.byteLength,
+            },
+            { onConflict: "audiobook_id,paragraph_index,voice_id" }
+          );
+          if (chunkError) console.error("Error recording audio chunk:", chunkError);
+        }
+      }
+    }
+
+    if (withTimestamps) {
+      return new Response(JSON.stringify({ audio: base64Encode(audioBuffer), alignment }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json", "X-Cache": cacheStatus },
+      });
+    }
 
     return new Response(audioBuffer, {
       headers: {
         ...corsHeaders,
         "Content-Type": "audio/mpeg",
         "Content-Length": audioBuffer.byteLength.toString(),
+        "X-Cache": cacheStatus,
       },
     });
   } catch (e) {
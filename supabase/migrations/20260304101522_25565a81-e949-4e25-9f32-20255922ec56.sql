@@ -0,0 +1,26 @@
+-- Rendered TTS audio, shared across users and keyed by a hash of (text, voice, speed, model).
+-- Only the text-to-speech edge function (service role) reads and writes this bucket.
+INSERT INTO storage.buckets (id, name, public) VALUES ('tts-cache', 'tts-cache', false);
+
+-- Which paragraphs of a book have cached audio
+CREATE TABLE public.audio_chunks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  audiobook_id UUID NOT NULL REFERENCES public.audiobooks(id) ON DELETE CASCADE,
+  paragraph_index INTEGER NOT NULL,
+  voice_id TEXT NOT NULL,
+  cache_key TEXT NOT NULL,
+  byte_size INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(audiobook_id, paragraph_index, voice_id)
+);
+
+CREATE INDEX audio_chunks_user_id_idx ON public.audio_chunks (user_id);
+
+ALTER TABLE public.audio_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own audio chunks" ON public.audio_chunks FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own audio chunks" ON public.audio_chunks FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_audio_chunks_updated_at BEFORE UPDATE ON public.audio_chunks FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
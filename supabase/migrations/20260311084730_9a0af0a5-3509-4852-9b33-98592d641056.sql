@@ -0,0 +1,2 @@
+-- Character offset within the current paragraph, for resuming browser-voice playback mid-paragraph
+ALTER TABLE public.playback_state ADD COLUMN char_offset INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,2 @@
+-- Chapter boundaries: [{ "title": text, "startParagraph": index }]
+ALTER TABLE public.audiobooks ADD COLUMN chapters JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,26 @@
+-- Snapshots of a book's text, one per save, so edits can be compared and undone.
+-- `changes` holds the paragraph diff against the previous revision.
+CREATE TABLE public.audiobook_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  audiobook_id UUID NOT NULL REFERENCES public.audiobooks(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  language TEXT NOT NULL,
+  language_label TEXT NOT NULL,
+  paragraphs JSONB NOT NULL DEFAULT '[]'::jsonb,
+  chapters JSONB NOT NULL DEFAULT '[]'::jsonb,
+  changes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX audiobook_revisions_audiobook_id_idx ON public.audiobook_revisions (audiobook_id, created_at DESC);
+
+ALTER TABLE public.audiobook_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are append-only
+CREATE POLICY "Users can view own revisions" ON public.audiobook_revisions FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own revisions" ON public.audiobook_revisions FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Existing books start their history from their current text
+INSERT INTO public.audiobook_revisions (user_id, audiobook_id, title, language, language_label, paragraphs, chapters, created_at)
+SELECT user_id, id, title, language, language_label, paragraphs, chapters, updated_at FROM public.audiobooks;
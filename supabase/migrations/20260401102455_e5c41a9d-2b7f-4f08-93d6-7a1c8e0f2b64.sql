@@ -0,0 +1,23 @@
+-- A user's pronunciation replacements. Entries without a book apply to every new book;
+-- entries with one override them for that book only.
+CREATE TABLE public.pronunciation_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  audiobook_id UUID REFERENCES public.audiobooks(id) ON DELETE CASCADE,
+  term TEXT NOT NULL,
+  replacement TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (user_id, audiobook_id, term)
+);
+
+CREATE INDEX pronunciation_entries_user_id_idx ON public.pronunciation_entries (user_id);
+
+ALTER TABLE public.pronunciation_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own pronunciations" ON public.pronunciation_entries FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own pronunciations" ON public.pronunciation_entries FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own pronunciations" ON public.pronunciation_entries FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own pronunciations" ON public.pronunciation_entries FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_pronunciation_entries_updated_at BEFORE UPDATE ON public.pronunciation_entries FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,14 @@
+-- Pronunciation entries become rules: whole-word, substring or regular expression
+-- matching, optional case-insensitivity, a priority and before/after context patterns.
+ALTER TABLE public.pronunciation_entries
+  ADD COLUMN match_mode TEXT NOT NULL DEFAULT 'word' CHECK (match_mode IN ('word', 'substring', 'regex')),
+  ADD COLUMN case_sensitive BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN priority INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN context_before TEXT,
+  ADD COLUMN context_after TEXT;
+
+-- The same term may now appear once per mode and context, e.g. "Dr." before a name and after a street name
+ALTER TABLE public.pronunciation_entries DROP CONSTRAINT pronunciation_entries_user_id_audiobook_id_term_key;
+ALTER TABLE public.pronunciation_entries
+  ADD CONSTRAINT pronunciation_entries_rule_key
+  UNIQUE NULLS NOT DISTINCT (user_id, audiobook_id, term, match_mode, context_before, context_after);
@@ -0,0 +1,2 @@
+-- Engine whose clock position_seconds was measured on; browser-voice seconds don't map onto cloud audio
+ALTER TABLE public.playback_state ADD COLUMN position_engine TEXT;
@@ -4,6 +4,18 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { viteStaticCopy } from "vite-plugin-static-copy";
+
+// OCR assets served from /tesseract so image OCR works offline: the worker, the
+// engine, and the language data for every OCR language (see src/lib/ocr.ts)
+const tesseractAssets = [
+  { src: "node_modules/tesseract.js/dist/worker.min.js", dest: "tesseract" },
+  { src: "node_modules/tesseract.js-core/tesseract-core*", dest: "tesseract/core" },
+  // Recognition runs LSTM-only, whose data is the smaller best_int set
+  { src: ["node_modules/@tesseract.js-data/*/4.0.0_best_int/*.traineddata.gz", "!**/osd/**"], dest: "tesseract/lang" },
+  // Script detection runs the legacy engine, which needs the full osd data
+  { src: "node_modules/@tesseract.js-data/osd/4.0.0/osd.traineddata.gz", dest: "tesseract/lang/legacy" },
+];
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -18,7 +30,11 @@ export default defineConfig(({ mode }) => ({
       ".ngrok-free.dev" // allow all free ngrok URLs
     ],
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [
+    react(),
+    viteStaticCopy({ targets: tesseractAssets }),
+    mode === "development" && componentTagger(),
+  ].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),